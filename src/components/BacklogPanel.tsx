@@ -200,9 +200,11 @@ export function BacklogPanel({
   };
 
   const handleDragStart = (e: React.DragEvent, task: SprintTask) => {
+    // The whole item travels along so the timeline can schedule it without the sprint store
     e.dataTransfer.setData('application/json', JSON.stringify({
       taskId: task.id,
       source: 'backlog',
+      task,
     }));
     e.dataTransfer.effectAllowed = 'move';
     setDraggedTaskId(task.id);
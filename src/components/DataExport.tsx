@@ -16,21 +16,25 @@ import {
 } from './ui/select';
 import { Label } from './ui/label';
 import { Checkbox } from './ui/checkbox';
-import { Download, FileJson, FileSpreadsheet, FileText, Calendar } from 'lucide-react';
+import { Download, FileJson, FileSpreadsheet, FileText, FileCode, Calendar } from 'lucide-react';
 import { toast } from 'sonner';
 import { Sprint, SprintTask } from '../types/sprint';
 import { Task } from './GanttChart';
+import { buildMsProjectXml } from '../utils/msProject';
+import { buildMermaidGantt } from '../utils/mermaidGantt';
+import { GanttBaseline } from '../utils/baselines';
 
 interface DataExportProps {
   sprints: Sprint[];
   sprintTasks: SprintTask[];
   ganttTasks: Task[];
+  ganttBaselines?: GanttBaseline[];
 }
 
-type ExportFormat = 'json' | 'csv' | 'markdown';
+type ExportFormat = 'json' | 'csv' | 'markdown' | 'msproject';
 type DataType = 'all' | 'sprints' | 'tasks' | 'gantt';
 
-export function DataExport({ sprints, sprintTasks, ganttTasks }: DataExportProps) {
+export function DataExport({ sprints, sprintTasks, ganttTasks, ganttBaselines = [] }: DataExportProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [format, setFormat] = useState<ExportFormat>('json');
   const [dataType, setDataType] = useState<DataType>('all');
@@ -65,6 +69,8 @@ export function DataExport({ sprints, sprintTasks, ganttTasks }: DataExportProps
         startDate: formatDate(t.startDate),
         endDate: formatDate(t.endDate),
       }));
+      // Full timestamps: a baseline records exactly what was planned when it was saved
+      if (ganttBaselines.length > 0) data.ganttBaselines = ganttBaselines;
     }
 
     return JSON.stringify(data, null, 2);
@@ -167,6 +173,13 @@ export function DataExport({ sprints, sprintTasks, ganttTasks }: DataExportProps
     if (dataType === 'all' || dataType === 'gantt') {
       lines.push('## Gantt Tasks');
       lines.push('');
+      // Rendered as a chart by GitHub and most wikis
+      if (ganttTasks.length > 0) {
+        lines.push('```mermaid');
+        lines.push(buildMermaidGantt(ganttTasks));
+        lines.push('```');
+        lines.push('');
+      }
       lines.push('| 태스크 | 시작일 | 종료일 | 진행률 |');
       lines.push('|--------|--------|--------|--------|');
       ganttTasks.forEach(task => {
@@ -208,6 +221,12 @@ export function DataExport({ sprints, sprintTasks, ganttTasks }: DataExportProps
         filename = `sprint-export-${formatDate(new Date())}.md`;
         mimeType = 'text/markdown';
         break;
+      case 'msproject':
+        // MS Project only holds the schedule, so this is always the gantt tasks
+        content = buildMsProjectXml(ganttTasks, 'Sprint Manager');
+        filename = `gantt-export-${formatDate(new Date())}.xml`;
+        mimeType = 'application/xml';
+        break;
     }
 
     const blob = new Blob([content], { type: mimeType });
@@ -244,7 +263,7 @@ export function DataExport({ sprints, sprintTasks, ganttTasks }: DataExportProps
           {/* Format Selection */}
           <div className="space-y-2">
             <Label>내보내기 형식</Label>
-            <div className="grid grid-cols-3 gap-2">
+            <div className="grid grid-cols-4 gap-2">
               <Button
                 variant={format === 'json' ? 'default' : 'outline'}
                 className="gap-2 h-12 flex-col"
@@ -269,13 +288,25 @@ export function DataExport({ sprints, sprintTasks, ganttTasks }: DataExportProps
                 <FileText className="h-5 w-5" />
                 <span className="text-xs">Markdown</span>
               </Button>
+              <Button
+                variant={format === 'msproject' ? 'default' : 'outline'}
+                className="gap-2 h-12 flex-col"
+                onClick={() => setFormat('msproject')}
+              >
+                <FileCode className="h-5 w-5" />
+                <span className="text-xs">MS Project</span>
+              </Button>
             </div>
           </div>
 
           {/* Data Type Selection */}
           <div className="space-y-2">
             <Label>데이터 종류</Label>
-            <Select value={dataType} onValueChange={(v) => setDataType(v as DataType)}>
+            <Select
+              value={format === 'msproject' ? 'gantt' : dataType}
+              onValueChange={(v) => setDataType(v as DataType)}
+              disabled={format === 'msproject'}
+            >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
@@ -307,10 +338,12 @@ export function DataExport({ sprints, sprintTasks, ganttTasks }: DataExportProps
           <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-1">
             <div className="font-medium">내보내기 요약</div>
             <div className="text-muted-foreground">
+              {format === 'msproject' ? `${ganttTasks.length}개 간트 태스크 (MSPDI XML)` : <>
               {dataType === 'all' && `${sprints.length}개 스프린트, ${sprintTasks.length}개 태스크, ${ganttTasks.length}개 간트 태스크`}
               {dataType === 'sprints' && `${sprints.filter(s => includeCompleted || s.status !== 'completed').length}개 스프린트`}
               {dataType === 'tasks' && `${sprintTasks.filter(t => includeCompleted || t.status !== 'done').length}개 태스크`}
               {dataType === 'gantt' && `${ganttTasks.length}개 간트 태스크`}
+              </>}
             </div>
           </div>
 
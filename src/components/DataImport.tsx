@@ -16,37 +16,50 @@ import {
 } from './ui/select';
 import { Label } from './ui/label';
 import { Checkbox } from './ui/checkbox';
-import { Upload, FileJson, FileSpreadsheet, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { Upload, FileJson, FileSpreadsheet, FileCode, FileText, AlertCircle, CheckCircle2, Loader2, Diamond } from 'lucide-react';
 import { toast } from 'sonner';
 import { Sprint, SprintTask } from '../types/sprint';
 import { Task } from './GanttChart';
+import { normalizeDependencies } from '../utils/dependencies';
+import { parseMsProjectXml } from '../utils/msProject';
+import { parseMermaidGantt } from '../utils/mermaidGantt';
+import { GanttBaseline, parseBaselines } from '../utils/baselines';
 
 interface DataImportProps {
   onImportSprints: (sprints: Sprint[]) => void;
   onImportSprintTasks: (tasks: SprintTask[]) => void;
   onImportGanttTasks: (tasks: Task[]) => void;
+  onImportGanttBaselines?: (baselines: GanttBaseline[]) => void;
   existingSprints: Sprint[];
   existingSprintTasks: SprintTask[];
   existingGanttTasks: Task[];
+  existingGanttBaselines?: GanttBaseline[];
 }
 
-type ImportFormat = 'json' | 'csv';
+type ImportFormat = 'json' | 'csv' | 'msproject' | 'mermaid';
 type ImportMode = 'replace' | 'merge';
 
 interface ImportPreview {
   sprints: number;
   sprintTasks: number;
   ganttTasks: number;
+  baselines?: number;
   errors: string[];
+  warnings?: string[]; // imported anyway
+  ganttTaskPreview?: Task[]; // the parsed plan, for formats that map onto gantt tasks
 }
 
+const GANTT_PREVIEW_ROWS = 8;
+
 export function DataImport({
   onImportSprints,
   onImportSprintTasks,
   onImportGanttTasks,
+  onImportGanttBaselines,
   existingSprints,
   existingSprintTasks,
   existingGanttTasks,
+  existingGanttBaselines = [],
 }: DataImportProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [format, setFormat] = useState<ImportFormat>('json');
@@ -79,6 +92,7 @@ export function DataImport({
     let sprintCount = 0;
     let taskCount = 0;
     let ganttCount = 0;
+    let baselineCount = 0;
 
     try {
       const data = JSON.parse(content);
@@ -131,7 +145,9 @@ export function DataImport({
         });
       }
 
-      if (sprintCount === 0 && taskCount === 0 && ganttCount === 0) {
+      baselineCount = parseBaselines(data.ganttBaselines).length;
+
+      if (sprintCount === 0 && taskCount === 0 && ganttCount === 0 && baselineCount === 0) {
         errors.push('가져올 수 있는 데이터가 없습니다');
       }
 
@@ -143,6 +159,7 @@ export function DataImport({
       sprints: sprintCount,
       sprintTasks: taskCount,
       ganttTasks: ganttCount,
+      baselines: baselineCount,
       errors,
     };
   };
@@ -203,6 +220,30 @@ export function DataImport({
     };
   };
 
+  const parseMsProject = (content: string): ImportPreview => {
+    const result = parseMsProjectXml(content);
+    return {
+      sprints: 0,
+      sprintTasks: 0,
+      ganttTasks: result.tasks.length,
+      errors: result.errors,
+      warnings: result.warnings,
+      ganttTaskPreview: result.tasks,
+    };
+  };
+
+  const parseMermaid = (content: string): ImportPreview => {
+    const result = parseMermaidGantt(content);
+    return {
+      sprints: 0,
+      sprintTasks: 0,
+      ganttTasks: result.tasks.length,
+      errors: result.errors,
+      warnings: result.warnings,
+      ganttTaskPreview: result.tasks,
+    };
+  };
+
   const parseCSVLine = (line: string): string[] => {
     const result: string[] = [];
     let current = '';
@@ -247,6 +288,12 @@ export function DataImport({
       } else if (file.name.endsWith('.csv')) {
         setFormat('csv');
         setPreview(parseCSV(content));
+      } else if (file.name.endsWith('.xml') || content.trimStart().startsWith('<')) {
+        setFormat('msproject');
+        setPreview(parseMsProject(content));
+      } else if (/\.(md|mmd)$/.test(file.name) || /^\s*gantt\s*$/m.test(content)) {
+        setFormat('mermaid');
+        setPreview(parseMermaid(content));
       } else {
         // Try to auto-detect
         try {
@@ -312,11 +359,24 @@ export function DataImport({
           }
         }
 
+        // Before the gantt tasks: importing those reloads the page
+        const importedBaselines = parseBaselines(data.ganttBaselines);
+        if (importedBaselines.length > 0 && onImportGanttBaselines) {
+          if (mode === 'replace') {
+            onImportGanttBaselines(importedBaselines);
+          } else {
+            const existingIds = new Set(existingGanttBaselines.map(b => b.id));
+            const newBaselines = importedBaselines.filter(b => !existingIds.has(b.id));
+            onImportGanttBaselines([...existingGanttBaselines, ...newBaselines]);
+          }
+        }
+
         if (data.ganttTasks && Array.isArray(data.ganttTasks)) {
           const importedGantt: Task[] = data.ganttTasks.map((t: any) => ({
             ...t,
             startDate: parseDate(t.startDate),
             endDate: parseDate(t.endDate),
+            dependencies: normalizeDependencies(t.dependencies),
           }));
 
           if (mode === 'replace') {
@@ -331,6 +391,18 @@ export function DataImport({
         toast.success('데이터 가져오기 완료', {
           description: `스프린트 ${preview.sprints}개, 태스크 ${preview.sprintTasks}개`,
         });
+      } else if (format === 'msproject' || format === 'mermaid') {
+        const importedGantt = format === 'msproject'
+          ? parseMsProjectXml(fileContent).tasks
+          : parseMermaidGantt(fileContent).tasks;
+
+        if (mode === 'replace') {
+          onImportGanttTasks(importedGantt);
+        } else {
+          const existingIds = new Set(existingGanttTasks.map(t => t.id));
+          const newTasks = importedGantt.filter(t => !existingIds.has(t.id));
+          onImportGanttTasks([...existingGanttTasks, ...newTasks]);
+        }
       }
 
       setIsOpen(false);
@@ -376,7 +448,7 @@ export function DataImport({
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".json,.csv"
+                accept=".json,.csv,.xml,.md,.mmd"
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -389,6 +461,10 @@ export function DataImport({
                 <div className="flex flex-col items-center gap-2">
                   {format === 'json' ? (
                     <FileJson className="h-8 w-8 text-primary" />
+                  ) : format === 'msproject' ? (
+                    <FileCode className="h-8 w-8 text-primary" />
+                  ) : format === 'mermaid' ? (
+                    <FileText className="h-8 w-8 text-primary" />
                   ) : (
                     <FileSpreadsheet className="h-8 w-8 text-primary" />
                   )}
@@ -399,7 +475,7 @@ export function DataImport({
                 <div className="flex flex-col items-center gap-2">
                   <Upload className="h-8 w-8 text-muted-foreground" />
                   <span className="text-sm text-muted-foreground">
-                    JSON 또는 CSV 파일을 선택하세요
+                    JSON, CSV, MS Project XML 또는 Mermaid gantt 파일을 선택하세요
                   </span>
                   <span className="text-xs text-muted-foreground">
                     클릭하거나 드래그 앤 드롭
@@ -445,8 +521,66 @@ export function DataImport({
                   <span>간트 태스크</span>
                   <span className="font-medium">{preview.ganttTasks}개</span>
                 </div>
+                {!!preview.baselines && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span>베이스라인</span>
+                    <span className="font-medium">{preview.baselines}개</span>
+                  </div>
+                )}
               </div>
 
+              {/* Parsed plan (MS Project, Mermaid) */}
+              {preview.ganttTaskPreview && preview.ganttTaskPreview.length > 0 && (
+                <div className="border border-border rounded-lg divide-y divide-border text-xs">
+                  {preview.ganttTaskPreview.slice(0, GANTT_PREVIEW_ROWS).map(task => {
+                    let level = 0;
+                    let parentId = task.parentId;
+                    while (parentId) {
+                      level++;
+                      parentId = preview.ganttTaskPreview!.find(t => t.id === parentId)?.parentId;
+                    }
+                    return (
+                      <div key={task.id} className="flex items-center gap-2 px-2 py-1.5">
+                        <span className="flex items-center gap-1 min-w-0 flex-1 truncate" style={{ paddingLeft: level * 12 }}>
+                          {task.isMilestone && <Diamond className="h-3 w-3 flex-shrink-0" style={{ color: '#f59e0b' }} />}
+                          <span className="truncate">{task.name}</span>
+                        </span>
+                        {task.assignee && <span className="text-muted-foreground truncate max-w-[80px]">{task.assignee}</span>}
+                        {task.dependencies && (
+                          <span className="text-muted-foreground">선행 {task.dependencies.length}</span>
+                        )}
+                        <span className="text-muted-foreground tabular-nums flex-shrink-0">
+                          {task.startDate.toISOString().slice(5, 10)}
+                        </span>
+                        <span className="text-muted-foreground tabular-nums w-8 text-right flex-shrink-0">{task.progress}%</span>
+                      </div>
+                    );
+                  })}
+                  {preview.ganttTaskPreview.length > GANTT_PREVIEW_ROWS && (
+                    <div className="px-2 py-1.5 text-muted-foreground">
+                      ... 외 {preview.ganttTaskPreview.length - GANTT_PREVIEW_ROWS}개
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Warnings */}
+              {preview.warnings && preview.warnings.length > 0 && (
+                <div
+                  className="p-3 rounded-lg border"
+                  style={{ backgroundColor: 'rgba(245, 158, 11, 0.1)', borderColor: 'rgba(245, 158, 11, 0.3)' }}
+                >
+                  <ul className="text-xs space-y-1" style={{ color: '#b45309' }}>
+                    {preview.warnings.slice(0, 5).map((warning, i) => (
+                      <li key={i}>• {warning}</li>
+                    ))}
+                    {preview.warnings.length > 5 && (
+                      <li>... 외 {preview.warnings.length - 5}개</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
               {/* Errors */}
               {preview.errors.length > 0 && (
                 <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
@@ -466,7 +600,7 @@ export function DataImport({
               )}
 
               {/* Success */}
-              {preview.errors.length === 0 && (preview.sprints > 0 || preview.sprintTasks > 0 || preview.ganttTasks > 0) && (
+              {preview.errors.length === 0 && (preview.sprints > 0 || preview.sprintTasks > 0 || preview.ganttTasks > 0 || !!preview.baselines) && (
                 <div className="p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
                   <div className="flex items-center gap-2 text-sm font-medium text-green-600 dark:text-green-400">
                     <CheckCircle2 className="h-4 w-4" />
@@ -482,7 +616,7 @@ export function DataImport({
             onClick={handleImport}
             className="w-full gap-2"
             disabled={!preview || preview.errors.length > 0 || isLoading ||
-              (preview.sprints === 0 && preview.sprintTasks === 0 && preview.ganttTasks === 0)}
+              (preview.sprints === 0 && preview.sprintTasks === 0 && preview.ganttTasks === 0 && !preview.baselines)}
           >
             {isLoading ? (
               <Loader2 className="h-4 w-4 animate-spin" />
@@ -1,98 +1,140 @@
-import React, { useMemo } from 'react';
-import { Task } from './GanttChart';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Task, TaskDependency, DependencyType } from './GanttChart';
+import { getLinkKey } from '../utils/criticalPath';
+import { getDependencyAnchors, formatDependencyLabel } from '../utils/dependencies';
+import { VisibleRange } from '../utils/virtualRows';
+import { getTimelineOffsetDays } from '../utils/taskTime';
 
 interface DependencyLinesProps {
   tasks: (Task & { level?: number })[];
   timelineStart: Date;
   totalDays: number;
-  rowHeight: 'compact' | 'default' | 'comfortable';
+  rowOffsets: number[]; // top of each row plus the total height, see computeRowOffsets
+  visibleRange?: VisibleRange; // only links crossing these rows are drawn
   showDependencyLines: boolean;
+  criticalLinks?: Set<string>;
+  cyclicLinks?: Set<string>;
+  taskColumnWidth?: number;
+  selectedLinkKey?: string | null;
+  onLinkSelect?: (fromTaskId: string, toTaskId: string) => void;
+  onLinkDelete?: (fromTaskId: string, toTaskId: string) => void;
 }
 
 interface DependencyLine {
   fromTaskId: string;
   toTaskId: string;
-  fromX: number;
+  fromX: number; // percent of the timeline width
   fromY: number;
-  toX: number;
+  toX: number; // percent of the timeline width
   toY: number;
+  type: DependencyType;
+  label: string;
+  isCritical: boolean;
+  isCyclic: boolean;
 }
 
-const rowHeightPx: Record<string, number> = {
-  compact: 48,
-  default: 64,
-  comfortable: 80,
-};
-
 export function DependencyLines({
   tasks,
   timelineStart,
   totalDays,
-  rowHeight,
+  rowOffsets,
+  visibleRange,
   showDependencyLines,
+  criticalLinks,
+  cyclicLinks,
+  taskColumnWidth = 256,
+  selectedLinkKey,
+  onLinkSelect,
+  onLinkDelete,
 }: DependencyLinesProps) {
-  const lines = useMemo(() => {
+  // SVG path data has no percent units, so x positions are scaled by the measured width
+  const [svgElement, setSvgElement] = useState<SVGSVGElement | null>(null);
+  const [svgWidth, setSvgWidth] = useState(0);
+
+  useEffect(() => {
+    if (!svgElement) return;
+    setSvgWidth(svgElement.getBoundingClientRect().width);
+    const observer = new ResizeObserver(entries => setSvgWidth(entries[0].contentRect.width));
+    observer.observe(svgElement);
+    return () => observer.disconnect();
+  }, [svgElement]);
+
+  // Row indices of every link's two ends; only changes with the rows themselves
+  const links = useMemo(() => {
     if (!showDependencyLines) return [];
 
-    const dependencyLines: DependencyLine[] = [];
     const taskIndexMap = new Map<string, number>();
-    const taskHeight = rowHeightPx[rowHeight] || 64;
-
-    // Build task index map
     tasks.forEach((task, index) => {
       taskIndexMap.set(task.id, index);
     });
 
+    const result: { fromIndex: number; toIndex: number; dep: TaskDependency }[] = [];
     tasks.forEach((task, toIndex) => {
-      if (task.dependencies && task.dependencies.length > 0) {
-        task.dependencies.forEach((depId) => {
-          const fromIndex = taskIndexMap.get(depId);
-          if (fromIndex === undefined) return;
-
-          const fromTask = tasks[fromIndex];
-          if (!fromTask) return;
-
-          // Calculate X positions based on task dates
-          const fromEndDays = Math.ceil(
-            (fromTask.endDate.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24)
-          );
-          const toStartDays = Math.ceil(
-            (task.startDate.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24)
-          );
-
-          const fromX = Math.max(0, Math.min(100, (fromEndDays / totalDays) * 100));
-          const toX = Math.max(0, Math.min(100, (toStartDays / totalDays) * 100));
-
-          // Calculate Y positions based on task row indices
-          const fromY = fromIndex * taskHeight + taskHeight / 2;
-          const toY = toIndex * taskHeight + taskHeight / 2;
-
-          dependencyLines.push({
-            fromTaskId: depId,
-            toTaskId: task.id,
-            fromX,
-            fromY,
-            toX,
-            toY,
-          });
-        });
+      (task.dependencies || []).forEach((dep) => {
+        const fromIndex = taskIndexMap.get(dep.taskId);
+        if (fromIndex !== undefined) result.push({ fromIndex, toIndex, dep });
+      });
+    });
+    return result;
+  }, [tasks, showDependencyLines]);
+
+  const lines = useMemo(() => {
+    const dependencyLines: DependencyLine[] = [];
+
+    links.forEach(({ fromIndex, toIndex, dep }) => {
+      // Skip links that lie entirely above or below the mounted rows
+      if (visibleRange) {
+        const top = Math.min(fromIndex, toIndex);
+        const bottom = Math.max(fromIndex, toIndex);
+        if (bottom < visibleRange.start || top >= visibleRange.end) return;
       }
+
+      const fromTask = tasks[fromIndex];
+      const task = tasks[toIndex];
+
+      // Calculate X positions based on the edges the link type connects
+      const anchors = getDependencyAnchors(dep.type);
+      const fromDate = anchors.from === 'start' ? fromTask.startDate : fromTask.endDate;
+      const toDate = anchors.to === 'start' ? task.startDate : task.endDate;
+      const fromDays = getTimelineOffsetDays(fromDate, timelineStart, fromTask.hasTime);
+      const toDays = getTimelineOffsetDays(toDate, timelineStart, task.hasTime);
+
+      const fromX = Math.max(0, Math.min(100, (fromDays / totalDays) * 100));
+      const toX = Math.max(0, Math.min(100, (toDays / totalDays) * 100));
+
+      // Calculate Y positions from the row offsets (row centers)
+      const fromY = (rowOffsets[fromIndex] + rowOffsets[fromIndex + 1]) / 2;
+      const toY = (rowOffsets[toIndex] + rowOffsets[toIndex + 1]) / 2;
+
+      dependencyLines.push({
+        fromTaskId: dep.taskId,
+        toTaskId: task.id,
+        fromX,
+        fromY,
+        toX,
+        toY,
+        type: dep.type,
+        label: formatDependencyLabel(dep),
+        isCritical: criticalLinks?.has(getLinkKey(dep.taskId, task.id)) ?? false,
+        isCyclic: cyclicLinks?.has(getLinkKey(dep.taskId, task.id)) ?? false,
+      });
     });
 
     return dependencyLines;
-  }, [tasks, timelineStart, totalDays, rowHeight, showDependencyLines]);
+  }, [links, tasks, visibleRange?.start, visibleRange?.end, rowOffsets, timelineStart, totalDays, criticalLinks, cyclicLinks]);
 
   if (!showDependencyLines || lines.length === 0) return null;
 
-  const containerHeight = tasks.length * (rowHeightPx[rowHeight] || 64);
+  const containerHeight = rowOffsets[rowOffsets.length - 1] || 0;
 
   return (
     <svg
+      ref={setSvgElement}
       className="absolute pointer-events-none z-20"
       style={{
         top: 0,
-        left: '256px', // taskListWidth
-        width: 'calc(100% - 256px)',
+        left: `${taskColumnWidth}px`,
+        width: `calc(100% - ${taskColumnWidth}px)`,
         height: containerHeight,
         overflow: 'visible',
       }}
@@ -112,25 +154,47 @@ export function DependencyLines({
             className="text-blue-500"
           />
         </marker>
+        <marker
+          id="dep-arrowhead-critical"
+          markerWidth="10"
+          markerHeight="7"
+          refX="9"
+          refY="3.5"
+          orient="auto"
+        >
+          <polygon points="0 0, 10 3.5, 0 7" fill="#ef4444" />
+        </marker>
       </defs>
 
-      {lines.map((line, index) => {
-        // Create a curved path from end of source to start of target
-        const midX = (line.fromX + line.toX) / 2;
+      {svgWidth > 0 && lines.map((line, index) => {
+        // Create a curved path that leaves/enters each bar on the side of its anchor
+        const anchors = getDependencyAnchors(line.type);
+        const exitDir = anchors.from === 'end' ? 1 : -1;
+        const enterDir = anchors.to === 'start' ? -1 : 1;
+        const fromX = (line.fromX / 100) * svgWidth;
+        const toX = (line.toX / 100) * svgWidth;
+        const midX = (fromX + toX) / 2;
+        const midY = (line.fromY + line.toY) / 2;
         const verticalDistance = Math.abs(line.toY - line.fromY);
-        const controlOffset = Math.max(5, verticalDistance * 0.3);
+        const controlOffset = Math.max(12, verticalDistance * 0.3);
 
         const path = `
-          M ${line.fromX}% ${line.fromY}
-          C ${line.fromX + controlOffset / 10}% ${line.fromY},
-            ${midX}% ${line.fromY},
-            ${midX}% ${(line.fromY + line.toY) / 2}
-          S ${line.toX - controlOffset / 10}% ${line.toY},
-            ${line.toX}% ${line.toY}
+          M ${fromX} ${line.fromY}
+          C ${fromX + exitDir * controlOffset} ${line.fromY},
+            ${midX} ${line.fromY},
+            ${midX} ${midY}
+          S ${toX + enterDir * controlOffset} ${line.toY},
+            ${toX} ${line.toY}
         `;
 
+        const isSelected = selectedLinkKey === getLinkKey(line.fromTaskId, line.toTaskId);
+
         return (
           <g key={`${line.fromTaskId}-${line.toTaskId}-${index}`}>
+            {/* Selection highlight */}
+            {isSelected && (
+              <path d={path} fill="none" stroke="#6366f1" strokeWidth="6" strokeOpacity="0.35" strokeLinecap="round" />
+            )}
             {/* Shadow path for better visibility */}
             <path
               d={path}
@@ -139,24 +203,92 @@ export function DependencyLines({
               strokeWidth="4"
               strokeOpacity="0.3"
             />
-            {/* Main path */}
-            <path
-              d={path}
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeDasharray="6,3"
-              className="text-blue-400"
-              markerEnd="url(#dep-arrowhead)"
-            />
+            {/* Main path - critical links are solid red, links caught in a loop are dotted amber without an arrow */}
+            {line.isCyclic ? (
+              <path
+                d={path}
+                fill="none"
+                stroke="#f59e0b"
+                strokeWidth="2"
+                strokeDasharray="2,4"
+                strokeLinecap="round"
+              />
+            ) : line.isCritical ? (
+              <path
+                d={path}
+                fill="none"
+                stroke="#ef4444"
+                strokeWidth="2.5"
+                markerEnd="url(#dep-arrowhead-critical)"
+              />
+            ) : (
+              <path
+                d={path}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeDasharray="6,3"
+                className="text-blue-400"
+                markerEnd="url(#dep-arrowhead)"
+              />
+            )}
             {/* Source indicator circle */}
             <circle
-              cx={`${line.fromX}%`}
+              cx={fromX}
               cy={line.fromY}
               r="4"
-              fill="currentColor"
+              fill={line.isCyclic ? '#f59e0b' : line.isCritical ? '#ef4444' : 'currentColor'}
               className="text-blue-500"
             />
+            {/* Link type / lag label, omitted for plain finish-to-start */}
+            {(line.label || line.isCyclic) && (
+              <text
+                x={midX}
+                y={midY - 4}
+                textAnchor="middle"
+                fontSize="10"
+                fontWeight={600}
+                fill={line.isCyclic ? '#d97706' : line.isCritical ? '#ef4444' : '#3b82f6'}
+                stroke="var(--background)"
+                strokeWidth="3"
+                paintOrder="stroke"
+              >
+                {line.isCyclic ? `⚠ 순환${line.label ? ` ${line.label}` : ''}` : line.label}
+              </text>
+            )}
+            {/* Wide transparent stroke so the thin line is easy to click */}
+            {onLinkSelect && (
+              <path
+                d={path}
+                fill="none"
+                stroke="transparent"
+                strokeWidth="12"
+                data-dependency-link
+                style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+                onClick={() => onLinkSelect(line.fromTaskId, line.toTaskId)}
+              />
+            )}
+            {/* Delete button on the selected link */}
+            {isSelected && onLinkDelete && (
+              <g
+                data-dependency-link
+                style={{ pointerEvents: 'all', cursor: 'pointer' }}
+                onClick={() => onLinkDelete(line.fromTaskId, line.toTaskId)}
+              >
+                <title>의존성 삭제 (Delete)</title>
+                <circle cx={midX} cy={midY + 10} r="8" fill="#ef4444" stroke="var(--background)" strokeWidth="2" />
+                <text
+                  x={midX}
+                  y={midY + 14}
+                  textAnchor="middle"
+                  fontSize="12"
+                  fontWeight={700}
+                  fill="white"
+                >
+                  ×
+                </text>
+              </g>
+            )}
           </g>
         );
       })}
@@ -1,15 +1,84 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from './ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from './ui/dropdown-menu';
-import { Download, FileText, Table, Printer } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Download, FileText, Table, Printer, Image as ImageIcon, FileCode, FolderKanban, GanttChartSquare } from 'lucide-react';
+import { toast } from 'sonner';
 import { Task } from './GanttChart';
+import { formatDependencyLabel } from '../utils/dependencies';
+import { GanttBaseline } from '../utils/baselines';
+import { combineDateAndTime, shiftByDays } from '../utils/taskTime';
+import { WorkCalendar, toDateKey } from '../utils/workCalendar';
+import { MAX_IMAGE_SIDE, TimelineImage, TimelineImageRow, measureTimelineImage, renderTimelineSvg } from '../utils/timelineImage';
+import { buildMsProjectXml } from '../utils/msProject';
+import { buildMermaidGantt } from '../utils/mermaidGantt';
+import { PaperOrientation, PaperSize, PAPER_SIZES, buildPrintDocument, layoutPrintPages } from '../utils/printLayout';
 
 interface ExportMenuProps {
   tasks: Task[];
+  baselines?: GanttBaseline[];
+  calendar?: WorkCalendar; // decides which tasks the roadmap marks critical
   projectName?: string;
+  // The chart as shown (filtered, grouped, collapsed) for the image and PDF exports
+  timelineRows?: TimelineImageRow[];
+  timelineStart?: Date;
+  timelineEnd?: Date; // exclusive
+  pixelsPerDay?: number;
+  showDependencies?: boolean;
 }
 
-export function ExportMenu({ tasks, projectName = 'Project Timeline' }: ExportMenuProps) {
+type ChartExportFormat = 'svg' | 'png' | 'pdf';
+
+const IMAGE_PIXELS_PER_DAY = [2, 4, 8, 16, 24, 40, 64];
+const PNG_SCALES = [1, 2, 3];
+
+// Rasterizes the SVG on a canvas; `scale` multiplies the pixel density
+const renderPng = (image: TimelineImage, scale: number) => new Promise<Blob>((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }));
+  const img = new Image();
+  img.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      URL.revokeObjectURL(url);
+      reject(new Error('Canvas is not available'));
+      return;
+    }
+    context.scale(scale, scale);
+    context.drawImage(img, 0, 0, image.width, image.height);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('SVG could not be loaded'));
+  };
+  img.src = url;
+});
+
+export function ExportMenu({
+  tasks,
+  baselines = [],
+  calendar,
+  projectName = 'Project Timeline',
+  timelineRows,
+  timelineStart,
+  timelineEnd,
+  pixelsPerDay = 16,
+  showDependencies = true,
+}: ExportMenuProps) {
+  const [chartExport, setChartExport] = useState<ChartExportFormat | null>(null);
+  const [imageRange, setImageRange] = useState({ start: '', end: '' }); // inclusive date input values
+  const [imagePixelsPerDay, setImagePixelsPerDay] = useState('16');
+  const [imageScale, setImageScale] = useState('2');
+  const [isRenderingImage, setIsRenderingImage] = useState(false);
+  const [paperSize, setPaperSize] = useState<PaperSize>('A4');
+  const [paperOrientation, setPaperOrientation] = useState<PaperOrientation>('landscape');
   
   // Helper function to format date for CSV
   const formatDateForCSV = (date: Date): string => {
@@ -59,6 +128,18 @@ export function ExportMenu({ tasks, projectName = 'Project Timeline' }: ExportMe
         color: task.color,
         parentId: task.parentId || null,
         dependencies: task.dependencies || []
+      })),
+      baselines: baselines.map(baseline => ({
+        id: baseline.id,
+        name: baseline.name,
+        createdAt: baseline.createdAt.toISOString(),
+        tasks: Object.fromEntries(
+          Object.entries(baseline.tasks).map(([taskId, entry]) => [taskId, {
+            startDate: entry.startDate.toISOString(),
+            endDate: entry.endDate.toISOString(),
+            progress: entry.progress,
+          }])
+        ),
       }))
     };
 
@@ -96,9 +177,11 @@ export function ExportMenu({ tasks, projectName = 'Project Timeline' }: ExportMe
       const level = getTaskLevel(task, tasks);
       const duration = Math.ceil((task.endDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60 * 24));
       const parentTask = task.parentId ? tasks.find(t => t.id === task.parentId)?.name || '' : '';
-      const dependencies = task.dependencies ? task.dependencies.map(depId => 
-        tasks.find(t => t.id === depId)?.name || depId
-      ).join('; ') : '';
+      const dependencies = task.dependencies ? task.dependencies.map(dep => {
+        const name = tasks.find(t => t.id === dep.taskId)?.name || dep.taskId;
+        const label = formatDependencyLabel(dep);
+        return label ? `${name} (${label})` : name;
+      }).join('; ') : '';
 
       return [
         `"${'  '.repeat(level)}${task.name}"`,
@@ -128,123 +211,111 @@ export function ExportMenu({ tasks, projectName = 'Project Timeline' }: ExportMe
     URL.revokeObjectURL(url);
   };
 
-  const exportToPrint = () => {
-    const organizedTasks = organizeTasksForExport();
-    
-    // Create a new window for printing
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) return;
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
 
-    // Generate HTML for print
-    const printHTML = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>${projectName} - Timeline</title>
-          <style>
-            body {
-              font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
-              margin: 40px;
-              line-height: 1.6;
-            }
-            .header {
-              border-bottom: 2px solid #000;
-              padding-bottom: 20px;
-              margin-bottom: 30px;
-            }
-            .project-title {
-              font-size: 24px;
-              font-weight: bold;
-              margin: 0 0 10px 0;
-            }
-            .export-date {
-              color: #666;
-              font-size: 14px;
-            }
-            .task-list {
-              margin-top: 20px;
-            }
-            .task-item {
-              margin: 10px 0;
-              padding: 10px;
-              border-left: 4px solid;
-              background: #f9f9f9;
-              break-inside: avoid;
-            }
-            .task-name {
-              font-weight: bold;
-              margin-bottom: 5px;
-            }
-            .task-details {
-              font-size: 14px;
-              color: #666;
-            }
-            .task-dates {
-              margin: 5px 0;
-            }
-            .progress-bar {
-              width: 100px;
-              height: 8px;
-              background: #eee;
-              border-radius: 4px;
-              margin: 5px 0;
-              overflow: hidden;
-            }
-            .progress-fill {
-              height: 100%;
-              background: #4CAF50;
-              transition: width 0.3s ease;
-            }
-            @media print {
-              body { margin: 20px; }
-              .task-item { page-break-inside: avoid; }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1 class="project-title">${projectName}</h1>
-            <div class="export-date">Exported on ${new Date().toLocaleDateString()}</div>
-          </div>
-          
-          <div class="task-list">
-            ${organizedTasks.map(task => {
-              const level = getTaskLevel(task, tasks);
-              const duration = Math.ceil((task.endDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60 * 24));
-              const indent = '&nbsp;&nbsp;'.repeat(level * 4);
-              
-              return `
-                <div class="task-item" style="border-left-color: ${task.color}; margin-left: ${level * 20}px;">
-                  <div class="task-name">${indent}${task.name}</div>
-                  <div class="task-details">
-                    <div class="task-dates">
-                      <strong>Duration:</strong> ${formatDateForCSV(task.startDate)} to ${formatDateForCSV(task.endDate)} (${duration} days)
-                    </div>
-                    <div style="display: flex; align-items: center; gap: 10px;">
-                      <span><strong>Progress:</strong> ${task.progress}%</span>
-                      <div class="progress-bar">
-                        <div class="progress-fill" style="width: ${task.progress}%"></div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              `;
-            }).join('')}
-          </div>
-        </body>
-      </html>
-    `;
+  const exportToMsProject = () => {
+    const xml = buildMsProjectXml(tasks, projectName);
+    downloadBlob(new Blob([xml], { type: 'application/xml' }), `${projectName.replace(/\s+/g, '_')}_timeline.xml`);
+  };
+
+  // A Markdown roadmap whose mermaid block renders as a chart in READMEs and wikis
+  const exportToMermaid = () => {
+    const markdown = `# ${projectName}\n\n\`\`\`mermaid\n${buildMermaidGantt(tasks, projectName, calendar)}\n\`\`\`\n`;
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${projectName.replace(/\s+/g, '_')}_timeline.md`);
+  };
 
-    printWindow.document.write(printHTML);
+  // Without the on-screen rows, export every task in hierarchy order over its own span
+  const chartRows: TimelineImageRow[] = timelineRows
+    ?? organizeTasksForExport().map(task => ({ ...task, level: getTaskLevel(task, tasks) }));
+
+  // Starts from the whole timeline at the zoom step closest to the screen
+  const openChartDialog = (format: ChartExportFormat) => {
+    const rangeStart = timelineStart
+      ?? (tasks.length > 0 ? new Date(Math.min(...tasks.map(t => t.startDate.getTime()))) : new Date());
+    const rangeEnd = timelineEnd
+      ?? shiftByDays(tasks.length > 0 ? new Date(Math.max(...tasks.map(t => t.endDate.getTime()))) : rangeStart, 1);
+    const nearest = IMAGE_PIXELS_PER_DAY.reduce((best, value) =>
+      Math.abs(Math.log(value / pixelsPerDay)) < Math.abs(Math.log(best / pixelsPerDay)) ? value : best
+    );
+    setImageRange({ start: toDateKey(rangeStart), end: toDateKey(shiftByDays(rangeEnd, -1)) });
+    setImagePixelsPerDay(String(nearest));
+    setChartExport(format);
+  };
+
+  const imageOptions = imageRange.start && imageRange.end
+    ? {
+        rangeStart: combineDateAndTime(imageRange.start, '00:00'),
+        rangeEnd: shiftByDays(combineDateAndTime(imageRange.end, '00:00'), 1),
+        pixelsPerDay: Number(imagePixelsPerDay),
+        title: projectName,
+        showDependencies,
+      }
+    : null;
+  const isImageRangeValid = !!imageOptions && imageOptions.rangeEnd > imageOptions.rangeStart;
+  const imageSize = chartExport !== 'pdf' && imageOptions && isImageRangeValid ? measureTimelineImage(chartRows, imageOptions) : null;
+  const outputScale = chartExport === 'png' ? Number(imageScale) : 1;
+  const isImageTooLarge = !!imageSize && Math.max(imageSize.width, imageSize.height) * outputScale > MAX_IMAGE_SIDE;
+  const printOptions = chartExport === 'pdf' && imageOptions && isImageRangeValid
+    ? { ...imageOptions, paper: paperSize, orientation: paperOrientation }
+    : null;
+  const printLayout = printOptions ? layoutPrintPages(chartRows, printOptions) : null;
+
+  // Tiles the chart onto pages and hands them to the browser, whose print dialog saves the PDF
+  const exportToPrint = () => {
+    if (!printOptions) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error('인쇄 창을 열 수 없습니다', { description: '브라우저의 팝업 차단을 해제해 주세요' });
+      return;
+    }
+    printWindow.document.write(buildPrintDocument(chartRows, printOptions, projectName));
     printWindow.document.close();
-    
-    // Wait for content to load then print
+    setChartExport(null);
+
+    // Wait for the page images to load then print
     setTimeout(() => {
       printWindow.print();
     }, 500);
   };
 
+  const exportImage = async () => {
+    if (chartExport === 'pdf') {
+      exportToPrint();
+      return;
+    }
+    if (!chartExport || !imageOptions || !isImageRangeValid) return;
+    const image = renderTimelineSvg(chartRows, imageOptions);
+    const fileName = `${projectName.replace(/\s+/g, '_')}_timeline.${chartExport}`;
+
+    if (chartExport === 'svg') {
+      downloadBlob(new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }), fileName);
+      setChartExport(null);
+      return;
+    }
+
+    setIsRenderingImage(true);
+    try {
+      downloadBlob(await renderPng(image, outputScale), fileName);
+      setChartExport(null);
+    } catch (error) {
+      console.error('Failed to export PNG:', error);
+      toast.error('PNG 내보내기 실패', { description: '기간을 줄이거나 해상도를 낮춰 보세요' });
+    } finally {
+      setIsRenderingImage(false);
+    }
+  };
+
   return (
+    <>
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
         <Button variant="outline" className="gap-2">
@@ -261,12 +332,141 @@ export function ExportMenu({ tasks, projectName = 'Project Timeline' }: ExportMe
           <Table className="h-4 w-4" />
           Export as CSV
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={exportToMsProject} className="gap-2">
+          <FolderKanban className="h-4 w-4" />
+          Export as MS Project XML
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={exportToMermaid} className="gap-2">
+          <GanttChartSquare className="h-4 w-4" />
+          Export as Mermaid
+        </DropdownMenuItem>
         <DropdownMenuSeparator />
-        <DropdownMenuItem onClick={exportToPrint} className="gap-2">
+        <DropdownMenuItem onClick={() => openChartDialog('svg')} className="gap-2">
+          <FileCode className="h-4 w-4" />
+          Export as SVG
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => openChartDialog('png')} className="gap-2">
+          <ImageIcon className="h-4 w-4" />
+          Export as PNG
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => openChartDialog('pdf')} className="gap-2">
           <Printer className="h-4 w-4" />
-          Print Timeline
+          Print / PDF
         </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
+
+    <Dialog open={chartExport !== null} onOpenChange={(open) => !open && setChartExport(null)}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            {chartExport === 'pdf' ? '인쇄 / PDF로 저장' : chartExport === 'png' ? 'PNG 이미지로 내보내기' : 'SVG 이미지로 내보내기'}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="imageRangeStart">시작일</Label>
+              <Input
+                id="imageRangeStart"
+                type="date"
+                value={imageRange.start}
+                onChange={(e) => setImageRange(prev => ({ ...prev, start: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="imageRangeEnd">종료일</Label>
+              <Input
+                id="imageRangeEnd"
+                type="date"
+                value={imageRange.end}
+                onChange={(e) => setImageRange(prev => ({ ...prev, end: e.target.value }))}
+              />
+            </div>
+          </div>
+          {chartExport === 'pdf' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label>용지</Label>
+                <Select value={paperSize} onValueChange={(value) => setPaperSize(value as PaperSize)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+                      <SelectItem key={size} value={size}>{size}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>방향</Label>
+                <Select value={paperOrientation} onValueChange={(value) => setPaperOrientation(value as PaperOrientation)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="landscape">가로</SelectItem>
+                    <SelectItem value="portrait">세로</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>하루 너비</Label>
+              <Select value={imagePixelsPerDay} onValueChange={setImagePixelsPerDay}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMAGE_PIXELS_PER_DAY.map(value => (
+                    <SelectItem key={value} value={String(value)}>{value}px</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {chartExport === 'png' && (
+              <div className="space-y-1.5">
+                <Label>배율</Label>
+                <Select value={imageScale} onValueChange={setImageScale}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PNG_SCALES.map(value => (
+                      <SelectItem key={value} value={String(value)}>{value}x</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {!isImageRangeValid
+              ? '종료일은 시작일과 같거나 이후여야 합니다'
+              : printLayout
+                ? `${printLayout.pages.length}쪽 (가로 ${printLayout.columns} × 세로 ${printLayout.bands}) · 행 ${chartRows.length}개 · 쪽마다 작업 열과 날짜 머리글 반복`
+                : imageSize && `${Math.round(imageSize.width * outputScale)} × ${Math.round(imageSize.height * outputScale)}px · 행 ${chartRows.length}개 (현재 필터와 그룹 기준)`}
+          </p>
+          {isImageTooLarge && (
+            <p className="text-xs" style={{ color: '#ef4444' }}>
+              이미지가 너무 큽니다. 기간을 줄이거나 하루 너비{chartExport === 'png' ? '·배율' : ''}을 낮춰 주세요.
+            </p>
+          )}
+        </div>
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={() => setChartExport(null)}>
+            취소
+          </Button>
+          <Button disabled={!isImageRangeValid || isImageTooLarge || isRenderingImage} onClick={exportImage}>
+            {isRenderingImage ? '만드는 중…' : chartExport === 'pdf' ? '인쇄' : '내보내기'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+    </>
   );
 }
\ No newline at end of file
@@ -1,19 +1,22 @@
-import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
-import { Calendar, MoreHorizontal, ChevronDown, ChevronRight, Edit3, Check, X, Loader2, ZoomIn, ZoomOut, Home, Search, Filter, BarChart3, Undo2, Redo2, Plus, Copy, Layers, GripVertical, Users, ChevronsDownUp, ChevronsUpDown } from 'lucide-react';
+import { Calendar, MoreHorizontal, ChevronDown, ChevronRight, Edit3, Check, X, Loader2, ZoomIn, ZoomOut, Home, Search, Filter, BarChart3, Undo2, Redo2, Plus, Copy, Layers, GripVertical, Users, ChevronsDownUp, ChevronsUpDown, Route, History, Trash2, Pin, Maximize2, Scissors, Merge, CalendarRange, UserCheck, Flag, Columns3 } from 'lucide-react';
 import { useUndoRedo } from '../hooks/useUndoRedo';
 import { TaskBar } from './TaskBar';
 import { TaskForm } from './TaskForm';
 import { GanttSettings, GanttSettingsData, defaultSettings } from './GanttSettings';
+import { WorkCalendarSettings } from './WorkCalendarSettings';
 import { DependencyLines } from './DependencyLines';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator, DropdownMenuLabel } from './ui/dropdown-menu';
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuLabel, ContextMenuSeparator, ContextMenuSub, ContextMenuSubContent, ContextMenuSubTrigger, ContextMenuTrigger } from './ui/context-menu';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { updateLinearProject, updateLinearIssue, updateLinearIssueExtended, formatDateForLinear, createLinearIssue, createLinearProject, fetchLinearTeams, fetchLinearTeamMembers, fetchLinearLabels, deleteLinearProject, deleteLinearIssue, fetchLinearCycles, addIssueToCycle, removeIssueFromCycle, fetchLinearIssues, fetchLinearOrganizationUsers } from '../services/linear';
+import { updateLinearProject, updateLinearIssue, updateLinearIssueExtended, formatDateForLinear, createLinearIssue, createLinearProject, fetchLinearTeams, fetchLinearTeamMembers, fetchLinearLabels, deleteLinearProject, deleteLinearIssue, fetchLinearCycles, addIssueToCycle, removeIssueFromCycle, fetchLinearIssues, fetchLinearOrganizationUsers, createIssueRelation, deleteIssueRelation, fetchIssueRelations, updateLinearIssueState, findLinearStateForStatus, getTeamIdForIssue, convertToLinearPriority } from '../services/linear';
 import { Label } from './ui/label';
+import { Switch } from './ui/switch';
 import { Textarea } from './ui/textarea';
 import { toast } from 'sonner';
 import { GanttSkeleton } from './GanttSkeleton';
@@ -21,6 +24,29 @@ import { ConfirmDialog } from './ConfirmDialog';
 import { ExportMenu } from './ExportMenu';
 import { GanttFilters, GanttStatusFilter, GanttGroupBy } from './GanttFilters';
 import { LinearSync } from './LinearSync';
+import { computeCriticalPath, getLinkKey } from '../utils/criticalPath';
+import { cascadeSchedule } from '../utils/autoSchedule';
+import { WorkCalendar, defaultWorkCalendar, getNonWorkingReason, NonWorkingReason, toDateKey } from '../utils/workCalendar';
+import { GanttBaseline, createBaseline, parseBaselines, getFinishVariance } from '../utils/baselines';
+import { computeRollups, applyRollups } from '../utils/rollups';
+import { ResourceCapacity, defaultResourceCapacity } from '../utils/resourceLoad';
+import { ScheduleChange } from '../utils/autoSchedule';
+import { ResourceLoadView } from './ResourceLoadView';
+import { GanttMinimap } from './GanttMinimap';
+import { GridCell, GridCellEditor, GridCellOptions, GridCellValue } from './GridCell';
+import { ROW_HEIGHT_PX, VisibleRange, computeRowOffsets, getVisibleRange } from '../utils/virtualRows';
+import { HOUR_SNAP_PIXELS_PER_DAY, combineDateAndTime, getTaskSpanDays, getTimelineOffsetDays, preserveLocalTimes, shiftByDays, toTimeInputValue } from '../utils/taskTime';
+import { SegmentRange, applySegments, isSplitTask, splitTaskAt } from '../utils/taskSegments';
+import { LaneSummary, getLaneChange, getLaneKey, getLaneLinearStatus, summarizeLane } from '../utils/swimlanes';
+import { getMoveDelta, shiftTasks } from '../utils/bulkEdit';
+import { getActiveCycle, getCycleOverflow, getCycleSpanDays } from '../utils/cycles';
+import { GRID_COLUMN_LABELS, GridColumn, GridColumnId, GridMove, clampColumnWidth, defaultGridColumns, getAdjacentCell, getGridScheduleEdit, moveGridColumn, parseGridColumns } from '../utils/gridColumns';
+import { computeWbsNumbers, getLinearParentUpdate, indentTasks, moveTasksAmongSiblings, outdentTasks } from '../utils/wbs';
+import { applySortOrders, getNextSortOrder, rankMovedTasks, sortBySortOrder } from '../utils/sortOrder';
+import { createTaskFromBacklogItem, getBacklogSchedule, parseBacklogDragData } from '../utils/backlogSchedule';
+import { HeaderCell, MAX_PIXELS_PER_DAY, MIN_PIXELS_PER_DAY, buildHeaderCells, clampPixelsPerDay, getHeaderTiers, getTimelineRange } from '../utils/timelineScale';
+import { toDependencyGraph, findDependencyCycles, findNewDependencyCycle, describeDependencyCycle } from '../utils/dependencyCycles';
+import { normalizeDependencies, DEPENDENCY_TYPES, DEPENDENCY_TYPE_LABELS, getDependencyTypeForAnchors } from '../utils/dependencies';
 
 // Simple Task Form Component
 interface SimpleTaskFormProps {
@@ -117,8 +143,13 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
 
   const [name, setName] = useState(task?.name || '');
   const [description, setDescription] = useState(task?.description || '');
-  const [startDate, setStartDate] = useState(task?.startDate?.toISOString().split('T')[0] || today);
-  const [endDate, setEndDate] = useState(task?.endDate?.toISOString().split('T')[0] || nextWeek);
+  // Timed tasks are edited in local time; all-day dates keep their stored UTC day
+  const toDateInputValue = (date: Date) => (task?.hasTime ? toDateKey(date) : date.toISOString().split('T')[0]);
+  const [startDate, setStartDate] = useState(task?.startDate ? toDateInputValue(task.startDate) : today);
+  const [endDate, setEndDate] = useState(task?.endDate ? toDateInputValue(task.endDate) : nextWeek);
+  const [hasTime, setHasTime] = useState(!!task?.hasTime);
+  const [startTime, setStartTime] = useState(task?.hasTime ? toTimeInputValue(task.startDate) : '09:00');
+  const [endTime, setEndTime] = useState(task?.hasTime ? toTimeInputValue(task.endDate) : '18:00');
   const [color, setColor] = useState(task?.color || COLORS[0]);
   const [selectedParentId, setSelectedParentId] = useState(task?.parentId || parentTask?.id || '__none__');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -130,6 +161,8 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
   const [selectedLabelIds, setSelectedLabelIds] = useState<string[]>(
     task?.labels?.filter(l => l.id).map(l => l.id!) || []
   );
+  const [dependencies, setDependencies] = useState<TaskDependency[]>(task?.dependencies || []);
+  const [rollupOverride, setRollupOverride] = useState(!!task?.rollupOverride);
 
   // Linear data
   const [allTeams, setAllTeams] = useState<{ id: string; name: string; icon?: string }[]>([]);
@@ -143,6 +176,13 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
   // Get top-level tasks (potential parents = projects)
   const topLevelTasks = allTasks.filter(t => !t.parentId && t.id !== task?.id);
 
+  // Parents summarize their children unless manually overridden
+  const isSummaryTask = !!task && allTasks.some(t => t.parentId === task.id);
+  const datesFromChildren = isSummaryTask && !rollupOverride;
+
+  // Any other task can be a predecessor
+  const predecessorCandidates = allTasks.filter(t => t.id !== task?.id);
+
   // Fetch teams on mount
   useEffect(() => {
     const fetchTeams = async () => {
@@ -202,6 +242,30 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
       toast.error('이름을 입력하세요');
       return;
     }
+    if (hasTime && combineDateAndTime(endDate, endTime) <= combineDateAndTime(startDate, startTime)) {
+      toast.error('종료 시각이 시작 시각보다 늦어야 합니다');
+      return;
+    }
+
+    // Reject links that would close a dependency loop
+    const draftId = task?.id || '__draft__';
+    const draft = {
+      id: draftId,
+      parentId: selectedParentId && selectedParentId !== '__none__' ? selectedParentId : undefined,
+      dependencies,
+    };
+    const cycle = findNewDependencyCycle(
+      toDependencyGraph(allTasks),
+      toDependencyGraph([...allTasks.filter(t => t.id !== draftId), draft])
+    );
+    if (cycle) {
+      toast.error('순환 의존성이 생깁니다', {
+        description: describeDependencyCycle(cycle, id =>
+          id === draftId ? name.trim() : allTasks.find(t => t.id === id)?.name || id
+        ),
+      });
+      return;
+    }
 
     setIsSubmitting(true);
 
@@ -317,8 +381,9 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
       onSubmit({
         name: name.trim(),
         description: description.trim() || undefined,
-        startDate: new Date(startDate),
-        endDate: new Date(endDate),
+        startDate: hasTime ? combineDateAndTime(startDate, startTime) : new Date(startDate),
+        endDate: hasTime ? combineDateAndTime(endDate, endTime) : new Date(endDate),
+        hasTime: hasTime || undefined,
         progress: task?.progress || 0,
         color,
         linearIssueId: task?.linearIssueId || linearIssueId,
@@ -328,8 +393,10 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
         assigneeAvatarUrl: assigneeAvatarUrl || task?.assigneeAvatarUrl,
         labels: selectedLabels.length > 0 ? selectedLabels : task?.labels,
         isMilestone: task?.isMilestone,
+        rollupOverride: isSummaryTask ? rollupOverride : undefined,
+        segments: task?.segments,
         parentId: (selectedParentId && selectedParentId !== '__none__') ? selectedParentId : undefined,
-        dependencies: task?.dependencies,
+        dependencies: dependencies.length > 0 ? dependencies : undefined,
         priority: priority as Task['priority'],
         estimate: estimate ? parseInt(estimate, 10) : task?.estimate,
         cycleId: selectedCycleId && selectedCycleId !== '__none__' ? selectedCycleId : undefined,
@@ -354,6 +421,21 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
     );
   };
 
+  const addDependency = () => {
+    const used = new Set(dependencies.map(d => d.taskId));
+    const candidate = predecessorCandidates.find(t => !used.has(t.id));
+    if (!candidate) return;
+    setDependencies(prev => [...prev, { taskId: candidate.id, type: 'FS', lagDays: 0 }]);
+  };
+
+  const updateDependency = (index: number, updates: Partial<TaskDependency>) => {
+    setDependencies(prev => prev.map((d, i) => (i === index ? { ...d, ...updates } : d)));
+  };
+
+  const removeDependency = (index: number) => {
+    setDependencies(prev => prev.filter((_, i) => i !== index));
+  };
+
   const isIssue = selectedParentId && selectedParentId !== '__none__';
 
   return (
@@ -410,6 +492,19 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
         />
       </div>
 
+      {/* Summary task: dates and progress come from subtasks unless overridden */}
+      {isSummaryTask && (
+        <div className="flex items-center justify-between p-3 rounded-lg border border-border/60">
+          <div>
+            <Label htmlFor="rollupOverride" className="cursor-pointer">일정·진행률 수동 지정</Label>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              {rollupOverride ? '하위 작업과 관계없이 직접 입력한 값을 사용합니다' : '하위 작업에서 자동으로 계산됩니다'}
+            </p>
+          </div>
+          <Switch id="rollupOverride" checked={rollupOverride} onCheckedChange={setRollupOverride} />
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label htmlFor="startDate">시작일</Label>
@@ -418,6 +513,7 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
             type="date"
             value={startDate}
             onChange={(e) => setStartDate(e.target.value)}
+            disabled={datesFromChildren}
           />
         </div>
         <div className="space-y-2">
@@ -427,9 +523,39 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
             type="date"
             value={endDate}
             onChange={(e) => setEndDate(e.target.value)}
+            disabled={datesFromChildren}
           />
         </div>
+        {hasTime && (
+          <>
+            <Input
+              id="startTime"
+              type="time"
+              step={3600}
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              disabled={datesFromChildren}
+              aria-label="시작 시각"
+            />
+            <Input
+              id="endTime"
+              type="time"
+              step={3600}
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              disabled={datesFromChildren}
+              aria-label="종료 시각"
+            />
+          </>
+        )}
       </div>
+      {!datesFromChildren && (
+        <div className="flex items-center gap-2">
+          <Switch id="hasTime" checked={hasTime} onCheckedChange={setHasTime} />
+          <Label htmlFor="hasTime" className="cursor-pointer text-sm font-normal">시간 지정</Label>
+          <span className="text-xs text-muted-foreground">Linear에는 날짜만 동기화됩니다</span>
+        </div>
+      )}
 
       {/* Issue-specific fields */}
       {isIssue && (
@@ -573,6 +699,79 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
         </>
       )}
 
+      {/* Dependencies (predecessors) */}
+      {predecessorCandidates.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>선행 작업</Label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={addDependency}
+              disabled={dependencies.length >= predecessorCandidates.length}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              추가
+            </Button>
+          </div>
+          {dependencies.length === 0 ? (
+            <p className="text-xs text-muted-foreground">선행 작업 없음</p>
+          ) : (
+            <div className="space-y-2">
+              {dependencies.map((dep, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={dep.taskId} onValueChange={(v) => updateDependency(index, { taskId: v })}>
+                    <SelectTrigger className="flex-1 min-w-0">
+                      <SelectValue placeholder="작업 선택" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {predecessorCandidates
+                        .filter(t => t.id === dep.taskId || !dependencies.some(d => d.taskId === t.id))
+                        .map((t) => (
+                          <SelectItem key={t.id} value={t.id}>
+                            {t.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={dep.type} onValueChange={(v) => updateDependency(index, { type: v as DependencyType })}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEPENDENCY_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {DEPENDENCY_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    className="w-20"
+                    value={dep.lagDays}
+                    onChange={(e) => updateDependency(index, { lagDays: parseInt(e.target.value, 10) || 0 })}
+                    title="지연(+) / 선행(-) 일수"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => removeDependency(index)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">일수: 양수는 지연(lag), 음수는 앞당김(lead)</p>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="space-y-2">
         <Label>색상</Label>
         <div className="flex gap-2">
@@ -601,6 +800,21 @@ function SimpleTaskForm({ task, parentTask, allTasks, onSubmit, onCancel }: Simp
   );
 }
 
+// FS = finish-to-start, SS = start-to-start, FF = finish-to-finish, SF = start-to-finish
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface TaskDependency {
+  taskId: string; // predecessor task
+  type: DependencyType;
+  lagDays: number; // positive = lag, negative = lead
+}
+
+// A worked stretch of a split task, in days from the task start (end exclusive)
+export interface TaskSegment {
+  startOffset: number;
+  endOffset: number;
+}
+
 export interface Task {
   id: string;
   name: string;
@@ -608,7 +822,7 @@ export interface Task {
   endDate: Date;
   progress: number;
   color: string;
-  dependencies?: string[];
+  dependencies?: TaskDependency[];
   parentId?: string;
   linearProjectId?: string;
   linearIssueId?: string;
@@ -618,6 +832,10 @@ export interface Task {
   assigneeAvatarUrl?: string;
   labels?: { id?: string; name: string; color: string }[];
   isMilestone?: boolean;
+  rollupOverride?: boolean; // parent keeps its own dates/progress instead of summarizing its children
+  hasTime?: boolean; // start/end carry a time of day (hour-level scheduling); all-day otherwise
+  segments?: TaskSegment[]; // work paused and resumed; the last segment always ends at endDate
+  sortOrder?: number; // manual rank among siblings, shared with Linear's sortOrder
   description?: string;
   priority?: 'urgent' | 'high' | 'medium' | 'low' | 'none';
   estimate?: number;
@@ -644,6 +862,10 @@ export interface LinearCycleInfo {
 
 export interface GanttChartProps {
   className?: string;
+  // A backlog item dragged in from BacklogPanel got dates (and a cycle when dropped inside one)
+  onBacklogItemScheduled?: (taskId: string, schedule: { startDate: Date; endDate: Date; cycleId?: string }) => void;
+  // Saved baselines changed (created, renamed, deleted), so backups can include them
+  onBaselinesChange?: (baselines: GanttBaseline[]) => void;
 }
 
 type ViewMode = 'day' | 'week' | 'sprint' | 'month' | 'quarter' | 'year';
@@ -657,7 +879,7 @@ const viewModeLabels: Record<ViewMode, string> = {
   year: '1 Year',
 };
 
-// Range in days for each view mode
+// Zoom presets: days that fit the visible timeline for each view mode
 const viewModeRangeDays: Record<ViewMode, number> = {
   day: 7,         // 1 week view
   week: 14,       // 2 weeks view
@@ -667,11 +889,28 @@ const viewModeRangeDays: Record<ViewMode, number> = {
   year: 365,      // 1 year view
 };
 
-export function GanttChart({ className }: GanttChartProps) {
+// Zoom factor of the +/- buttons and shortcuts
+const ZOOM_STEP = 1.5;
+
+// The task column stays in place while the timeline scrolls horizontally
+const stickyColumnStyle: React.CSSProperties = {
+  position: 'sticky',
+  left: 0,
+  zIndex: 45,
+  backgroundColor: 'var(--background)',
+};
+
+export function GanttChart({ className, onBacklogItemScheduled, onBaselinesChange }: GanttChartProps) {
   const [projectName, setProjectName] = useState('My Project Timeline');
   const [isEditingProjectName, setIsEditingProjectName] = useState(false);
   const [tempProjectName, setTempProjectName] = useState(projectName);
   const [viewMode, setViewMode] = useState<ViewMode>('month');
+  const [pixelsPerDay, setPixelsPerDay] = useState(16);
+  const pixelsPerDayRef = useRef(16);
+  const zoomAnchorRef = useRef<{ day: number; offsetX: number } | null>(null);
+  const pinchRef = useRef<{ distance: number; pixelsPerDay: number } | null>(null);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
+  const [splitPoint, setSplitPoint] = useState<{ taskId: string; offsetDays: number } | null>(null); // where the bar context menu was opened
 
   const {
     state: tasks,
@@ -695,22 +934,116 @@ export function GanttChart({ className }: GanttChartProps) {
   const [filterAssignees, setFilterAssignees] = useState<string[]>([]);
   const [filterPriorities, setFilterPriorities] = useState<string[]>([]);
   const [filterTeams, setFilterTeams] = useState<string[]>([]);
+  const [filterCycleId, setFilterCycleId] = useState<string | null>(null); // set by clicking a cycle band
   const [groupBy, setGroupBy] = useState<GanttGroupBy>('none');
   const [showStats, setShowStats] = useState(false);
   const [ganttSettings, setGanttSettings] = useState<GanttSettingsData>(defaultSettings);
-  const [taskColumnWidth, setTaskColumnWidth] = useState(360);
+  const [workCalendar, setWorkCalendar] = useState<WorkCalendar>(defaultWorkCalendar);
+  const [resourceCapacity, setResourceCapacity] = useState<ResourceCapacity>(defaultResourceCapacity);
+  const [baselines, setBaselines] = useState<GanttBaseline[]>([]);
+  const [activeBaselineId, setActiveBaselineId] = useState<string | null>(null);
+  const [isBaselineDialogOpen, setIsBaselineDialogOpen] = useState(false);
+  const [baselineName, setBaselineName] = useState('');
+  const [gridColumns, setGridColumns] = useState<GridColumn[]>(defaultGridColumns);
   const [isResizingColumn, setIsResizingColumn] = useState(false);
+  const [draggedColumnId, setDraggedColumnId] = useState<GridColumnId | null>(null);
+  const [editingCell, setEditingCell] = useState<{ taskId: string; column: GridColumnId } | null>(null);
   const [linearCycles, setLinearCycles] = useState<LinearCycleInfo[]>([]);
   const [linearTeamMembers, setLinearTeamMembers] = useState<Map<string, string>>(new Map()); // name -> avatarUrl
+  const [linearUsers, setLinearUsers] = useState<{ id: string; name: string; avatarUrl?: string }[]>([]);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [taskToDelete, setTaskToDelete] = useState<Task | null>(null);
 
   // Drag and drop state
   const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
   const [dragOverTaskId, setDragOverTaskId] = useState<string | null>(null);
+  const [dragOverLaneKey, setDragOverLaneKey] = useState<string | null>(null);
   const [dropPosition, setDropPosition] = useState<'before' | 'after' | 'inside' | null>(null);
+  // Timeline day and row under a backlog item being dragged in
+  const [backlogDropTarget, setBacklogDropTarget] = useState<{ day: number; rowIndex: number } | null>(null);
+
+  // Bar drag preview: dates are only committed (as one undo step) when the drag ends
+  const [dragPreview, setDragPreview] = useState<{ sourceId: string; tasks: Map<string, Task>; isBulkMove?: boolean } | null>(null);
+  const dragPreviewRef = useRef<{ sourceId: string; tasks: Map<string, Task>; isBulkMove?: boolean } | null>(null);
+
+  // Rubber-band selection box in task list coordinates, and the bulk action dialogs
+  const [selectionBox, setSelectionBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const [isBulkShiftOpen, setIsBulkShiftOpen] = useState(false);
+  const [bulkShiftDays, setBulkShiftDays] = useState('1');
+  const [bulkDeleteOpen, setBulkDeleteOpen] = useState(false);
+
+  // The grid left of the timeline; the timeline math only needs its total width
+  const visibleGridColumns = gridColumns.filter(c => c.visible);
+  const taskColumnWidth = visibleGridColumns.reduce((sum, c) => sum + c.width, 0);
+
+  // Dependency drawn by dragging from a bar's connector, and the link picked for deletion
+  const [linkDraft, setLinkDraft] = useState<{
+    fromId: string;
+    fromSide: 'start' | 'end';
+    startX: number;
+    startY: number;
+    x: number;
+    y: number;
+    targetId?: string;
+    targetSide?: 'start' | 'end';
+  } | null>(null);
+  const [selectedLink, setSelectedLink] = useState<{ fromId: string; toId: string } | null>(null);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+
+  // Rows currently mounted in the timeline; everything else is a spacer
+  const taskListRef = useRef<HTMLDivElement>(null);
+  const timelineHeaderRef = useRef<HTMLDivElement>(null);
+  const rowOffsetsRef = useRef<number[]>([0]);
+  const viewportFrameRef = useRef<number | null>(null);
+  const [visibleRange, setVisibleRange] = useState<VisibleRange>({ start: 0, end: 40 });
+
+  // Days near the horizontal viewport; day shading and header cells outside it are skipped
+  const timelineMetricsRef = useRef({ totalDays: 1, taskColumnWidth: 320 });
+  const [visibleDays, setVisibleDays] = useState({ first: 0, last: 120 });
+
+  // Keeps the mounted range while the viewport stays inside it, so small scrolls don't re-render
+  const updateVisibleRange = useCallback(() => {
+    viewportFrameRef.current = null;
+    const container = scrollContainerRef.current;
+    const list = taskListRef.current;
+    if (!container || !list) return;
+
+    const scrollTop = container.getBoundingClientRect().top - list.getBoundingClientRect().top;
+    const offsets = rowOffsetsRef.current;
+    const exact = getVisibleRange(offsets, scrollTop, container.clientHeight, 0);
+    setVisibleRange(prev =>
+      prev.start <= exact.start && prev.end >= exact.end
+        ? prev
+        : getVisibleRange(offsets, scrollTop, container.clientHeight)
+    );
+
+    // Same idea horizontally, with one viewport width of overscan on each side
+    const { totalDays: days, taskColumnWidth: columnWidth } = timelineMetricsRef.current;
+    const dayWidth = Math.max(0.01, (list.clientWidth - columnWidth) / days);
+    const viewportDays = (container.clientWidth - columnWidth) / dayWidth;
+    const first = Math.floor(container.scrollLeft / dayWidth);
+    const last = Math.ceil(first + viewportDays);
+    setVisibleDays(prev =>
+      prev.first <= first && prev.last >= last
+        ? prev
+        : { first: Math.max(0, Math.floor(first - viewportDays)), last: Math.ceil(last + viewportDays) }
+    );
+  }, []);
+
+  const handleTimelineScroll = () => {
+    if (viewportFrameRef.current === null) {
+      viewportFrameRef.current = requestAnimationFrame(updateVisibleRange);
+    }
+  };
+
+  useEffect(() => {
+    window.addEventListener('resize', updateVisibleRange);
+    return () => {
+      window.removeEventListener('resize', updateVisibleRange);
+      if (viewportFrameRef.current !== null) cancelAnimationFrame(viewportFrameRef.current);
+    };
+  }, [updateVisibleRange]);
   const resizeStartX = useRef(0);
   const resizeStartWidth = useRef(0);
 
@@ -729,6 +1062,7 @@ export function GanttChart({ className }: GanttChartProps) {
           ...task,
           startDate: new Date(task.startDate),
           endDate: new Date(task.endDate),
+          dependencies: normalizeDependencies(task.dependencies),
         }));
         setTasks(tasksWithDates);
       } catch (e) {
@@ -755,15 +1089,51 @@ export function GanttChart({ className }: GanttChartProps) {
       setViewMode(savedViewMode as ViewMode);
     }
 
+    const savedZoom = Number(localStorage.getItem('gantt-zoom'));
+    if (savedZoom > 0) {
+      pixelsPerDayRef.current = clampPixelsPerDay(savedZoom);
+      setPixelsPerDay(pixelsPerDayRef.current);
+    }
+
     const savedSettings = localStorage.getItem('gantt-settings');
     if (savedSettings) {
       try {
-        setGanttSettings(JSON.parse(savedSettings));
+        setGanttSettings({ ...defaultSettings, ...JSON.parse(savedSettings) });
       } catch (e) {
         console.error('Failed to load gantt settings:', e);
       }
     }
 
+    const savedBaselines = localStorage.getItem('gantt-baselines');
+    if (savedBaselines) {
+      try {
+        setBaselines(parseBaselines(JSON.parse(savedBaselines)));
+        setActiveBaselineId(localStorage.getItem('gantt-active-baseline'));
+      } catch (e) {
+        console.error('Failed to load baselines:', e);
+      }
+    }
+
+    const savedCalendar = localStorage.getItem('gantt-calendar');
+    if (savedCalendar) {
+      try {
+        setWorkCalendar({ ...defaultWorkCalendar, ...JSON.parse(savedCalendar) });
+      } catch (e) {
+        console.error('Failed to load work calendar:', e);
+      }
+    }
+
+    setGridColumns(parseGridColumns(localStorage.getItem('gantt-grid-columns')));
+
+    const savedCapacity = localStorage.getItem('gantt-resource-capacity');
+    if (savedCapacity) {
+      try {
+        setResourceCapacity({ ...defaultResourceCapacity, ...JSON.parse(savedCapacity) });
+      } catch (e) {
+        console.error('Failed to load resource capacity:', e);
+      }
+    }
+
     // Fetch cycles and team members if API key exists
     const loadLinearData = async () => {
       const apiKey = localStorage.getItem('linear-api-key');
@@ -790,6 +1160,7 @@ export function GanttChart({ className }: GanttChartProps) {
             }
           });
           setLinearTeamMembers(memberMap);
+          setLinearUsers(orgUsers);
         } catch (e) {
           console.error('Failed to load Linear data:', e);
         }
@@ -821,16 +1192,44 @@ export function GanttChart({ className }: GanttChartProps) {
     }
   }, [importedProjectIds]);
 
-  // Save view mode
+  // Save view mode and zoom level
   useEffect(() => {
     localStorage.setItem('gantt-view-mode', viewMode);
   }, [viewMode]);
 
+  useEffect(() => {
+    localStorage.setItem('gantt-zoom', String(pixelsPerDay));
+  }, [pixelsPerDay]);
+
   // Save settings
   useEffect(() => {
     localStorage.setItem('gantt-settings', JSON.stringify(ganttSettings));
   }, [ganttSettings]);
 
+  // Save baselines
+  useEffect(() => {
+    localStorage.setItem('gantt-baselines', JSON.stringify(baselines));
+    onBaselinesChange?.(baselines);
+  }, [baselines]);
+
+  useEffect(() => {
+    if (activeBaselineId) {
+      localStorage.setItem('gantt-active-baseline', activeBaselineId);
+    } else {
+      localStorage.removeItem('gantt-active-baseline');
+    }
+  }, [activeBaselineId]);
+
+  // Save work calendar
+  useEffect(() => {
+    localStorage.setItem('gantt-calendar', JSON.stringify(workCalendar));
+  }, [workCalendar]);
+
+  // Save resource capacity
+  useEffect(() => {
+    localStorage.setItem('gantt-resource-capacity', JSON.stringify(resourceCapacity));
+  }, [resourceCapacity]);
+
   // Project name editing functions
   const handleStartEditingProjectName = () => {
     setTempProjectName(projectName);
@@ -858,12 +1257,12 @@ export function GanttChart({ className }: GanttChartProps) {
   };
 
   // Column resize handlers
-  const handleColumnResizeStart = (e: React.MouseEvent) => {
+  const handleColumnResizeStart = (e: React.MouseEvent, columnId: GridColumnId) => {
     e.preventDefault();
     e.stopPropagation();
     setIsResizingColumn(true);
     resizeStartX.current = e.clientX;
-    resizeStartWidth.current = taskColumnWidth;
+    resizeStartWidth.current = gridColumns.find(c => c.id === columnId)?.width ?? 0;
 
     // 드래그 중 텍스트 선택 방지
     document.body.style.userSelect = 'none';
@@ -872,8 +1271,8 @@ export function GanttChart({ className }: GanttChartProps) {
     const handleMouseMove = (moveEvent: MouseEvent) => {
       moveEvent.preventDefault();
       const deltaX = moveEvent.clientX - resizeStartX.current;
-      const newWidth = Math.max(200, Math.min(600, resizeStartWidth.current + deltaX));
-      setTaskColumnWidth(newWidth);
+      const newWidth = clampColumnWidth(columnId, resizeStartWidth.current + deltaX);
+      setGridColumns(prev => prev.map(c => (c.id === columnId ? { ...c, width: newWidth } : c)));
     };
 
     const handleMouseUp = () => {
@@ -888,9 +1287,20 @@ export function GanttChart({ className }: GanttChartProps) {
     document.addEventListener('mouseup', handleMouseUp);
   };
 
+  // Children per parent, so hierarchy lookups stay constant-time on large imports
+  const childrenByParent = useMemo(() => {
+    const map = new Map<string, Task[]>();
+    tasks.forEach(task => {
+      if (!task.parentId) return;
+      if (!map.has(task.parentId)) map.set(task.parentId, []);
+      map.get(task.parentId)!.push(task);
+    });
+    return map;
+  }, [tasks]);
+
   // Helper functions for task hierarchy
   const getChildTasks = (parentId: string): Task[] => {
-    return tasks.filter(task => task.parentId === parentId);
+    return childrenByParent.get(parentId) || [];
   };
 
   const getRootTasks = (): Task[] => {
@@ -898,7 +1308,7 @@ export function GanttChart({ className }: GanttChartProps) {
   };
 
   const hasChildren = (taskId: string): boolean => {
-    return tasks.some(task => task.parentId === taskId);
+    return childrenByParent.has(taskId);
   };
 
   const isTaskCollapsed = (taskId: string): boolean => {
@@ -965,8 +1375,10 @@ export function GanttChart({ className }: GanttChartProps) {
     if (filterPriorities.length > 0 && task.parentId && (!task.priority || !filterPriorities.includes(task.priority))) return false;
     // Team filter - multi-select
     if (filterTeams.length > 0 && task.parentId && (!task.teamName || !filterTeams.includes(task.teamName))) return false;
+    // Cycle filter - issues assigned to the clicked cycle
+    if (filterCycleId && task.parentId && task.cycleId !== filterCycleId) return false;
     return true;
-  }, [searchQuery, filterStatuses, filterAssignees, filterPriorities, filterTeams]);
+  }, [searchQuery, filterStatuses, filterAssignees, filterPriorities, filterTeams, filterCycleId]);
 
   // Filter tasks based on search and filters
   // Include parent tasks if any of their children match
@@ -982,18 +1394,18 @@ export function GanttChart({ className }: GanttChartProps) {
     // Second pass: include parent tasks if they have matching children
     const result = new Set<string>(directMatches);
 
-    // For assignee/priority/team filters, include projects that have matching children
-    if (filterAssignees.length > 0 || filterPriorities.length > 0 || filterTeams.length > 0) {
+    // For assignee/priority/team/cycle filters, include projects that have matching children
+    if (filterAssignees.length > 0 || filterPriorities.length > 0 || filterTeams.length > 0 || filterCycleId) {
       tasks.forEach(task => {
         if (!task.parentId) {
           // This is a project - check if any children match
-          const hasMatchingChild = tasks.some(child =>
-            child.parentId === task.id && directMatches.has(child.id)
+          const hasMatchingChild = (childrenByParent.get(task.id) || []).some(child =>
+            directMatches.has(child.id)
           );
           if (hasMatchingChild) {
             result.add(task.id);
-          } else if (filterAssignees.length === 0 && filterPriorities.length === 0 && filterTeams.length === 0) {
-            // No assignee/priority/team filter, check other filters
+          } else if (filterAssignees.length === 0 && filterPriorities.length === 0 && filterTeams.length === 0 && !filterCycleId) {
+            // No assignee/priority/team/cycle filter, check other filters
             if (taskMatchesFilters(task)) {
               result.add(task.id);
             }
@@ -1003,11 +1415,25 @@ export function GanttChart({ className }: GanttChartProps) {
     }
 
     return tasks.filter(task => result.has(task.id));
-  }, [tasks, taskMatchesFilters, filterAssignees, filterPriorities, filterTeams]);
+  }, [tasks, childrenByParent, taskMatchesFilters, filterAssignees, filterPriorities, filterTeams, filterCycleId]);
 
   // Statistics
+  // Parent rows summarize their children (span and weighted progress)
+  const rolledUpTasks = useMemo(() => applyRollups(tasks), [tasks]);
+
+  // Minimap density counts the actual work, so summary parents are left out
+  const minimapTasks = useMemo(
+    () => filteredTasks.filter(t => !childrenByParent.has(t.id)),
+    [filteredTasks, childrenByParent]
+  );
+
+  // Linear cycles: the running one is highlighted, issues are checked against theirs
+  const cyclesById = useMemo(() => new Map(linearCycles.map(c => [c.id, c])), [linearCycles]);
+  const activeCycle = useMemo(() => getActiveCycle(linearCycles), [linearCycles]);
+  const filterCycle = filterCycleId ? cyclesById.get(filterCycleId) ?? null : null;
+
   const stats = useMemo(() => {
-    const rootTasks = tasks.filter(t => !t.parentId);
+    const rootTasks = rolledUpTasks.filter(t => !t.parentId);
     const completed = rootTasks.filter(t => t.progress === 100).length;
     const inProgress = rootTasks.filter(t => t.progress > 0 && t.progress < 100).length;
     const notStarted = rootTasks.filter(t => t.progress === 0).length;
@@ -1015,11 +1441,44 @@ export function GanttChart({ className }: GanttChartProps) {
       ? Math.round(rootTasks.reduce((acc, t) => acc + t.progress, 0) / rootTasks.length)
       : 0;
     return { total: rootTasks.length, completed, inProgress, notStarted, avgProgress };
-  }, [tasks]);
+  }, [rolledUpTasks]);
+
+  // Critical path over the full task network (filters only affect what is shown)
+  const criticalPath = useMemo(() => {
+    if (!ganttSettings.showCriticalPath) return null;
+    return computeCriticalPath(tasks, workCalendar);
+  }, [tasks, workCalendar, ganttSettings.showCriticalPath]);
+
+  // Dependency loops in loaded, imported or synced data; such links are never scheduled
+  const dependencyCycles = useMemo(() => findDependencyCycles(toDependencyGraph(tasks)), [tasks]);
+  const cyclicLinks = useMemo(() => {
+    const keys = new Set<string>();
+    dependencyCycles.forEach(cycle => cycle.links.forEach(l => keys.add(getLinkKey(l.fromId, l.toId))));
+    return keys;
+  }, [dependencyCycles]);
+
+  const describeCycle = (cycle: (typeof dependencyCycles)[number]) =>
+    describeDependencyCycle(cycle, id => tasks.find(t => t.id === id)?.name || id);
+
+  // Warn whenever a new set of loops shows up
+  const cycleSignature = [...cyclicLinks].sort().join('|');
+  const lastCycleSignature = useRef('');
+  useEffect(() => {
+    if (cycleSignature && cycleSignature !== lastCycleSignature.current) {
+      toast.error(`순환 의존성 ${dependencyCycles.length}개 발견`, {
+        description: (
+          <div>
+            {dependencyCycles.slice(0, 3).map((cycle, idx) => <div key={idx}>{describeCycle(cycle)}</div>)}
+          </div>
+        ),
+      });
+    }
+    lastCycleSignature.current = cycleSignature;
+  }, [cycleSignature]);
 
   // Organize tasks hierarchically for display
-  const organizeTasksHierarchically = (): (Task & { level: number; isGroupHeader?: boolean; groupName?: string; groupCount?: number })[] => {
-    const organized: (Task & { level: number; isGroupHeader?: boolean; groupName?: string; groupCount?: number })[] = [];
+  const organizeTasksHierarchically = (): (Task & { level: number; isGroupHeader?: boolean; groupName?: string; groupCount?: number; groupKey?: string; laneSummary?: LaneSummary })[] => {
+    const organized: (Task & { level: number; isGroupHeader?: boolean; groupName?: string; groupCount?: number; groupKey?: string; laneSummary?: LaneSummary })[] = [];
     const filteredIds = new Set(filteredTasks.map(t => t.id));
 
     const addTaskAndChildren = (task: Task, level: number = 0) => {
@@ -1041,23 +1500,7 @@ export function GanttChart({ className }: GanttChartProps) {
     // Group tasks by the selected attribute
     const groups = new Map<string, Task[]>();
     filteredTasks.forEach(task => {
-      let groupKey: string;
-      switch (groupBy) {
-        case 'assignee':
-          groupKey = task.assignee || '미지정';
-          break;
-        case 'priority':
-          groupKey = task.priority || 'none';
-          break;
-        case 'team':
-          groupKey = task.teamName || '팀 미지정';
-          break;
-        case 'status':
-          groupKey = task.progress === 100 ? '완료' : task.progress > 0 ? '진행중' : '시작전';
-          break;
-        default:
-          groupKey = '기타';
-      }
+      const groupKey = getLaneKey(task, groupBy);
       if (!groups.has(groupKey)) {
         groups.set(groupKey, []);
       }
@@ -1086,26 +1529,35 @@ export function GanttChart({ className }: GanttChartProps) {
       none: '없음',
     };
 
-    // Add group headers and tasks
+    // Lane summaries use the rolled-up dates of parents
+    const rolledUpById = new Map(rolledUpTasks.map(t => [t.id, t]));
+    const parentIds = new Set(childrenByParent.keys());
+
+    // Add group headers (collapsible swimlanes) and tasks
     sortedGroupKeys.forEach(groupKey => {
       const groupTasks = groups.get(groupKey)!;
       const displayName = groupBy === 'priority' ? priorityLabels[groupKey] || groupKey : groupKey;
+      const summary = summarizeLane(groupTasks.map(t => rolledUpById.get(t.id) || t), parentIds);
+      const laneId = `group-${groupKey}`;
 
-      // Add group header as a pseudo-task
+      // Add group header as a pseudo-task spanning the lane
       organized.push({
-        id: `group-${groupKey}`,
+        id: laneId,
         name: displayName,
-        startDate: new Date(),
-        endDate: new Date(),
-        progress: 0,
+        startDate: summary?.startDate ?? new Date(),
+        endDate: summary?.endDate ?? new Date(),
+        progress: summary?.progress ?? 0,
         color: '#6b7280',
         level: 0,
         isGroupHeader: true,
         groupName: displayName,
         groupCount: groupTasks.length,
+        groupKey,
+        laneSummary: summary ?? undefined,
       });
 
       // Add tasks in this group
+      if (isTaskCollapsed(laneId)) return;
       groupTasks.forEach(task => {
         organized.push({ ...task, level: 1 });
       });
@@ -1114,94 +1566,59 @@ export function GanttChart({ className }: GanttChartProps) {
     return organized;
   };
 
-  // Calculate timeline bounds based on view mode
-  const { timelineStart, timelineEnd, totalDays, monthHeaders, dayMarkers } = useMemo(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // Get range in days from viewModeRangeDays
-    const rangeDays = viewModeRangeDays[viewMode];
-    const halfRange = Math.floor(rangeDays / 2);
-
-    // Calculate start and end based on view mode (centered on today)
-    const start = new Date(today);
-    start.setDate(start.getDate() - halfRange);
-
-    const end = new Date(today);
-    end.setDate(end.getDate() + halfRange);
-
-    const days = Math.max(1, Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)));
-
-    // Generate month/week headers based on view mode
-    const headers: { date: Date; width: number; label: string }[] = [];
-
-    if (viewMode === 'day' || viewMode === 'week') {
-      // Show day headers for day/week view
-      const currentDate = new Date(start);
-      while (currentDate <= end) {
-        const dayWidth = (1 / days) * 100;
-        headers.push({
-          date: new Date(currentDate),
-          width: dayWidth,
-          label: currentDate.toLocaleDateString('ko', { month: 'short', day: 'numeric' })
-        });
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-    } else if (viewMode === 'sprint') {
-      // Show week headers for sprint view
-      const currentDate = new Date(start);
-      currentDate.setDate(currentDate.getDate() - currentDate.getDay()); // Start of week
-      while (currentDate <= end) {
-        const weekEnd = new Date(currentDate);
-        weekEnd.setDate(weekEnd.getDate() + 6);
-        const effectiveStart = currentDate < start ? start : currentDate;
-        const effectiveEnd = weekEnd > end ? end : weekEnd;
-        const daysInView = Math.ceil((effectiveEnd.getTime() - effectiveStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-        headers.push({
-          date: new Date(currentDate),
-          width: (daysInView / days) * 100,
-          label: `${currentDate.getMonth() + 1}/${currentDate.getDate()}`
-        });
-        currentDate.setDate(currentDate.getDate() + 7);
-      }
-    } else {
-      // Show month headers for month/quarter/year view
-      const currentDate = new Date(start);
-      currentDate.setDate(1);
-      while (currentDate <= end) {
-        const monthStart = new Date(currentDate);
-        const monthEnd = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
-
-        const effectiveStart = monthStart < start ? start : monthStart;
-        const effectiveEnd = monthEnd > end ? end : monthEnd;
-        const daysInView = Math.max(1, Math.ceil((effectiveEnd.getTime() - effectiveStart.getTime()) / (1000 * 60 * 60 * 24)) + 1);
-
-        headers.push({
-          date: new Date(currentDate),
-          width: (daysInView / days) * 100,
-          label: currentDate.toLocaleDateString('ko', { month: 'short', year: viewMode === 'year' ? 'numeric' : undefined })
-        });
+  // Timeline spans every task plus padding; zoom only changes how many pixels a day gets
+  const timelineRange = useMemo(() => getTimelineRange(tasks), [tasks]);
+  const rangeStartMs = timelineRange.start.getTime();
+  const rangeEndMs = timelineRange.end.getTime();
 
-        currentDate.setMonth(currentDate.getMonth() + 1);
-      }
-    }
+  const { timelineStart, timelineEnd, totalDays, dayMarkers } = useMemo(() => {
+    const start = new Date(rangeStartMs);
+    const end = new Date(rangeEndMs);
+    const days = Math.max(1, Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)));
 
-    // Generate day markers for grid and weekend highlighting
-    const dayMarkers: { date: Date; position: number; isWeekend: boolean }[] = [];
+    // One marker per day for non-working day shading (indexed by day offset)
+    const dayMarkers: { date: Date; position: number; nonWorking: NonWorkingReason | null }[] = [];
     const currentDay = new Date(start);
-    while (currentDay <= end) {
-      const dayOfWeek = currentDay.getDay();
-      const position = ((currentDay.getTime() - start.getTime()) / (1000 * 60 * 60 * 24) / days) * 100;
+    for (let i = 0; i < days; i++) {
       dayMarkers.push({
         date: new Date(currentDay),
-        position,
-        isWeekend: dayOfWeek === 0 || dayOfWeek === 6,
+        position: (i / days) * 100,
+        nonWorking: getNonWorkingReason(currentDay, workCalendar),
       });
       currentDay.setDate(currentDay.getDate() + 1);
     }
 
-    return { timelineStart: start, timelineEnd: end, totalDays: days, monthHeaders: headers, dayMarkers };
-  }, [viewMode]);
+    return { timelineStart: start, timelineEnd: end, totalDays: days, dayMarkers };
+  }, [rangeStartMs, rangeEndMs, workCalendar]);
+
+  // Header tiers follow the zoom level; the lower tier also places the grid lines
+  const headerTiers = getHeaderTiers(pixelsPerDay);
+  // Extra header row with the Linear cycles
+  const cycleBandHeight = linearCycles.length > 0 ? 26 : 0;
+  const activeCycleSpan = activeCycle ? getCycleSpanDays(activeCycle, timelineStart) : null;
+  const upperHeaderCells = useMemo(
+    () => (headerTiers.upper ? buildHeaderCells(headerTiers.upper, timelineStart, timelineEnd, true) : []),
+    [headerTiers.upper, timelineStart, timelineEnd]
+  );
+  const lowerHeaderCells = useMemo(
+    () => buildHeaderCells(headerTiers.lower, timelineStart, timelineEnd, false, headerTiers.hourStep),
+    [headerTiers.lower, headerTiers.hourStep, timelineStart, timelineEnd]
+  );
+  // Only cells and day markers near the horizontal viewport are rendered
+  const isCellVisible = (cell: HeaderCell) =>
+    cell.startDay + cell.days >= visibleDays.first && cell.startDay <= visibleDays.last;
+  const visibleUpperCells = upperHeaderCells.filter(isCellVisible);
+  const visibleLowerCells = lowerHeaderCells.filter(isCellVisible);
+  const visibleDayMarkers = dayMarkers.slice(Math.max(0, visibleDays.first), visibleDays.last + 1);
+  const timelineWidth = totalDays * pixelsPerDay;
+  const snapToHours = pixelsPerDay >= HOUR_SNAP_PIXELS_PER_DAY;
+  timelineMetricsRef.current = { totalDays, taskColumnWidth };
+
+  // Assignee names for per-person days off
+  const assigneeNames = useMemo(
+    () => [...new Set(tasks.map(t => t.assignee).filter((a): a is string => !!a))].sort(),
+    [tasks]
+  );
 
   // Calculate today's position
   const todayForIndicator = new Date();
@@ -1209,43 +1626,244 @@ export function GanttChart({ className }: GanttChartProps) {
   const todayPosition = ((todayForIndicator.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24) / totalDays) * 100;
   const isTodayVisible = todayPosition >= 0 && todayPosition <= 100;
 
-  // View mode controls
+  // View mode presets map to a zoom level that fits their range into the viewport
   const viewModes: ViewMode[] = ['day', 'week', 'sprint', 'month', 'quarter', 'year'];
 
-  const zoomIn = () => {
-    const currentIndex = viewModes.indexOf(viewMode);
-    if (currentIndex > 0) {
-      setViewMode(viewModes[currentIndex - 1]);
-    }
+  const getTimelineViewportWidth = () => {
+    const container = scrollContainerRef.current;
+    return Math.max(200, (container?.clientWidth ?? 1200) - taskColumnWidth);
   };
 
-  const zoomOut = () => {
-    const currentIndex = viewModes.indexOf(viewMode);
-    if (currentIndex < viewModes.length - 1) {
-      setViewMode(viewModes[currentIndex + 1]);
+  const presetPixelsPerDay = (mode: ViewMode) => getTimelineViewportWidth() / viewModeRangeDays[mode];
+
+  // Preset whose zoom level is closest to the current one (log scale)
+  const nearestViewMode = (value: number): ViewMode =>
+    viewModes.reduce((best, mode) =>
+      Math.abs(Math.log(presetPixelsPerDay(mode) / value)) < Math.abs(Math.log(presetPixelsPerDay(best) / value)) ? mode : best
+    );
+
+  /**
+   * Changes the zoom level while keeping the day under `clientX` (or the
+   * center of the timeline) at the same spot on screen.
+   */
+  const zoomTo = (value: number, clientX?: number) => {
+    const container = scrollContainerRef.current;
+    // Never zoom out past the point where the whole range fits the viewport
+    const next = clampPixelsPerDay(Math.max(value, getTimelineViewportWidth() / totalDays));
+    if (container) {
+      const rect = container.getBoundingClientRect();
+      const offsetX = clientX !== undefined
+        ? clientX - rect.left
+        : taskColumnWidth + (container.clientWidth - taskColumnWidth) / 2;
+      const day = (container.scrollLeft + offsetX - taskColumnWidth) / pixelsPerDayRef.current;
+      zoomAnchorRef.current = { day, offsetX };
     }
+    pixelsPerDayRef.current = next;
+    setPixelsPerDay(next);
+    setViewMode(nearestViewMode(next));
+  };
+
+  const applyViewMode = (mode: ViewMode) => {
+    zoomTo(presetPixelsPerDay(mode));
+    setViewMode(mode);
   };
 
+  const zoomIn = () => zoomTo(pixelsPerDayRef.current * ZOOM_STEP);
+
+  const zoomOut = () => zoomTo(pixelsPerDayRef.current / ZOOM_STEP);
+
   const resetViewMode = () => {
-    setViewMode('month');
+    applyViewMode('month');
+  };
+
+  // Ctrl/Cmd-click in the task column or shift/ctrl-click on a bar adds or removes a task from the selection
+  const toggleTaskSelection = (taskId: string) => {
+    setSelectedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
+  /**
+   * Rubber-band selection: dragging over empty timeline space selects every bar
+   * the box touches. Shift/ctrl adds to the selection; a plain click clears it.
+   */
+  const handleSelectionBoxStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    const list = taskListRef.current;
+    const container = scrollContainerRef.current;
+    if (e.button !== 0 || !list || !container) return;
+    if ((e.target as HTMLElement).closest('.task-bar, button, input, a, [data-link-target]')) return;
+    // The task column keeps its own clicks and row reordering
+    if (e.clientX < container.getBoundingClientRect().left + taskColumnWidth) return;
+
+    e.preventDefault(); // no text selection and no row drag
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+    const toListPoint = (clientX: number, clientY: number) => {
+      const rect = list.getBoundingClientRect();
+      return { x: clientX - rect.left, y: clientY - rect.top };
+    };
+    const origin = toListPoint(e.clientX, e.clientY);
+    let box = { x0: origin.x, y0: origin.y, x1: origin.x, y1: origin.y };
+    setSelectionBox(box);
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      const point = toListPoint(moveEvent.clientX, moveEvent.clientY);
+      box = { ...box, x1: point.x, y1: point.y };
+      setSelectionBox(box);
+    };
+
+    const handleEnd = () => {
+      document.removeEventListener('mousemove', handleMove);
+      document.removeEventListener('mouseup', handleEnd);
+      setSelectionBox(null);
+
+      const left = Math.min(box.x0, box.x1);
+      const right = Math.max(box.x0, box.x1);
+      const top = Math.min(box.y0, box.y1);
+      const bottom = Math.max(box.y0, box.y1);
+      if (right - left < 4 && bottom - top < 4) {
+        if (!additive) setSelectedTaskIds(new Set());
+        return;
+      }
+
+      // Box edges as timeline days, rows from their offsets
+      const timelineWidth = Math.max(1, list.clientWidth - taskColumnWidth);
+      const dayFrom = ((left - taskColumnWidth) / timelineWidth) * totalDays;
+      const dayTo = ((right - taskColumnWidth) / timelineWidth) * totalDays;
+      const offsets = rowOffsetsRef.current;
+      const hits = organizedTasks.filter((row, index) => {
+        if (row.isGroupHeader || offsets[index] >= bottom || offsets[index + 1] <= top) return false;
+        const barStart = getTimelineOffsetDays(row.startDate, timelineStart, row.hasTime);
+        return barStart < dayTo && barStart + getTaskSpanDays(row) > dayFrom;
+      });
+
+      setSelectedTaskIds(prev => {
+        const next = new Set(additive ? prev : []);
+        hits.forEach(row => next.add(row.id));
+        return next;
+      });
+    };
+
+    document.addEventListener('mousemove', handleMove);
+    document.addEventListener('mouseup', handleEnd);
+  };
+
+  // Fits the selected tasks, or every shown task when nothing is selected
+  const zoomToFit = () => {
+    const container = scrollContainerRef.current;
+    const selected = organizedTasks.filter(t => !t.isGroupHeader && selectedTaskIds.has(t.id));
+    const targets = selected.length > 0 ? selected : organizedTasks.filter(t => !t.isGroupHeader);
+    if (!container || targets.length === 0) return;
+
+    const first = Math.min(...targets.map(t => t.startDate.getTime()));
+    const last = Math.max(...targets.map(t => t.endDate.getTime()));
+    const startDay = (first - timelineStart.getTime()) / (1000 * 60 * 60 * 24);
+    const spanDays = Math.max(1, (last - first) / (1000 * 60 * 60 * 24));
+    const margin = 0.05; // leave a little room on both sides
+    const next = clampPixelsPerDay(Math.max(
+      getTimelineViewportWidth() * (1 - 2 * margin) / spanDays,
+      getTimelineViewportWidth() / totalDays
+    ));
+
+    zoomAnchorRef.current = {
+      day: startDay - (getTimelineViewportWidth() * margin) / next,
+      offsetX: taskColumnWidth,
+    };
+    pixelsPerDayRef.current = next;
+    setPixelsPerDay(next);
+    setViewMode(nearestViewMode(next));
   };
 
   // Scroll to today
   const scrollToToday = useCallback(() => {
     if (scrollContainerRef.current && isTodayVisible) {
       const container = scrollContainerRef.current;
-      const containerWidth = container.clientWidth;
-      const scrollWidth = container.scrollWidth;
-      const todayScrollPosition = (todayPosition / 100) * scrollWidth - containerWidth / 2;
-      container.scrollTo({ left: Math.max(0, todayScrollPosition), behavior: 'smooth' });
+      const todayX = (todayPosition / 100) * timelineWidth;
+      const viewport = container.clientWidth - taskColumnWidth;
+      container.scrollTo({ left: Math.max(0, todayX - viewport / 2), behavior: 'smooth' });
+    }
+  }, [todayPosition, isTodayVisible, timelineWidth, taskColumnWidth]);
+
+  const zoomToRef = useRef(zoomTo);
+  zoomToRef.current = zoomTo;
+  const zoomToFitRef = useRef(zoomToFit);
+  zoomToFitRef.current = zoomToFit;
+
+  // Start with today in view once the tasks have loaded
+  const hasScrolledToTodayRef = useRef(false);
+  useEffect(() => {
+    if (isLoading || hasScrolledToTodayRef.current || !scrollContainerRef.current) return;
+    hasScrolledToTodayRef.current = true;
+    scrollToToday();
+  }, [isLoading, scrollToToday]);
+
+  // Keep the zoom anchor in place once the new width has been laid out
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const anchor = zoomAnchorRef.current;
+    zoomAnchorRef.current = null;
+    if (container && anchor) {
+      container.scrollLeft = Math.max(0, taskColumnWidth + anchor.day * pixelsPerDay - anchor.offsetX);
     }
-  }, [todayPosition, isTodayVisible]);
+    updateVisibleRange();
+  }, [pixelsPerDay]);
+
+  // Ctrl/Cmd + wheel (and trackpad pinch, which browsers report the same way) zooms at the cursor;
+  // two-finger pinch does the same on touch screens
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomToRef.current(pixelsPerDayRef.current * Math.exp(-e.deltaY * 0.002), e.clientX);
+    };
+
+    const touchDistance = (e: TouchEvent) =>
+      Math.hypot(e.touches[0].clientX - e.touches[1].clientX, e.touches[0].clientY - e.touches[1].clientY);
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      pinchRef.current = { distance: touchDistance(e), pixelsPerDay: pixelsPerDayRef.current };
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (e.touches.length !== 2 || !pinchRef.current) return;
+      e.preventDefault();
+      const scale = touchDistance(e) / pinchRef.current.distance;
+      const centerX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
+      zoomToRef.current(pinchRef.current.pixelsPerDay * scale, centerX);
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinchRef.current = null;
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('touchstart', handleTouchStart, { passive: true });
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    container.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [isLoading, tasks.length > 0]);
+
+  // Save grid column order, visibility and widths
+  useEffect(() => {
+    localStorage.setItem('gantt-grid-columns', JSON.stringify(gridColumns));
+  }, [gridColumns]);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Don't trigger shortcuts when typing in inputs
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) {
         return;
       }
 
@@ -1259,6 +1877,21 @@ export function GanttChart({ className }: GanttChartProps) {
         e.preventDefault();
         resetViewMode();
         scrollToToday();
+      } else if (e.key === 'f' && !e.metaKey && !e.ctrlKey && !e.altKey) {
+        e.preventDefault();
+        zoomToFitRef.current();
+      } else if (e.key === 'Escape' && selectedTaskIds.size > 0) {
+        setSelectedTaskIds(new Set());
+      } else if (
+        e.key === 'Tab' && selectedTaskIds.size > 0 && !e.metaKey && !e.ctrlKey && !e.altKey &&
+        (e.target === document.body || taskListRef.current?.contains(e.target as Node))
+      ) {
+        // Tab / Shift+Tab indent and outdent the selected rows instead of moving focus
+        e.preventDefault();
+        hierarchyCommandRef.current(e.shiftKey ? 'outdent' : 'indent');
+      } else if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown') && selectedTaskIds.size > 0) {
+        e.preventDefault();
+        hierarchyCommandRef.current(e.key === 'ArrowUp' ? 'up' : 'down');
       } else if (e.key === 'z' && (e.metaKey || e.ctrlKey) && !e.shiftKey) {
         e.preventDefault();
         if (canUndo) {
@@ -1277,13 +1910,41 @@ export function GanttChart({ className }: GanttChartProps) {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [scrollToToday, canUndo, canRedo, undo, redo]);
+  }, [scrollToToday, canUndo, canRedo, undo, redo, selectedTaskIds]);
+
+  // Selected dependency: Delete removes it, Escape or clicking elsewhere deselects
+  useEffect(() => {
+    if (!selectedLink) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        handleDeleteDependency(selectedLink.fromId, selectedLink.toId);
+      } else if (e.key === 'Escape') {
+        setSelectedLink(null);
+      }
+    };
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!(e.target as Element).closest?.('[data-dependency-link]')) setSelectedLink(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [selectedLink, tasks]);
 
   const handleAddTask = (taskData: Omit<Task, 'id'>) => {
     const newTask: Task = {
       ...taskData,
       id: Date.now().toString(),
       parentId: addingSubtaskTo || taskData.parentId,
+      sortOrder: getNextSortOrder(tasks, addingSubtaskTo || taskData.parentId),
     };
     setTasks([...tasks, newTask]);
     setIsDialogOpen(false);
@@ -1305,13 +1966,13 @@ export function GanttChart({ className }: GanttChartProps) {
           if (editingTask.linearProjectId) {
             await updateLinearProject(linearApiKey, editingTask.linearProjectId, {
               name: taskData.name,
-              startDate: formatDateForLinear(taskData.startDate),
-              targetDate: formatDateForLinear(taskData.endDate),
+              startDate: formatDateForLinear(taskData.startDate, taskData.hasTime),
+              targetDate: formatDateForLinear(taskData.endDate, taskData.hasTime),
             });
           } else if (editingTask.linearIssueId) {
             await updateLinearIssue(linearApiKey, editingTask.linearIssueId, {
               title: taskData.name,
-              dueDate: formatDateForLinear(taskData.endDate),
+              dueDate: formatDateForLinear(taskData.endDate, taskData.hasTime),
             });
           }
         } catch (error) {
@@ -1393,6 +2054,7 @@ export function GanttChart({ className }: GanttChartProps) {
       // Remove Linear IDs so it's treated as a new local task
       linearProjectId: undefined,
       linearIssueId: undefined,
+      sortOrder: getNextSortOrder(tasks, taskToDuplicate.parentId),
     };
 
     setTasks([...tasks, newTask]);
@@ -1416,10 +2078,12 @@ export function GanttChart({ className }: GanttChartProps) {
     if (element) element.classList.remove('opacity-50');
     setDraggedTaskId(null);
     setDragOverTaskId(null);
+    setDragOverLaneKey(null);
     setDropPosition(null);
   };
 
   const handleTaskDragOver = (e: React.DragEvent, taskId: string, taskParentId?: string) => {
+    if (!draggedTaskId) return; // backlog items are handled by the task list
     e.preventDefault();
     if (draggedTaskId === taskId) return;
 
@@ -1461,6 +2125,13 @@ export function GanttChart({ className }: GanttChartProps) {
       return;
     }
 
+    // Dropping onto a task in another swimlane moves the task into that lane
+    if (groupBy !== 'none' && getLaneKey(draggedTask, groupBy) !== getLaneKey(targetTask, groupBy)) {
+      handleTaskDragEnd();
+      await moveTaskToLane(draggedTask, getLaneKey(targetTask, groupBy));
+      return;
+    }
+
     // Prevent dropping a task onto its own children
     const isChildOf = (potentialChildId: string, parentId: string): boolean => {
       const child = tasks.find(t => t.id === potentialChildId);
@@ -1477,18 +2148,15 @@ export function GanttChart({ className }: GanttChartProps) {
 
     let updatedTasks = [...tasks];
     let newParentId: string | undefined;
-    let newLinearParentId: string | null = null;
 
     if (dropPosition === 'inside') {
       // Move as child of target
       newParentId = targetTaskId;
-      newLinearParentId = targetTask.linearIssueId || null;
       updatedTasks = tasks.map(t =>
         t.id === draggedTaskId
           ? { ...t, parentId: targetTaskId }
           : t
       );
-      toast.success('태스크 이동됨', { description: `${draggedTask.name} → ${targetTask.name}의 하위로` });
     } else {
       // Reorder: remove dragged task and insert at new position
       const draggedIndex = updatedTasks.findIndex(t => t.id === draggedTaskId);
@@ -1496,8 +2164,6 @@ export function GanttChart({ className }: GanttChartProps) {
 
       // Update parentId to match target's parent (sibling placement)
       newParentId = targetTask.parentId;
-      const parentTask = newParentId ? tasks.find(t => t.id === newParentId) : null;
-      newLinearParentId = parentTask?.linearIssueId || null;
       const updatedDraggedTask = { ...draggedTask, parentId: targetTask.parentId };
 
       // Remove from current position
@@ -1514,81 +2180,827 @@ export function GanttChart({ className }: GanttChartProps) {
 
       // Insert at new position
       updatedTasks.splice(newIndex, 0, updatedDraggedTask);
+    }
+    const ranks = rankMovedTasks(updatedTasks, new Set([draggedTaskId]));
+    updatedTasks = applySortOrders(updatedTasks, ranks);
+
+    // Moving under another parent changes which tasks a summary link covers
+    const cycle = findNewDependencyCycle(toDependencyGraph(tasks), toDependencyGraph(updatedTasks));
+    if (cycle) {
+      toast.error('순환 의존성 때문에 이동할 수 없습니다', {
+        description: describeDependencyCycle(cycle, id => tasks.find(t => t.id === id)?.name || id),
+      });
+      handleTaskDragEnd();
+      return;
+    }
+
+    if (dropPosition === 'inside') {
+      toast.success('태스크 이동됨', { description: `${draggedTask.name} → ${targetTask.name}의 하위로` });
+    } else {
       toast.success('태스크 순서 변경됨');
     }
 
     setTasks(updatedTasks);
     handleTaskDragEnd();
 
-    // Sync to Linear if the task has a linearIssueId and parent changed
-    if (linearApiKey && draggedTask.linearIssueId && draggedTask.parentId !== newParentId) {
-      setIsSyncing(true);
-      try {
-        const success = await updateLinearIssueExtended(linearApiKey, draggedTask.linearIssueId, {
-          parentId: newLinearParentId,
-        });
-        if (success) {
-          toast.success('Linear 동기화 완료');
-        } else {
-          toast.error('Linear 동기화 실패');
-        }
-      } catch (error) {
-        console.error('Failed to sync parent to Linear:', error);
-        toast.error('Linear 동기화 실패');
-      } finally {
-        setIsSyncing(false);
-      }
-    }
+    await syncHierarchyToLinear(updatedTasks, draggedTask.parentId !== newParentId ? [draggedTaskId] : [], ranks);
   };
 
-  const handleDateChange = async (taskId: string, newStartDate: Date, newEndDate: Date) => {
-    setTasks(tasks.map(t =>
-      t.id === taskId
-        ? { ...t, startDate: newStartDate, endDate: newEndDate }
-        : t
-    ));
+  /**
+   * Pushes moved rows to Linear: new parents (the parent issue and the
+   * project above it) and new ranks. Issues under another issue are ranked
+   * with subIssueSortOrder, the rest with sortOrder.
+   */
+  const syncHierarchyToLinear = async (updatedTasks: Task[], reparentedIds: string[], ranks: Map<string, number>) => {
+    const requests = updatedTasks.flatMap(task => {
+      const reparented = reparentedIds.includes(task.id);
+      const sortOrder = ranks.get(task.id);
+      if (!reparented && sortOrder === undefined) return [];
+      if (!task.linearIssueId) {
+        return task.linearProjectId && sortOrder !== undefined
+          ? [() => updateLinearProject(linearApiKey, task.linearProjectId!, { sortOrder })]
+          : [];
+      }
+      const parentUpdate = getLinearParentUpdate(updatedTasks, task, task.parentId)!;
+      const rank = sortOrder === undefined ? {} : parentUpdate.parentId ? { subIssueSortOrder: sortOrder } : { sortOrder };
+      return [() => updateLinearIssueExtended(linearApiKey, task.linearIssueId!, { ...(reparented ? parentUpdate : {}), ...rank })];
+    });
+    await syncBulkToLinear(requests);
   };
 
-  const syncTaskToLinear = async (task: Task) => {
-    if (!linearApiKey || (!task.linearProjectId && !task.linearIssueId)) return;
-
-    setIsSyncing(true);
-    try {
-      if (task.linearProjectId) {
-        await updateLinearProject(linearApiKey, task.linearProjectId, {
-          startDate: formatDateForLinear(task.startDate),
-          targetDate: formatDateForLinear(task.endDate),
-        });
-      } else if (task.linearIssueId) {
-        await updateLinearIssue(linearApiKey, task.linearIssueId, {
-          dueDate: formatDateForLinear(task.endDate),
-        });
-      }
-    } catch (error) {
-      console.error('Failed to sync with Linear:', error);
-    } finally {
-      setIsSyncing(false);
+  // Indent / outdent / move the selected rows, as one undo step
+  const applyHierarchyCommand = (command: 'indent' | 'outdent' | 'up' | 'down') => {
+    if (selectedTaskIds.size === 0) return;
+    if (groupBy !== 'none') {
+      toast.info('그룹 보기에서는 계층을 바꿀 수 없습니다', { description: '그룹을 해제한 뒤 다시 시도하세요' });
+      return;
     }
-  };
 
-  const handleDragEnd = (taskId: string) => {
-    const task = tasks.find(t => t.id === taskId);
-    if (task) {
-      syncTaskToLinear(task);
+    const movedTasks = command === 'indent'
+      ? indentTasks(tasks, selectedTaskIds)
+      : command === 'outdent'
+      ? outdentTasks(tasks, selectedTaskIds)
+      : moveTasksAmongSiblings(tasks, selectedTaskIds, command === 'up' ? -1 : 1);
+    if (movedTasks.every((t, i) => t === tasks[i])) return;
+    const ranks = rankMovedTasks(movedTasks, new Set(movedTasks.filter((t, i) => t !== tasks[i]).map(t => t.id)));
+    const updatedTasks = applySortOrders(movedTasks, ranks);
+
+    const cycle = findNewDependencyCycle(toDependencyGraph(tasks), toDependencyGraph(updatedTasks));
+    if (cycle) {
+      toast.error('순환 의존성 때문에 이동할 수 없습니다', {
+        description: describeDependencyCycle(cycle, id => tasks.find(t => t.id === id)?.name || id),
+      });
+      return;
     }
-  };
 
-  const handleProgressChange = (taskId: string, progress: number) => {
-    const task = tasks.find(t => t.id === taskId);
-    setTasks(tasks.map(t =>
-      t.id === taskId ? { ...t, progress } : t
-    ));
-    toast.success('Progress updated', { description: `${task?.name}: ${progress}%` });
+    setTasks(updatedTasks);
+    const parentById = new Map(updatedTasks.map(t => [t.id, t.parentId]));
+    const reparented = tasks.filter(t => parentById.get(t.id) !== t.parentId);
+    // Keep indented rows visible under their new parent
+    const newParentIds = reparented.map(t => parentById.get(t.id)).filter((id): id is string => !!id && collapsedTasks.has(id));
+    if (newParentIds.length > 0) {
+      setCollapsedTasks(prev => new Set([...prev].filter(id => !newParentIds.includes(id))));
+    }
+    syncHierarchyToLinear(updatedTasks, reparented.map(t => t.id), ranks);
+  };
+  const hierarchyCommandRef = useRef(applyHierarchyCommand);
+  hierarchyCommandRef.current = applyHierarchyCommand;
+
+  const handleLaneDragOver = (e: React.DragEvent, laneKey: string) => {
+    if (!draggedTaskId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDragOverLaneKey(laneKey);
+    setDragOverTaskId(null);
+    setDropPosition(null);
+  };
+
+  const handleLaneDrop = async (e: React.DragEvent, laneKey: string) => {
+    e.preventDefault();
+    const draggedTask = tasks.find(t => t.id === draggedTaskId);
+    handleTaskDragEnd();
+    if (draggedTask) await moveTaskToLane(draggedTask, laneKey);
+  };
+
+  // Timeline day (fractional) and row under the pointer while a backlog item is dragged over the task list
+  const getBacklogDropPoint = (e: React.DragEvent) => {
+    const list = taskListRef.current;
+    if (!list) return null;
+    const rect = list.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    if (x < taskColumnWidth) return null;
+    const timelineWidth = Math.max(1, list.clientWidth - taskColumnWidth);
+    const offsets = rowOffsetsRef.current;
+    const rowIndex = organizedTasks.findIndex((row, index) => !row.isGroupHeader && y >= offsets[index] && y < offsets[index + 1]);
+    return { at: ((x - taskColumnWidth) / timelineWidth) * totalDays, rowIndex };
+  };
+
+  const handleBacklogDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    // Row reordering and column drags carry their own state; a backlog item only brings its JSON
+    if (draggedTaskId || draggedColumnId || !e.dataTransfer.types.includes('application/json')) return;
+    const point = getBacklogDropPoint(e);
+    if (!point) {
+      setBacklogDropTarget(null);
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const day = Math.floor(point.at);
+    if (backlogDropTarget?.day !== day || backlogDropTarget.rowIndex !== point.rowIndex) {
+      setBacklogDropTarget({ day, rowIndex: point.rowIndex });
+    }
+  };
+
+  const handleBacklogDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setBacklogDropTarget(null);
+  };
+
+  /**
+   * Schedules a backlog item dropped on the timeline from the day under the
+   * pointer and its estimate. Dropped on a row it is placed right after that
+   * row; elsewhere it goes under its Linear project when that is on the chart.
+   * An issue already on the chart is rescheduled in place. The due date and
+   * the cycle whose band holds the drop point are pushed to Linear.
+   */
+  const handleBacklogDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    setBacklogDropTarget(null);
+    if (draggedTaskId || draggedColumnId) return;
+    const item = parseBacklogDragData(e.dataTransfer.getData('application/json'));
+    const point = getBacklogDropPoint(e);
+    if (!item || !point) return;
+    e.preventDefault();
+
+    const schedule = getBacklogSchedule(item, shiftByDays(timelineStart, Math.floor(point.at)), workCalendar, resourceCapacity);
+    const cycle = getActiveCycle(linearCycles, new Date(timelineStart.getTime() + point.at * 1000 * 60 * 60 * 24));
+    const cycleFields = cycle ? { cycleId: cycle.id, cycleName: cycle.name } : {};
+    const existing = item.linearIssueId ? tasks.find(t => t.linearIssueId === item.linearIssueId) : undefined;
+
+    if (existing) {
+      setTasks(tasks.map(t => (t.id === existing.id ? { ...t, ...schedule, ...cycleFields, hasTime: false, segments: undefined } : t)));
+    } else {
+      const row = point.rowIndex >= 0 ? organizedTasks[point.rowIndex] : undefined;
+      const projectTask = item.linearProjectId
+        ? tasks.find(t => t.linearProjectId === item.linearProjectId && !t.linearIssueId)
+        : undefined;
+      const newTask: Task = {
+        ...createTaskFromBacklogItem(item, schedule, gridCellOptions.labels),
+        ...cycleFields,
+        parentId: row ? row.parentId : projectTask?.id,
+      };
+      const rowIndex = row ? tasks.findIndex(t => t.id === row.id) : -1;
+      const updatedTasks = rowIndex >= 0
+        ? [...tasks.slice(0, rowIndex + 1), newTask, ...tasks.slice(rowIndex + 1)]
+        : [...tasks, newTask];
+      setTasks(applySortOrders(updatedTasks, rankMovedTasks(updatedTasks, new Set([newTask.id]))));
+    }
+
+    toast.success('백로그 일정 지정됨', {
+      description: `${item.name}: ${formatDate(schedule.startDate)} ~ ${formatDate(schedule.endDate)}${cycle ? ` · ${cycle.name}` : ''}`,
+    });
+    onBacklogItemScheduled?.(item.id, { ...schedule, cycleId: cycle?.id });
+
+    const issueId = item.linearIssueId;
+    if (!issueId) return;
+    await syncBulkToLinear([
+      () => updateLinearIssue(linearApiKey, issueId, { dueDate: formatDateForLinear(schedule.endDate) }),
+      ...(cycle && cycle.id !== existing?.cycleId ? [() => addIssueToCycle(linearApiKey, issueId, cycle.id)] : []),
+    ]);
+  };
+
+  // Workflow state of the issue's team that matches a status lane
+  const findLinearStateForLane = async (task: Task, laneKey: string) => {
+    const teamId = task.teamId || await getTeamIdForIssue(linearApiKey, task.linearIssueId!);
+    return teamId ? findLinearStateForStatus(linearApiKey, teamId, getLaneLinearStatus(laneKey)) : null;
+  };
+
+  // Reassigns a task to another swimlane and pushes the new field to Linear
+  const moveTaskToLane = async (task: Task, laneKey: string) => {
+    const change = getLaneChange(task, groupBy, laneKey, tasks);
+    if (!change) return;
+
+    if (groupBy === 'assignee' && task.linearIssueId && change.assignee && !change.assigneeId) {
+      toast.error('담당자 정보를 찾을 수 없습니다', { description: `${laneKey}의 Linear 계정을 확인할 수 없어 이동하지 않았습니다` });
+      return;
+    }
+    if (groupBy === 'team' && task.linearIssueId && !change.teamId) {
+      toast.error('팀을 지정해야 합니다', { description: 'Linear 이슈는 팀 없이 둘 수 없습니다' });
+      return;
+    }
+
+    setTasks(tasks.map(t => (t.id === task.id ? { ...t, ...change } : t)));
+    const laneName = organizedTasks.find(row => row.groupKey === laneKey)?.groupName || laneKey;
+    toast.success('레인 이동됨', { description: `${task.name} → ${laneName}` });
+
+    if (!linearApiKey || !task.linearIssueId) return;
+    setIsSyncing(true);
+    try {
+      let success = true;
+      switch (groupBy) {
+        case 'assignee':
+          success = await updateLinearIssueExtended(linearApiKey, task.linearIssueId, { assigneeId: change.assigneeId ?? null });
+          break;
+        case 'priority':
+          success = await updateLinearIssueExtended(linearApiKey, task.linearIssueId, {
+            priority: convertToLinearPriority(change.priority || 'none'),
+          });
+          break;
+        case 'team':
+          success = await updateLinearIssueExtended(linearApiKey, task.linearIssueId, { teamId: change.teamId });
+          break;
+        case 'status': {
+          const stateId = await findLinearStateForLane(task, laneKey);
+          if (!stateId) {
+            toast.warning('Linear 상태 매핑 없음', { description: `"${laneKey}"에 해당하는 상태를 찾을 수 없음` });
+            return;
+          }
+          success = await updateLinearIssueState(linearApiKey, task.linearIssueId, stateId);
+          break;
+        }
+      }
+      if (success) {
+        toast.success('Linear 동기화 완료');
+      } else {
+        toast.error('Linear 동기화 실패');
+      }
+    } catch (error) {
+      console.error('Failed to sync lane change to Linear:', error);
+      toast.error('Linear 동기화 실패');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDateChange = (taskId: string, newStartDate: Date, newEndDate: Date, mode?: 'move' | 'resize') => {
+    // Moving one of several selected bars moves all of them by the same amount
+    const draggedTask = tasks.find(t => t.id === taskId);
+    if (mode === 'move' && draggedTask && selectedTaskIds.has(taskId) && selectedTaskIds.size > 1) {
+      const delta = getMoveDelta(draggedTask, newStartDate, timelineStart, snapToHours);
+      const dragged = { ...draggedTask, startDate: newStartDate, endDate: newEndDate, hasTime: snapToHours || draggedTask.hasTime };
+      const previewTasks = shiftTasks(tasks, selectedTaskIds, delta, timelineStart, {
+        autoSchedule: ganttSettings.autoSchedule,
+        calendar: workCalendar,
+        overrides: new Map([[taskId, dragged]]),
+      });
+      const preview = { sourceId: taskId, tasks: previewTasks, isBulkMove: true };
+      dragPreviewRef.current = preview;
+      setDragPreview(preview);
+      return;
+    }
+
+    // With auto-scheduling on, successors follow the dragged bar
+    const changes = ganttSettings.autoSchedule
+      ? cascadeSchedule(tasks, taskId, newStartDate, newEndDate, workCalendar)
+      : new Map([[taskId, { startDate: newStartDate, endDate: newEndDate }]]);
+
+    // Bars dragged in the day view move by the hour, which makes them timed tasks
+    const previewTasks = new Map<string, Task>();
+    changes.forEach((dates, id) => {
+      const task = tasks.find(t => t.id === id);
+      if (task) previewTasks.set(id, { ...task, ...dates, ...(id === taskId && snapToHours ? { hasTime: true } : {}) });
+    });
+
+    const preview = { sourceId: taskId, tasks: previewTasks };
+    dragPreviewRef.current = preview;
+    setDragPreview(preview);
+  };
+
+  const syncTasksToLinear = async (changedTasks: Task[]) => {
+    const linkedTasks = changedTasks.filter(t => t.linearProjectId || t.linearIssueId);
+    if (!linearApiKey || linkedTasks.length === 0) return;
+
+    setIsSyncing(true);
+    try {
+      await Promise.all(linkedTasks.map(task => {
+        if (task.linearProjectId) {
+          return updateLinearProject(linearApiKey, task.linearProjectId, {
+            startDate: formatDateForLinear(task.startDate, task.hasTime),
+            targetDate: formatDateForLinear(task.endDate, task.hasTime),
+          });
+        }
+        return updateLinearIssue(linearApiKey, task.linearIssueId!, {
+          dueDate: formatDateForLinear(task.endDate, task.hasTime),
+        });
+      }));
+    } catch (error) {
+      console.error('Failed to sync with Linear:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDragEnd = (taskId: string) => {
+    const preview = dragPreviewRef.current;
+    dragPreviewRef.current = null;
+    setDragPreview(null);
+    if (!preview || preview.sourceId !== taskId) return;
+
+    const changedTasks = [...preview.tasks.values()].filter(previewTask => {
+      const original = tasks.find(t => t.id === previewTask.id);
+      return original && (
+        original.startDate.getTime() !== previewTask.startDate.getTime() ||
+        original.endDate.getTime() !== previewTask.endDate.getTime()
+      );
+    });
+    if (changedTasks.length === 0) return;
+
+    // Commit the dragged task and every shifted successor as a single history entry
+    setTasks(prev => prev.map(t => {
+      const previewTask = preview.tasks.get(t.id);
+      return previewTask
+        ? { ...t, startDate: previewTask.startDate, endDate: previewTask.endDate, hasTime: previewTask.hasTime }
+        : t;
+    }));
+
+    const movedSelection = preview.isBulkMove ? changedTasks.filter(t => selectedTaskIds.has(t.id)).length : 0;
+    if (movedSelection > 1) {
+      toast.success('선택한 작업 이동', { description: `작업 ${movedSelection}개의 일정이 함께 변경되었습니다` });
+    }
+    const shiftedCount = changedTasks.filter(t => t.id !== taskId && !(preview.isBulkMove && selectedTaskIds.has(t.id))).length;
+    if (shiftedCount > 0) {
+      toast.success('자동 일정 조정', { description: `연결된 작업 ${shiftedCount}개의 일정이 함께 변경되었습니다` });
+    }
+
+    syncTasksToLinear(changedTasks);
+  };
+
+  // Split tasks: new segments, with successors following when auto-scheduling is on
+  const commitSegmentChange = (task: Task, fields: Pick<Task, 'startDate' | 'endDate' | 'segments'>) => {
+    const updated = { ...task, ...fields };
+    const changes = ganttSettings.autoSchedule
+      ? cascadeSchedule(tasks, task.id, updated.startDate, updated.endDate, workCalendar)
+      : new Map<string, ScheduleChange>();
+    changes.delete(task.id);
+
+    setTasks(prev => prev.map(t => {
+      if (t.id === task.id) return updated;
+      const dates = changes.get(t.id);
+      return dates ? { ...t, ...dates } : t;
+    }));
+
+    const datesChanged = updated.startDate.getTime() !== task.startDate.getTime() ||
+      updated.endDate.getTime() !== task.endDate.getTime();
+    const shiftedTasks = tasks.filter(t => changes.has(t.id)).map(t => ({ ...t, ...changes.get(t.id)! }));
+    syncTasksToLinear([...(datesChanged ? [updated] : []), ...shiftedTasks]);
+  };
+
+  const handleSegmentsChange = (taskId: string, segments: SegmentRange[]) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (task) commitSegmentChange(task, applySegments(task, segments));
+  };
+
+  // "Split here": pauses the work for a day (an hour for timed tasks) at the given offset
+  const handleSplitTask = (taskId: string, offsetDays: number) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    const split = splitTaskAt(task, offsetDays, task.hasTime ? 1 / 24 : 1);
+    if (!split) {
+      toast.error('작업 기간 안에서만 분할할 수 있습니다');
+      return;
+    }
+    commitSegmentChange(task, split);
+    toast.success('작업 분할됨', { description: `${task.name} · ${split.segments?.length ?? 1}개 구간` });
+  };
+
+  // Joins all segments back into one bar over the same span
+  const handleMergeSegments = (taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    commitSegmentChange(task, { startDate: task.startDate, endDate: task.endDate, segments: undefined });
+    toast.success('분할 해제됨', { description: task.name });
+  };
+
+  // Linear only knows "blocks" relations, so every link type maps to predecessor-blocks-successor
+  const syncDependencyToLinear = async (action: 'create' | 'delete', predecessor: Task, successor: Task) => {
+    if (!linearApiKey || !predecessor.linearIssueId || !successor.linearIssueId) return;
+
+    setIsSyncing(true);
+    try {
+      let success: boolean;
+      if (action === 'create') {
+        const result = await createIssueRelation(linearApiKey, successor.linearIssueId, predecessor.linearIssueId, 'blocked');
+        success = result.success;
+      } else {
+        const relations = await fetchIssueRelations(linearApiKey, successor.linearIssueId);
+        const relation = relations?.find(r => r.type === 'blocked' && r.relatedIssue.id === predecessor.linearIssueId);
+        // Nothing to delete when the relation only ever existed locally; a failed lookup proves nothing
+        success = relations === null ? false : relation ? await deleteIssueRelation(linearApiKey, relation.id) : true;
+      }
+      if (success) {
+        toast.success('Linear 동기화 완료');
+      } else {
+        toast.error('Linear 동기화 실패');
+      }
+    } catch (error) {
+      console.error('Failed to sync dependency to Linear:', error);
+      toast.error('Linear 동기화 실패');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleCreateDependency = (fromId: string, toId: string, type: DependencyType) => {
+    const predecessor = tasks.find(t => t.id === fromId);
+    const successor = tasks.find(t => t.id === toId);
+    if (!predecessor || !successor || fromId === toId) return;
+
+    const existing = successor.dependencies?.find(d => d.taskId === fromId);
+    if (existing?.type === type) {
+      toast.info('이미 연결된 작업입니다', { description: `${predecessor.name} → ${successor.name}` });
+      return;
+    }
+
+    const dependencies: TaskDependency[] = existing
+      ? successor.dependencies!.map(d => (d.taskId === fromId ? { ...d, type } : d))
+      : [...(successor.dependencies || []), { taskId: fromId, type, lagDays: 0 }];
+    const updatedTasks = tasks.map(t => (t.id === toId ? { ...t, dependencies } : t));
+
+    const cycle = findNewDependencyCycle(toDependencyGraph(tasks), toDependencyGraph(updatedTasks));
+    if (cycle) {
+      toast.error('순환 의존성이 생깁니다', {
+        description: describeDependencyCycle(cycle, id => tasks.find(t => t.id === id)?.name || id),
+      });
+      return;
+    }
+
+    setTasks(updatedTasks);
+    toast.success(existing ? '의존성 유형 변경됨' : '의존성 추가됨', {
+      description: `${predecessor.name} → ${successor.name} (${DEPENDENCY_TYPE_LABELS[type]})`,
+    });
+    if (!existing) syncDependencyToLinear('create', predecessor, successor);
+  };
+
+  const handleDeleteDependency = (fromId: string, toId: string) => {
+    const predecessor = tasks.find(t => t.id === fromId);
+    const successor = tasks.find(t => t.id === toId);
+    setSelectedLink(null);
+    if (!predecessor || !successor) return;
+
+    const dependencies = (successor.dependencies || []).filter(d => d.taskId !== fromId);
+    setTasks(tasks.map(t =>
+      t.id === toId ? { ...t, dependencies: dependencies.length > 0 ? dependencies : undefined } : t
+    ));
+    toast.success('의존성 삭제됨', { description: `${predecessor.name} → ${successor.name}` });
+    syncDependencyToLinear('delete', predecessor, successor);
+  };
+
+  // Finds the bar under the pointer and which half of it (start or end) is targeted
+  const getLinkTargetAt = (x: number, y: number) => {
+    const element = document.elementFromPoint(x, y)?.closest('[data-link-target]') as HTMLElement | null;
+    const targetId = element?.dataset.linkTarget;
+    if (!element || !targetId) return {};
+    const rect = element.getBoundingClientRect();
+    const targetSide: 'start' | 'end' = x < rect.left + rect.width / 2 ? 'start' : 'end';
+    return { targetId, targetSide };
+  };
+
+  const handleLinkStart = (taskId: string, side: 'start' | 'end', e: React.MouseEvent) => {
+    setSelectedLink(null);
+    setLinkDraft({ fromId: taskId, fromSide: side, startX: e.clientX, startY: e.clientY, x: e.clientX, y: e.clientY });
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      const target = getLinkTargetAt(moveEvent.clientX, moveEvent.clientY);
+      setLinkDraft(prev => prev && {
+        ...prev,
+        x: moveEvent.clientX,
+        y: moveEvent.clientY,
+        ...(target.targetId !== taskId ? target : { targetId: undefined, targetSide: undefined }),
+      });
+    };
+
+    const handleEnd = (upEvent: MouseEvent) => {
+      document.removeEventListener('mousemove', handleMove);
+      document.removeEventListener('mouseup', handleEnd);
+      setLinkDraft(null);
+
+      const { targetId, targetSide } = getLinkTargetAt(upEvent.clientX, upEvent.clientY);
+      if (targetId && targetSide && targetId !== taskId) {
+        handleCreateDependency(taskId, targetId, getDependencyTypeForAnchors(side, targetSide));
+      }
+    };
+
+    document.addEventListener('mousemove', handleMove);
+    document.addEventListener('mouseup', handleEnd);
+  };
+
+  // Resource leveling delays a batch of tasks; commit them as one undo step
+  const handleApplyLeveling = (changes: Map<string, ScheduleChange>) => {
+    const changedTasks = tasks
+      .filter(t => changes.has(t.id))
+      .map(t => ({ ...t, ...changes.get(t.id)! }));
+    setTasks(prev => prev.map(t => (changes.has(t.id) ? { ...t, ...changes.get(t.id)! } : t)));
+    toast.success('리소스 평준화 적용', { description: `작업 ${changedTasks.length}개의 일정이 조정되었습니다` });
+    syncTasksToLinear(changedTasks);
+  };
+
+  // People a selection can be assigned to: Linear users plus anyone already assigned locally
+  const assigneeOptions = useMemo(() => {
+    const byName = new Map<string, { id?: string; name: string; avatarUrl?: string }>();
+    linearUsers.forEach(u => byName.set(u.name, { id: u.id, name: u.name, avatarUrl: u.avatarUrl }));
+    tasks.forEach(t => {
+      if (t.assignee && !byName.has(t.assignee)) {
+        byName.set(t.assignee, { id: t.assigneeId, name: t.assignee, avatarUrl: t.assigneeAvatarUrl });
+      }
+    });
+    return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+  }, [linearUsers, tasks]);
+
+  // Runs the Linear updates of a bulk action together and reports them once
+  const syncBulkToLinear = async (requests: (() => Promise<boolean>)[]) => {
+    if (!linearApiKey || requests.length === 0) return;
+    setIsSyncing(true);
+    try {
+      const results = await Promise.all(requests.map(request => request()));
+      const failed = results.filter(success => !success).length;
+      if (failed > 0) {
+        toast.error('Linear 동기화 실패', { description: `이슈 ${failed}개를 업데이트하지 못했습니다` });
+      } else {
+        toast.success('Linear 동기화 완료', { description: `이슈 ${results.length}개 업데이트됨` });
+      }
+    } catch (error) {
+      console.error('Failed to sync bulk update to Linear:', error);
+      toast.error('Linear 동기화 실패');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Bulk actions on the selection; each one is a single undo step
+  const handleBulkShift = (days: number) => {
+    if (!Number.isInteger(days) || days === 0 || selectedTaskIds.size === 0) return;
+    const changed = shiftTasks(tasks, selectedTaskIds, days, timelineStart, {
+      autoSchedule: ganttSettings.autoSchedule,
+      calendar: workCalendar,
+    });
+    if (changed.size === 0) return;
+
+    setTasks(prev => prev.map(t => {
+      const moved = changed.get(t.id);
+      return moved ? { ...t, startDate: moved.startDate, endDate: moved.endDate, hasTime: moved.hasTime } : t;
+    }));
+    toast.success('일정 일괄 이동', {
+      description: `선택한 작업 ${selectedTaskIds.size}개를 ${days > 0 ? `${days}일 뒤로` : `${-days}일 앞으로`} 옮겼습니다`,
+    });
+    syncTasksToLinear([...changed.values()]);
+  };
+
+  const handleBulkAssign = (assignee: { id?: string; name: string; avatarUrl?: string } | null) => {
+    const selected = tasks.filter(t => selectedTaskIds.has(t.id));
+    if (selected.length === 0) return;
+    const fields = { assignee: assignee?.name, assigneeId: assignee?.id, assigneeAvatarUrl: assignee?.avatarUrl };
+    setTasks(tasks.map(t => (selectedTaskIds.has(t.id) ? { ...t, ...fields } : t)));
+    toast.success('담당자 일괄 변경', { description: `작업 ${selected.length}개 → ${assignee?.name ?? '미지정'}` });
+
+    const issues = selected.filter(t => t.linearIssueId);
+    if (assignee && !assignee.id && issues.length > 0) {
+      toast.warning('Linear 담당자 매핑 없음', { description: `${assignee.name}의 Linear 계정을 찾을 수 없어 로컬에만 반영됩니다` });
+      return;
+    }
+    syncBulkToLinear(issues.map(t => () =>
+      updateLinearIssueExtended(linearApiKey, t.linearIssueId!, { assigneeId: assignee?.id ?? null })
+    ));
+  };
+
+  const handleBulkPriority = (priority: NonNullable<Task['priority']>) => {
+    const selected = tasks.filter(t => selectedTaskIds.has(t.id));
+    if (selected.length === 0) return;
+    setTasks(tasks.map(t => (selectedTaskIds.has(t.id) ? { ...t, priority } : t)));
+    const label = PRIORITY_OPTIONS.find(option => option.value === priority)?.label ?? priority;
+    toast.success('우선순위 일괄 변경', { description: `작업 ${selected.length}개 → ${label}` });
+
+    syncBulkToLinear(selected.filter(t => t.linearIssueId).map(t => () =>
+      updateLinearIssueExtended(linearApiKey, t.linearIssueId!, { priority: priorityToLinear(priority) })
+    ));
+  };
+
+  // Deletes the selection with all of its subtasks
+  const confirmBulkDelete = async () => {
+    setBulkDeleteOpen(false);
+    const idsToDelete = new Set<string>();
+    const collect = (taskId: string) => {
+      idsToDelete.add(taskId);
+      getChildTasks(taskId).forEach(child => collect(child.id));
+    };
+    selectedTaskIds.forEach(id => collect(id));
+    const deleted = tasks.filter(t => idsToDelete.has(t.id));
+
+    setTasks(tasks.filter(t => !idsToDelete.has(t.id)));
+    setSelectedTaskIds(new Set());
+    toast.success('일괄 삭제됨', { description: `작업 ${deleted.length}개` });
+
+    await syncBulkToLinear(deleted
+      .filter(t => t.linearProjectId || t.linearIssueId)
+      .map(t => () => (t.linearProjectId
+        ? deleteLinearProject(linearApiKey, t.linearProjectId)
+        : deleteLinearIssue(linearApiKey, t.linearIssueId!))));
+  };
+
+  // Spreadsheet grid: WBS numbers, editor choices and inline cell edits
+  const wbsNumbers = useMemo(() => computeWbsNumbers(tasks), [tasks]);
+
+  const gridCellOptions = useMemo<GridCellOptions>(() => {
+    const labels = new Map<string, { id?: string; name: string; color: string }>();
+    tasks.forEach(t => t.labels?.forEach(label => {
+      if (!labels.has(label.name)) labels.set(label.name, label);
+    }));
+    return {
+      assignees: assigneeOptions,
+      priorities: PRIORITY_OPTIONS,
+      cycles: linearCycles,
+      labels: [...labels.values()].sort((a, b) => a.name.localeCompare(b.name, 'ko')),
+    };
+  }, [tasks, assigneeOptions, linearCycles]);
+
+  // Scrolls a row into view so the editor of one of its cells gets mounted
+  const scrollRowIntoView = (taskId: string) => {
+    const container = scrollContainerRef.current;
+    const list = taskListRef.current;
+    const index = organizedTasks.findIndex(t => t.id === taskId);
+    if (!container || !list || index < 0) return;
+    const listTop = list.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+    const top = listTop + rowOffsets[index];
+    const bottom = listTop + rowOffsets[index + 1];
+    const headerHeight = timelineHeaderRef.current?.offsetHeight ?? 0;
+    if (top - headerHeight < container.scrollTop) {
+      container.scrollTop = top - headerHeight;
+    } else if (bottom > container.scrollTop + container.clientHeight) {
+      container.scrollTop = bottom - container.clientHeight;
+    }
+  };
+
+  // Leaves edit mode unless the editor already moved on to another cell
+  const stopEditingCell = (taskId: string, column: GridColumnId) => {
+    setEditingCell(current => (current?.taskId === taskId && current.column === column ? null : current));
+  };
+
+  const handleGridCellCommit = (taskId: string, column: GridColumnId, value: GridCellValue, move?: GridMove) => {
+    const rowIds = organizedTasks.filter(t => !t.isGroupHeader).map(t => t.id);
+    const next = move ? getAdjacentCell(rowIds, visibleGridColumns.map(c => c.id), { taskId, column }, move) : null;
+    if (next) {
+      setEditingCell(next);
+      if (next.taskId !== taskId) scrollRowIntoView(next.taskId);
+    } else {
+      stopEditingCell(taskId, column);
+    }
+
+    const task = tasks.find(t => t.id === taskId);
+    if (task) applyGridCellEdit(task, column, value);
+  };
+
+  // Applies an edited cell as one undo step and pushes the field to Linear
+  const applyGridCellEdit = (task: Task, column: GridColumnId, value: GridCellValue) => {
+    const issueId = task.linearIssueId;
+    const update = (fields: Partial<Task>) => setTasks(tasks.map(t => (t.id === task.id ? { ...t, ...fields } : t)));
+    const sync = (request: () => Promise<boolean>) => syncBulkToLinear([request]);
+
+    switch (column) {
+      case 'name': {
+        const name = (value as string).trim();
+        if (!name || name === task.name) return;
+        update({ name });
+        if (task.linearProjectId) sync(() => updateLinearProject(linearApiKey, task.linearProjectId!, { name }));
+        else if (issueId) sync(() => updateLinearIssue(linearApiKey, issueId, { title: name }));
+        return;
+      }
+      case 'start':
+      case 'end':
+      case 'duration': {
+        // Summary parents take their dates from their children
+        if (hasChildren(task.id) && !task.rollupOverride) return;
+        const dates = getGridScheduleEdit(task, column, value as string);
+        if (!dates) {
+          toast.error('입력값을 확인하세요', {
+            description: column === 'duration'
+              ? '기간은 3, 2.5, 6h처럼 입력합니다'
+              : column === 'end' ? '종료일은 시작일보다 빠를 수 없습니다' : '날짜 형식이 올바르지 않습니다',
+          });
+          return;
+        }
+        if (dates.startDate.getTime() === task.startDate.getTime() && dates.endDate.getTime() === task.endDate.getTime()) return;
+
+        const changes = ganttSettings.autoSchedule
+          ? cascadeSchedule(tasks, task.id, dates.startDate, dates.endDate, workCalendar)
+          : new Map([[task.id, dates]]);
+        const changedTasks = tasks.filter(t => changes.has(t.id)).map(t => ({ ...t, ...changes.get(t.id)! }));
+        setTasks(tasks.map(t => (changes.has(t.id) ? { ...t, ...changes.get(t.id)! } : t)));
+        if (changedTasks.length > 1) {
+          toast.success('자동 일정 조정', { description: `연결된 작업 ${changedTasks.length - 1}개의 일정이 함께 변경되었습니다` });
+        }
+        syncTasksToLinear(changedTasks);
+        return;
+      }
+      case 'assignee': {
+        if (value === (task.assignee || '')) return;
+        const assignee = assigneeOptions.find(a => a.name === value);
+        update({ assignee: assignee?.name, assigneeId: assignee?.id, assigneeAvatarUrl: assignee?.avatarUrl });
+        if (!issueId) return;
+        if (assignee && !assignee.id) {
+          toast.warning('Linear 담당자 매핑 없음', { description: `${assignee.name}의 Linear 계정을 찾을 수 없어 로컬에만 반영됩니다` });
+          return;
+        }
+        sync(() => updateLinearIssueExtended(linearApiKey, issueId, { assigneeId: assignee?.id ?? null }));
+        return;
+      }
+      case 'estimate': {
+        const text = (value as string).trim();
+        const estimate = text === '' ? undefined : Number(text);
+        if (estimate !== undefined && !(estimate >= 0)) {
+          toast.error('입력값을 확인하세요', { description: '추정치는 0 이상의 숫자여야 합니다' });
+          return;
+        }
+        if (estimate === task.estimate) return;
+        update({ estimate });
+        if (issueId) sync(() => updateLinearIssueExtended(linearApiKey, issueId, { estimate: estimate ?? null }));
+        return;
+      }
+      case 'priority': {
+        const priority = value as NonNullable<Task['priority']>;
+        if (priority === (task.priority || 'none')) return;
+        update({ priority });
+        if (issueId) sync(() => updateLinearIssueExtended(linearApiKey, issueId, { priority: priorityToLinear(priority) }));
+        return;
+      }
+      case 'status': {
+        const change = getLaneChange(task, 'status', value as string, tasks);
+        if (!change) return;
+        update(change);
+        if (issueId) {
+          sync(async () => {
+            const stateId = await findLinearStateForLane(task, value as string);
+            return !!stateId && updateLinearIssueState(linearApiKey, issueId, stateId);
+          });
+        }
+        return;
+      }
+      case 'cycle': {
+        const cycleId = value as string;
+        if (cycleId === (task.cycleId || '')) return;
+        const cycleName = linearCycles.find(c => c.id === cycleId)?.name;
+        update({ cycleId: cycleId || undefined, cycleName: cycleId ? cycleName ?? task.cycleName : undefined });
+        if (issueId) {
+          sync(() => (cycleId ? addIssueToCycle(linearApiKey, issueId, cycleId) : removeIssueFromCycle(linearApiKey, issueId)));
+        }
+        return;
+      }
+      case 'labels': {
+        const names = value as string[];
+        const current = (task.labels || []).map(l => l.name);
+        if (names.length === current.length && names.every(name => current.includes(name))) return;
+        const labels = names
+          .map(name => gridCellOptions.labels.find(l => l.name === name))
+          .filter((label): label is { id?: string; name: string; color: string } => !!label);
+        update({ labels });
+        if (!issueId) return;
+        if (labels.some(l => !l.id)) {
+          toast.warning('Linear 라벨 매핑 없음', { description: 'Linear에 없는 라벨은 로컬에만 반영됩니다' });
+        }
+        sync(() => updateLinearIssueExtended(linearApiKey, issueId, { labelIds: labels.filter(l => l.id).map(l => l.id!) }));
+        return;
+      }
+    }
+  };
+
+  // Grid header: drag a column onto another to move it there
+  const handleColumnDrop = (e: React.DragEvent, targetId: GridColumnId) => {
+    e.preventDefault();
+    if (draggedColumnId) setGridColumns(prev => moveGridColumn(prev, draggedColumnId, targetId));
+    setDraggedColumnId(null);
+  };
+
+  const toggleGridColumn = (columnId: GridColumnId) => {
+    setGridColumns(prev => prev.map(c => (c.id === columnId ? { ...c, visible: !c.visible } : c)));
+  };
+
+  // Switching to manual keeps the current summary as the starting point so nothing jumps
+  const handleToggleRollupOverride = (taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    const summary = rolledUpTasks.find(t => t.id === taskId) || task;
+    const rollupOverride = !task.rollupOverride;
+    setTasks(tasks.map(t =>
+      t.id === taskId
+        ? rollupOverride
+          ? { ...t, rollupOverride, startDate: summary.startDate, endDate: summary.endDate, progress: summary.progress }
+          : { ...t, rollupOverride: undefined }
+        : t
+    ));
+    toast.success(rollupOverride ? '수동 지정으로 전환' : '자동 집계로 전환', {
+      description: rollupOverride ? `${task.name}: 일정·진행률을 직접 관리합니다` : `${task.name}: 하위 작업에서 계산합니다`,
+    });
+  };
+
+  const handleProgressChange = (taskId: string, progress: number) => {
+    const task = tasks.find(t => t.id === taskId);
+    setTasks(tasks.map(t =>
+      t.id === taskId ? { ...t, progress } : t
+    ));
+    toast.success('Progress updated', { description: `${task?.name}: ${progress}%` });
   };
 
   const handleLinearImport = (linearTasks: Task[]) => {
     const nonLinearTasks = tasks.filter(t => !t.linearProjectId && !t.linearIssueId);
-    setTasks([...nonLinearTasks, ...linearTasks]);
+    // Linear hands issues back in its own order; the ranks keep rows where they were
+    setTasks(sortBySortOrder([...nonLinearTasks, ...preserveLocalTimes(linearTasks, tasks)]));
 
     const projectIds = linearTasks
       .filter(t => t.linearProjectId)
@@ -1617,6 +3029,33 @@ export function GanttChart({ className }: GanttChartProps) {
     setIsDialogOpen(true);
   };
 
+  // Baselines
+  const activeBaseline = baselines.find(b => b.id === activeBaselineId) || null;
+
+  const openBaselineDialog = () => {
+    setBaselineName(`베이스라인 ${baselines.length + 1} (${new Date().toLocaleDateString('ko', { month: 'short', day: 'numeric' })})`);
+    setIsBaselineDialogOpen(true);
+  };
+
+  const handleSaveBaseline = () => {
+    if (!baselineName.trim()) {
+      toast.error('이름을 입력하세요');
+      return;
+    }
+    const baseline = createBaseline(baselineName.trim(), rolledUpTasks);
+    setBaselines(prev => [...prev, baseline]);
+    setActiveBaselineId(baseline.id);
+    setIsBaselineDialogOpen(false);
+    toast.success('베이스라인 저장됨', { description: `${baseline.name} · ${tasks.length}개 태스크` });
+  };
+
+  const handleDeleteBaseline = (baselineId: string) => {
+    const baseline = baselines.find(b => b.id === baselineId);
+    setBaselines(prev => prev.filter(b => b.id !== baselineId));
+    if (activeBaselineId === baselineId) setActiveBaselineId(null);
+    toast.success('베이스라인 삭제됨', { description: baseline?.name });
+  };
+
   // Clear all data
   const handleClearAllData = () => {
     if (window.confirm('Are you sure you want to clear all tasks? This cannot be undone.')) {
@@ -1634,7 +3073,40 @@ export function GanttChart({ className }: GanttChartProps) {
     return date.toLocaleDateString('ko', { year: 'numeric', month: 'short', day: 'numeric' });
   };
 
-  const organizedTasks = organizeTasksHierarchically();
+  const organizedTasks = useMemo(() => {
+    // Parents follow their children live, including while a bar is being dragged
+    const previewedTasks = dragPreview
+      ? tasks.map(t => {
+          const previewTask = dragPreview.tasks.get(t.id);
+          return previewTask
+            ? { ...t, startDate: previewTask.startDate, endDate: previewTask.endDate, hasTime: previewTask.hasTime }
+            : t;
+        })
+      : tasks;
+    const rollups = computeRollups(previewedTasks);
+
+    return organizeTasksHierarchically().map(task => {
+      const previewTask = dragPreview?.tasks.get(task.id);
+      const rollup = rollups.get(task.id);
+      if (rollup && !rollup.isOverride) {
+        return { ...task, startDate: rollup.startDate, endDate: rollup.endDate, progress: rollup.progress };
+      }
+      return previewTask ? { ...task, startDate: previewTask.startDate, endDate: previewTask.endDate } : task;
+    });
+  }, [tasks, rolledUpTasks, filteredTasks, childrenByParent, collapsedTasks, groupBy, dragPreview]);
+
+  // Only rows inside the scroll viewport (plus overscan) are mounted
+  const rowOffsets = useMemo(
+    () => computeRowOffsets(organizedTasks, ganttSettings.rowHeight),
+    [organizedTasks, ganttSettings.rowHeight]
+  );
+  rowOffsetsRef.current = rowOffsets;
+  const visibleRows = organizedTasks.slice(visibleRange.start, visibleRange.end);
+
+  // Row heights, the row list or the timeline span changed without a scroll event
+  useEffect(() => {
+    updateVisibleRange();
+  }, [rowOffsets, totalDays, isLoading, updateVisibleRange]);
 
   // Show loading skeleton
   if (isLoading) {
@@ -1693,7 +3165,7 @@ export function GanttChart({ className }: GanttChartProps) {
 
               {/* View Mode Selector */}
               <div className="flex items-center gap-1.5">
-                <Select value={viewMode} onValueChange={(v) => setViewMode(v as ViewMode)}>
+                <Select value={viewMode} onValueChange={(v) => applyViewMode(v as ViewMode)}>
                   <SelectTrigger className="w-[130px] h-8 text-xs bg-background border-border/60 hover:border-border focus:ring-1 focus:ring-primary/20">
                     <SelectValue />
                   </SelectTrigger>
@@ -1709,7 +3181,7 @@ export function GanttChart({ className }: GanttChartProps) {
                 <div className="flex items-center bg-muted/30 rounded-md p-0.5">
                   <Tooltip>
                     <TooltipTrigger asChild>
-                      <Button variant="ghost" size="icon" className="h-7 w-7 hover:bg-background" onClick={zoomIn} disabled={viewMode === 'day'}>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 hover:bg-background" onClick={zoomIn} disabled={pixelsPerDay >= MAX_PIXELS_PER_DAY}>
                         <ZoomIn className="h-3.5 w-3.5" />
                       </Button>
                     </TooltipTrigger>
@@ -1727,11 +3199,22 @@ export function GanttChart({ className }: GanttChartProps) {
                   <div className="w-px h-4 bg-border/50" />
                   <Tooltip>
                     <TooltipTrigger asChild>
-                      <Button variant="ghost" size="icon" className="h-7 w-7 hover:bg-background" onClick={zoomOut} disabled={viewMode === 'year'}>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 hover:bg-background" onClick={zoomOut} disabled={pixelsPerDay <= MIN_PIXELS_PER_DAY}>
                         <ZoomOut className="h-3.5 w-3.5" />
                       </Button>
                     </TooltipTrigger>
-                    <TooltipContent side="bottom" className="text-xs">축소 (-)</TooltipContent>
+                    <TooltipContent side="bottom" className="text-xs">축소 (-) · Ctrl+휠로 연속 확대/축소</TooltipContent>
+                  </Tooltip>
+                  <div className="w-px h-4 bg-border/50" />
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 hover:bg-background" onClick={zoomToFit}>
+                        <Maximize2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom" className="text-xs">
+                      {selectedTaskIds.size > 0 ? `선택한 작업 ${selectedTaskIds.size}개에 맞추기 (F)` : '전체 화면에 맞추기 (F)'}
+                    </TooltipContent>
                   </Tooltip>
                 </div>
               </div>
@@ -1800,9 +3283,102 @@ export function GanttChart({ className }: GanttChartProps) {
                 </Tooltip>
               </div>
 
+              {/* Baselines */}
+              <DropdownMenu>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant={activeBaseline ? 'secondary' : 'ghost'}
+                        size="icon"
+                        className="h-8 w-8"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom" className="text-xs">
+                    베이스라인{activeBaseline ? `: ${activeBaseline.name}` : ''}
+                  </TooltipContent>
+                </Tooltip>
+                <DropdownMenuContent align="end" className="w-64">
+                  <DropdownMenuItem onClick={openBaselineDialog} disabled={tasks.length === 0} className="text-sm py-2 cursor-pointer font-medium gap-2">
+                    <Plus className="h-3.5 w-3.5" />
+                    현재 일정을 베이스라인으로 저장
+                  </DropdownMenuItem>
+                  {baselines.length > 0 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel className="text-xs text-muted-foreground">비교할 베이스라인</DropdownMenuLabel>
+                      <DropdownMenuItem onClick={() => setActiveBaselineId(null)} className="text-sm py-2 cursor-pointer gap-2">
+                        <Check className={`h-3.5 w-3.5 ${activeBaseline ? 'opacity-0' : ''}`} />
+                        표시 안 함
+                      </DropdownMenuItem>
+                      {baselines.map((baseline) => (
+                        <DropdownMenuItem
+                          key={baseline.id}
+                          onClick={() => setActiveBaselineId(baseline.id)}
+                          className="text-sm py-2 cursor-pointer gap-2 group/baseline"
+                        >
+                          <Check className={`h-3.5 w-3.5 flex-shrink-0 ${activeBaselineId === baseline.id ? '' : 'opacity-0'}`} />
+                          <span className="flex-1 truncate">{baseline.name}</span>
+                          <button
+                            type="button"
+                            className="h-6 w-6 flex items-center justify-center rounded text-muted-foreground hover:text-destructive"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteBaseline(baseline.id);
+                            }}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </DropdownMenuItem>
+                      ))}
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              {/* Critical Path Toggle */}
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant={ganttSettings.showCriticalPath ? 'secondary' : 'ghost'}
+                    size="icon"
+                    className={`h-8 w-8 ${ganttSettings.showCriticalPath ? 'text-red-600 dark:text-red-400' : ''}`}
+                    onClick={() => setGanttSettings({ ...ganttSettings, showCriticalPath: !ganttSettings.showCriticalPath })}
+                    aria-pressed={ganttSettings.showCriticalPath}
+                  >
+                    <Route className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom" className="text-xs">
+                  크리티컬 패스 {ganttSettings.showCriticalPath ? '숨기기' : '강조'}
+                </TooltipContent>
+              </Tooltip>
+
+              <WorkCalendarSettings calendar={workCalendar} onCalendarChange={setWorkCalendar} assignees={assigneeNames} />
+              <ResourceLoadView
+                tasks={tasks}
+                calendar={workCalendar}
+                capacity={resourceCapacity}
+                onCapacityChange={setResourceCapacity}
+                onApplyLeveling={handleApplyLeveling}
+              />
+
               <GanttSettings settings={ganttSettings} onSettingsChange={setGanttSettings} />
 
-              <ExportMenu tasks={tasks} projectName="간트 차트" />
+              <ExportMenu
+                tasks={rolledUpTasks}
+                baselines={baselines}
+                calendar={workCalendar}
+                projectName="간트 차트"
+                timelineRows={organizedTasks}
+                timelineStart={timelineStart}
+                timelineEnd={timelineEnd}
+                pixelsPerDay={pixelsPerDay}
+                showDependencies={ganttSettings.showDependencyLines}
+              />
 
               {/* Linear Sync */}
               <LinearSync
@@ -1966,9 +3542,17 @@ export function GanttChart({ className }: GanttChartProps) {
           )}
 
           {/* Filter Results Info */}
-          {(searchQuery || filterStatuses.length > 0 || filterAssignees.length > 0 || filterPriorities.length > 0 || filterTeams.length > 0) && tasks.length > 0 && (
+          {(searchQuery || filterStatuses.length > 0 || filterAssignees.length > 0 || filterPriorities.length > 0 || filterTeams.length > 0 || filterCycleId) && tasks.length > 0 && (
             <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
               <span>{filteredTasks.length}개 / 전체 {tasks.length}개</span>
+              {filterCycle && (
+                <span className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-md" style={{ backgroundColor: 'rgba(99, 102, 241, 0.12)', color: '#4f46e5' }}>
+                  스프린트: {filterCycle.name}
+                  <button onClick={() => setFilterCycleId(null)} aria-label="스프린트 필터 해제">
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -1978,6 +3562,7 @@ export function GanttChart({ className }: GanttChartProps) {
                   setFilterAssignees([]);
                   setFilterPriorities([]);
                   setFilterTeams([]);
+                  setFilterCycleId(null);
                 }}
                 className="h-6 text-xs"
               >
@@ -2015,140 +3600,326 @@ export function GanttChart({ className }: GanttChartProps) {
 
           {/* Gantt Chart */}
           {tasks.length > 0 && (
-            <div ref={scrollContainerRef} className="overflow-auto -mx-4 md:mx-0 rounded-xl border border-border/50 shadow-sm smooth-scroll max-h-[calc(100vh-280px)]">
-              <div className="min-w-[800px] md:min-w-[1200px] px-4 md:px-0">
+            <div ref={scrollContainerRef} onScroll={handleTimelineScroll} className="overflow-auto -mx-4 md:mx-0 rounded-xl border border-border/50 shadow-sm smooth-scroll max-h-[calc(100vh-280px)]">
+              <div className="px-4 md:px-0" style={{ width: taskColumnWidth + timelineWidth, minWidth: '100%' }}>
                 {/* Timeline Header - Professional Design */}
-                <div className="flex border-b-2 border-border/70 sticky top-0 z-30 bg-gradient-to-b from-muted/60 to-muted/40 backdrop-blur-md relative">
-                  <div
-                    className="px-5 py-4 border-r border-border/60 flex items-center gap-3 flex-shrink-0"
-                    style={{ width: taskColumnWidth }}
-                  >
-                    <span className="text-[15px] font-bold text-foreground uppercase tracking-wider">태스크</span>
-                    <span className="text-[13px] text-muted-foreground/90 px-2.5 py-1 bg-background/80 rounded-lg tabular-nums font-bold shadow-sm">{organizedTasks.length}</span>
-                  </div>
-                  <div className="flex-1 relative">
-                    <div className="flex">
-                      {monthHeaders.map((month, index) => {
-                        const isToday = month.date.toDateString() === new Date().toDateString();
-                        return (
-                          <div
-                            key={index}
-                            className={`flex-1 min-w-[44px] py-3 px-2 text-center border-r border-border/40 transition-all duration-200 ${
-                              isToday ? 'bg-blue-500/15 border-blue-500/40' : 'hover:bg-muted/50'
-                            }`}
-                            style={{ width: `${month.width}%` }}
-                          >
-                            <div className={`text-[13px] font-bold tabular-nums leading-tight ${isToday ? 'text-blue-600 dark:text-blue-400' : 'text-foreground'}`}>
-                              {month.date.getDate()}
-                            </div>
-                            <div className={`text-[11px] font-medium truncate leading-tight mt-1 ${isToday ? 'text-blue-500/90 dark:text-blue-400/80' : 'text-muted-foreground/80'}`}>
-                              {month.label}
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
+                <div ref={timelineHeaderRef} className="flex border-b-2 border-border/70 sticky top-0 z-30 bg-gradient-to-b from-muted/60 to-muted/40 backdrop-blur-md relative" style={{ zIndex: 50 }}>
+                  <div className="flex flex-shrink-0" style={{ width: taskColumnWidth, ...stickyColumnStyle }}>
+                    {visibleGridColumns.map((column) => (
+                      <div
+                        key={column.id}
+                        draggable={!isResizingColumn}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          setDraggedColumnId(column.id);
+                        }}
+                        onDragOver={(e) => draggedColumnId && e.preventDefault()}
+                        onDrop={(e) => handleColumnDrop(e, column.id)}
+                        onDragEnd={() => setDraggedColumnId(null)}
+                        className={`relative border-r border-border/60 flex items-center flex-shrink-0 cursor-grab ${
+                          column.id === 'name' ? 'px-5 py-4 gap-3' : 'px-2 text-[11px] font-bold text-muted-foreground uppercase tracking-wider'
+                        }`}
+                        style={{ width: column.width, opacity: draggedColumnId === column.id ? 0.5 : undefined }}
+                      >
+                        {column.id === 'name' ? (
+                          <>
+                            <span className="text-[15px] font-bold text-foreground uppercase tracking-wider">태스크</span>
+                            <span className="text-[13px] text-muted-foreground/90 px-2.5 py-1 bg-background/80 rounded-lg tabular-nums font-bold shadow-sm">{organizedTasks.length}</span>
+                            {activeBaseline && (
+                              <span className="ml-auto text-[11px] font-bold text-muted-foreground uppercase tracking-wider" title={`${activeBaseline.name} 대비 종료일 차이`}>
+                                차이
+                              </span>
+                            )}
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <button
+                                  className={`h-7 w-7 flex items-center justify-center rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted/80 ${activeBaseline ? '' : 'ml-auto'}`}
+                                  title="열 설정"
+                                >
+                                  <Columns3 className="h-4 w-4" />
+                                </button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="start" className="w-44">
+                                <DropdownMenuLabel className="text-xs">표시할 열</DropdownMenuLabel>
+                                {gridColumns.filter(c => c.id !== 'name').map((c) => (
+                                  <DropdownMenuCheckboxItem
+                                    key={c.id}
+                                    checked={c.visible}
+                                    onCheckedChange={() => toggleGridColumn(c.id)}
+                                    onSelect={(e: Event) => e.preventDefault()}
+                                    className="text-sm"
+                                  >
+                                    {GRID_COLUMN_LABELS[c.id]}
+                                  </DropdownMenuCheckboxItem>
+                                ))}
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => setGridColumns(defaultGridColumns)} className="text-sm cursor-pointer">
+                                  기본값으로 재설정
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </>
+                        ) : (
+                          <span className="truncate">{GRID_COLUMN_LABELS[column.id]}</span>
+                        )}
+                        {/* Resize handle */}
+                        <div
+                          className="absolute top-0 bottom-0 -right-1 w-2 cursor-col-resize z-10 hover:bg-primary/30"
+                          onMouseDown={(e) => handleColumnResizeStart(e, column.id)}
+                          onDragStart={(e) => e.preventDefault()}
+                        />
+                      </div>
+                    ))}
                   </div>
-                </div>
-
-                {/* Sprint/Cycle Visualization Row */}
-                {linearCycles.length > 0 && (
-                  <div className="flex border-b border-border/50 bg-gradient-to-r from-violet-50/50 via-indigo-50/30 to-purple-50/50 dark:from-violet-950/20 dark:via-indigo-950/10 dark:to-purple-950/20">
-                    <div
-                      className="px-5 py-2 border-r border-border/50 flex items-center gap-2 flex-shrink-0 text-xs font-medium text-muted-foreground"
-                      style={{ width: taskColumnWidth }}
-                    >
-                      <span className="bg-violet-100 dark:bg-violet-900/50 text-violet-700 dark:text-violet-300 px-2 py-0.5 rounded-md">
-                        스프린트
-                      </span>
-                    </div>
-                    <div className="flex-1 relative h-8">
-                      {linearCycles.map((cycle) => {
-                        const cycleStart = cycle.startsAt;
-                        const cycleEnd = cycle.endsAt;
-
-                        // Calculate position
-                        const startDiff = Math.max(0, (cycleStart.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24));
-                        const endDiff = Math.min(totalDays, (cycleEnd.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24));
-
-                        // Skip if outside visible range
-                        if (startDiff >= totalDays || endDiff <= 0) return null;
-
-                        const leftPercent = (startDiff / totalDays) * 100;
-                        const widthPercent = ((endDiff - startDiff) / totalDays) * 100;
-
-                        const now = new Date();
-                        const isActive = now >= cycleStart && now <= cycleEnd;
-                        const isPast = now > cycleEnd;
-
-                        return (
-                          <Tooltip key={cycle.id}>
-                            <TooltipTrigger asChild>
-                              <div
-                                className={`absolute top-1 h-6 rounded-md flex items-center justify-center text-[10px] font-semibold shadow-sm border transition-all cursor-default ${
-                                  isActive
-                                    ? 'bg-gradient-to-r from-green-400 to-emerald-500 text-white border-green-500/50'
-                                    : isPast
-                                    ? 'bg-gradient-to-r from-gray-200 to-gray-300 dark:from-gray-700 dark:to-gray-600 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600'
-                                    : 'bg-gradient-to-r from-blue-400 to-indigo-500 text-white border-blue-500/50'
-                                }`}
-                                style={{
-                                  left: `${leftPercent}%`,
-                                  width: `${Math.max(widthPercent, 3)}%`,
-                                  minWidth: '60px',
-                                }}
-                              >
-                                <span className="truncate px-2">{cycle.name}</span>
+                  <div className="flex-1 relative" style={{ height: 52 + cycleBandHeight }}>
+                    {/* Upper tier (e.g. months above days) */}
+                    {headerTiers.upper && visibleUpperCells.map((cell) => (
+                      <div
+                        key={`upper-${cell.date.getTime()}`}
+                        className="absolute top-0 px-2 flex items-center border-r border-border/40 text-[11px] font-semibold text-muted-foreground/90 whitespace-nowrap"
+                        style={{ left: `${(cell.startDay / totalDays) * 100}%`, width: `${(cell.days / totalDays) * 100}%`, height: 22 }}
+                      >
+                        <span className="sticky" style={{ left: taskColumnWidth + 8 }}>{cell.label}</span>
+                      </div>
+                    ))}
+                    {/* Lower tier: the finest unit that fits the current zoom */}
+                    {visibleLowerCells.map((cell) => {
+                      const cellEnd = cell.startDay + cell.days;
+                      const todayDay = (todayPosition / 100) * totalDays;
+                      const isToday = todayDay >= cell.startDay && todayDay < cellEnd && headerTiers.lower === 'day';
+                      // Day headers mark holidays and non-working weekdays
+                      const nonWorking = headerTiers.lower === 'day' ? dayMarkers[cell.startDay]?.nonWorking : null;
+                      return (
+                        <div
+                          key={`lower-${cell.date.getTime()}`}
+                          className={`absolute flex items-center justify-center border-r border-border/40 overflow-hidden whitespace-nowrap text-[12px] font-bold tabular-nums ${
+                            isToday ? 'bg-blue-500/15 text-blue-600 dark:text-blue-400' : 'text-foreground'
+                          }`}
+                          style={{
+                            left: `${(cell.startDay / totalDays) * 100}%`,
+                            width: `${(cell.days / totalDays) * 100}%`,
+                            top: headerTiers.upper ? 22 : 0,
+                            bottom: cycleBandHeight,
+                            ...(!isToday && nonWorking ? { color: nonWorking.kind === 'holiday' ? '#ef4444' : '#f43f5e99' } : {}),
+                          }}
+                          title={nonWorking?.kind === 'holiday' ? nonWorking.name : undefined}
+                        >
+                          {cell.label}
+                        </div>
+                      );
+                    })}
+                    {/* Cycle band: one chip per Linear cycle, click to show only its issues */}
+                    {cycleBandHeight > 0 && linearCycles.map((cycle) => {
+                      const span = getCycleSpanDays(cycle, timelineStart);
+                      const from = Math.max(0, span.from);
+                      const to = Math.min(totalDays, span.to);
+                      if (to <= from) return null;
+
+                      const isActive = activeCycle?.id === cycle.id;
+                      const isPast = !isActive && cycle.endsAt <= new Date();
+                      const isFiltered = filterCycleId === cycle.id;
+                      const color = isActive ? '#10b981' : isPast ? '#9ca3af' : '#6366f1';
+                      // The range label shows the last day of the cycle, not the instant it ends
+                      const lastDay = new Date(cycle.endsAt.getTime() - 1);
+                      const formatDay = (date: Date) => `${date.getMonth() + 1}/${date.getDate()}`;
+                      return (
+                        <Tooltip key={cycle.id}>
+                          <TooltipTrigger asChild>
+                            <button
+                              className="absolute flex items-center gap-1.5 px-2 rounded-md text-[11px] font-semibold whitespace-nowrap overflow-hidden transition-shadow"
+                              style={{
+                                left: `${(from / totalDays) * 100}%`,
+                                width: `${((to - from) / totalDays) * 100}%`,
+                                top: 52 + 2,
+                                height: cycleBandHeight - 4,
+                                backgroundColor: `${color}${isActive || isFiltered ? '33' : '1f'}`,
+                                color,
+                                border: `1px solid ${color}${isActive ? '' : '66'}`,
+                                boxShadow: isFiltered ? `0 0 0 2px var(--background), 0 0 0 3px ${color}` : undefined,
+                              }}
+                              onClick={() => setFilterCycleId(isFiltered ? null : cycle.id)}
+                            >
+                              <span className="truncate">
+                                {cycle.name}
+                                <span className="font-normal opacity-80"> · {formatDay(cycle.startsAt)} – {formatDay(lastDay)}</span>
+                              </span>
+                            </button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <div className="text-xs">
+                              <div className="font-semibold">{cycle.name}</div>
+                              <div className="text-muted-foreground">
+                                {cycle.startsAt.toLocaleDateString('ko')} ~ {lastDay.toLocaleDateString('ko')}
                               </div>
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <div className="text-xs">
-                                <div className="font-semibold">{cycle.name}</div>
-                                <div className="text-muted-foreground">
-                                  {cycleStart.toLocaleDateString('ko')} ~ {cycleEnd.toLocaleDateString('ko')}
-                                </div>
-                                <div className={`mt-1 ${isActive ? 'text-green-500' : isPast ? 'text-gray-500' : 'text-blue-500'}`}>
-                                  {isActive ? '진행 중' : isPast ? '완료됨' : '예정됨'}
-                                </div>
+                              <div className="mt-1" style={{ color }}>
+                                {isActive ? '진행 중' : isPast ? '완료됨' : '예정됨'}
                               </div>
-                            </TooltipContent>
-                          </Tooltip>
-                        );
-                      })}
-                    </div>
+                              <div className="mt-1 text-muted-foreground">
+                                {isFiltered ? '클릭하면 필터를 해제합니다' : '클릭하면 이 스프린트의 이슈만 표시합니다'}
+                              </div>
+                            </div>
+                          </TooltipContent>
+                        </Tooltip>
+                      );
+                    })}
                   </div>
-                )}
+                </div>
 
                 {/* Task Rows */}
-                <div role="list" aria-label="Task list" className="relative">
+                <div
+                  ref={taskListRef}
+                  role="list"
+                  aria-label="Task list"
+                  className="relative"
+                  onMouseDown={handleSelectionBoxStart}
+                  onDragOver={handleBacklogDragOver}
+                  onDragLeave={handleBacklogDragLeave}
+                  onDrop={handleBacklogDrop}
+                >
+                  {backlogDropTarget && (
+                    <>
+                      {/* Day the dropped backlog item will start on, and the row it will follow */}
+                      <div
+                        className="absolute top-0 bottom-0 pointer-events-none z-30"
+                        style={{
+                          left: `calc(${taskColumnWidth}px + (100% - ${taskColumnWidth}px) * ${backlogDropTarget.day / totalDays})`,
+                          width: `calc((100% - ${taskColumnWidth}px) / ${totalDays})`,
+                          minWidth: 2,
+                          backgroundColor: 'rgba(99, 102, 241, 0.15)',
+                          borderLeft: '2px dashed #6366f1',
+                        }}
+                      />
+                      {backlogDropTarget.rowIndex >= 0 && (
+                        <div
+                          className="absolute left-0 right-0 pointer-events-none z-30"
+                          style={{
+                            top: rowOffsets[backlogDropTarget.rowIndex + 1] - 1,
+                            height: 2,
+                            backgroundColor: '#6366f1',
+                          }}
+                        />
+                      )}
+                    </>
+                  )}
+                  {selectionBox && (
+                    <div
+                      className="absolute pointer-events-none z-40 rounded-sm"
+                      style={{
+                        left: Math.min(selectionBox.x0, selectionBox.x1),
+                        top: Math.min(selectionBox.y0, selectionBox.y1),
+                        width: Math.abs(selectionBox.x1 - selectionBox.x0),
+                        height: Math.abs(selectionBox.y1 - selectionBox.y0),
+                        border: '1px solid #6366f1',
+                        backgroundColor: 'rgba(99, 102, 241, 0.12)',
+                      }}
+                    />
+                  )}
                   {/* Dependency Lines */}
                   <DependencyLines
                     tasks={organizedTasks}
                     timelineStart={timelineStart}
                     totalDays={totalDays}
-                    rowHeight={ganttSettings.rowHeight}
+                    rowOffsets={rowOffsets}
+                    visibleRange={visibleRange}
                     showDependencyLines={ganttSettings.showDependencyLines}
+                    criticalLinks={criticalPath?.criticalLinks}
+                    cyclicLinks={cyclicLinks}
+                    taskColumnWidth={taskColumnWidth}
+                    selectedLinkKey={selectedLink && getLinkKey(selectedLink.fromId, selectedLink.toId)}
+                    onLinkSelect={(fromId, toId) => setSelectedLink({ fromId, toId })}
+                    onLinkDelete={handleDeleteDependency}
                   />
-                {organizedTasks.map((task, index) => {
+                  {/* Rubber band while dragging a new dependency */}
+                  {linkDraft && (
+                    <svg className="fixed inset-0 pointer-events-none z-50" style={{ width: '100vw', height: '100vh' }}>
+                      <line
+                        x1={linkDraft.startX}
+                        y1={linkDraft.startY}
+                        x2={linkDraft.x}
+                        y2={linkDraft.y}
+                        stroke="#6366f1"
+                        strokeWidth="2"
+                        strokeDasharray="6,3"
+                      />
+                      <circle cx={linkDraft.x} cy={linkDraft.y} r="4" fill="#6366f1" />
+                      {linkDraft.targetId && linkDraft.targetSide && (
+                        <text
+                          x={linkDraft.x + 10}
+                          y={linkDraft.y - 10}
+                          fontSize="11"
+                          fontWeight={700}
+                          fill="#6366f1"
+                          stroke="var(--background)"
+                          strokeWidth="3"
+                          paintOrder="stroke"
+                        >
+                          {getDependencyTypeForAnchors(linkDraft.fromSide, linkDraft.targetSide)}
+                        </text>
+                      )}
+                    </svg>
+                  )}
+                {/* Space of the unmounted rows above and below the viewport */}
+                <div style={{ height: rowOffsets[visibleRange.start] ?? 0 }} aria-hidden />
+                {visibleRows.map((task, visibleIndex) => {
+                  const index = visibleRange.start + visibleIndex;
                   // Handle group headers
                   if (task.isGroupHeader) {
+                    const laneKey = task.groupKey!;
+                    const isLaneCollapsed = isTaskCollapsed(task.id);
+                    const isLaneDropTarget = dragOverLaneKey === laneKey;
+                    // Summary bar spanning the lane's tasks
+                    const summary = task.laneSummary;
+                    const laneLeft = summary ? Math.max(0, (getTimelineOffsetDays(summary.startDate, timelineStart, summary.startHasTime) / totalDays) * 100) : 0;
+                    const laneRight = summary ? Math.min(100, (getTimelineOffsetDays(summary.endDate, timelineStart, summary.endHasTime) / totalDays) * 100) : 0;
                     return (
                       <div
                         key={task.id}
-                        className="flex border-b h-10 bg-gradient-to-r from-muted/80 via-muted/60 to-muted/40 sticky top-[52px] z-20"
+                        className="flex border-b h-10 bg-gradient-to-r from-muted/80 via-muted/60 to-muted/40 sticky top-[52px] z-20 transition-shadow"
+                        style={{
+                          zIndex: 47,
+                          boxShadow: isLaneDropTarget ? 'inset 0 0 0 2px hsl(var(--primary))' : undefined,
+                        }}
                         role="row"
+                        onDragOver={(e) => handleLaneDragOver(e, laneKey)}
+                        onDragLeave={() => setDragOverLaneKey(null)}
+                        onDrop={(e) => handleLaneDrop(e, laneKey)}
                       >
                         <div
                           className="px-5 border-r border-border/50 flex items-center gap-3 flex-shrink-0"
-                          style={{ width: taskColumnWidth }}
+                          style={{ width: taskColumnWidth, ...stickyColumnStyle }}
                         >
+                          <button
+                            className="h-6 w-6 -ml-2 flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/70 transition-all"
+                            onClick={() => toggleTaskCollapse(task.id)}
+                            title={isLaneCollapsed ? '레인 펼치기' : '레인 접기'}
+                          >
+                            {isLaneCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                          </button>
                           <Layers className="h-4 w-4 text-muted-foreground" />
-                          <span className="text-sm font-semibold text-foreground">{task.groupName}</span>
+                          <span className="text-sm font-semibold text-foreground truncate">{task.groupName}</span>
                           <span className="text-xs text-muted-foreground bg-background/80 px-2 py-0.5 rounded-full">
                             {task.groupCount}
                           </span>
+                          <span className="ml-auto text-xs text-muted-foreground tabular-nums">{task.progress}%</span>
+                        </div>
+                        <div className="flex-1 relative bg-muted/30">
+                          {laneRight > laneLeft && (
+                            <div
+                              className="absolute top-1/2 -translate-y-1/2 h-2.5 rounded-full overflow-hidden"
+                              style={{
+                                left: `${laneLeft}%`,
+                                width: `${laneRight - laneLeft}%`,
+                                backgroundColor: 'rgba(107, 114, 128, 0.25)',
+                              }}
+                              title={`${task.groupName} · ${task.startDate.toLocaleDateString('ko')} ~ ${task.endDate.toLocaleDateString('ko')} · ${task.progress}%`}
+                            >
+                              <div
+                                className="h-full rounded-full"
+                                style={{ width: `${task.progress}%`, backgroundColor: 'rgba(75, 85, 99, 0.7)' }}
+                              />
+                            </div>
+                          )}
                         </div>
-                        <div className="flex-1 bg-muted/30" />
                       </div>
                     );
                   }
@@ -2158,7 +3929,6 @@ export function GanttChart({ className }: GanttChartProps) {
                   const isCollapsed = isTaskCollapsed(task.id);
                   const level = task.level || 0;
                   const isEven = index % 2 === 0;
-                  const rowHeightClass = ganttSettings.rowHeight === 'compact' ? 'h-12' : ganttSettings.rowHeight === 'comfortable' ? 'h-18' : 'h-16';
                   const isDragOver = dragOverTaskId === task.id;
                   const isDragging = draggedTaskId === task.id;
 
@@ -2166,13 +3936,14 @@ export function GanttChart({ className }: GanttChartProps) {
                     <div
                       key={task.id}
                       data-task-id={task.id}
-                      draggable
+                      draggable={editingCell?.taskId !== task.id}
                       onDragStart={(e) => handleTaskDragStart(e, task.id)}
                       onDragEnd={handleTaskDragEnd}
                       onDragOver={(e) => handleTaskDragOver(e, task.id, task.parentId)}
                       onDragLeave={handleTaskDragLeave}
                       onDrop={(e) => handleTaskDrop(e, task.id)}
-                      className={`flex border-b group ${rowHeightClass} transition-all cursor-grab active:cursor-grabbing ${
+                      style={{ height: ROW_HEIGHT_PX[ganttSettings.rowHeight] }}
+                      className={`flex border-b group transition-all cursor-grab active:cursor-grabbing ${
                         isProject
                           ? 'bg-gradient-to-r from-primary/5 via-primary/3 to-transparent border-primary/20 hover:from-primary/10 hover:via-primary/5'
                           : `${isEven ? 'bg-background' : 'bg-muted/30'} border-border/30 hover:bg-accent/50`
@@ -2184,241 +3955,527 @@ export function GanttChart({ className }: GanttChartProps) {
                       role="listitem"
                       aria-label={`${task.name}, ${task.progress}% complete`}
                     >
-                      <div className="px-5 border-r border-border/50 flex items-center justify-between transition-colors flex-shrink-0" style={{ width: taskColumnWidth }}>
-                        <div className="flex items-center gap-2 w-full">
-                          {/* Drag Handle */}
-                          <div className="flex-shrink-0 text-muted-foreground/40 hover:text-muted-foreground cursor-grab active:cursor-grabbing opacity-0 group-hover:opacity-100 transition-opacity">
-                            <GripVertical className="h-4 w-4" />
-                          </div>
-
-                          {/* Indentation for hierarchy */}
-                          <div style={{ width: `${level * 20}px` }} className="flex-shrink-0" />
-
-                          {/* Collapse/Expand Button or Task Indicator */}
-                          {isParent ? (
-                            <button
-                              className={`h-6 w-6 flex items-center justify-center rounded-md transition-all ${
-                                isProject
-                                  ? 'bg-primary/10 text-primary hover:bg-primary/20'
-                                  : 'text-muted-foreground hover:text-foreground hover:bg-muted/70'
-                              }`}
-                              onClick={() => toggleTaskCollapse(task.id)}
-                            >
-                              {isCollapsed ? (
-                                <ChevronRight className="h-4 w-4" />
-                              ) : (
-                                <ChevronDown className="h-4 w-4" />
-                              )}
-                            </button>
-                          ) : (
-                            <div className={`h-6 w-6 flex items-center justify-center rounded-md ${
-                              isProject ? 'bg-primary/10' : 'bg-muted/50'
-                            }`}>
-                              <div className={`w-1.5 h-1.5 rounded-full ${isProject ? 'bg-primary' : 'bg-muted-foreground/50'}`} />
-                            </div>
-                          )}
-
-                          {/* Project/Task color indicator - vertical bar */}
-                          <div
-                            className={`rounded-full flex-shrink-0 shadow-sm ${isProject ? 'w-1.5 h-10' : 'w-1 h-7'}`}
-                            style={{ backgroundColor: task.color }}
+                      <div
+                        className="flex flex-shrink-0 transition-colors"
+                        style={{
+                          width: taskColumnWidth,
+                          ...stickyColumnStyle,
+                          ...(selectedTaskIds.has(task.id) ? { boxShadow: 'inset 3px 0 0 #6366f1, inset 0 0 0 9999px rgba(99, 102, 241, 0.08)' } : {}),
+                        }}
+                        onClick={(e) => {
+                          if (e.metaKey || e.ctrlKey) toggleTaskSelection(task.id);
+                        }}
+                      >
+                        {visibleGridColumns.map((column) => column.id !== 'name' ? (
+                          <GridCell
+                            key={column.id}
+                            task={task}
+                            column={column.id}
+                            width={column.width}
+                            wbsNumber={wbsNumbers.get(task.id)}
+                            readOnly={isParent && !task.rollupOverride && (column.id === 'start' || column.id === 'end' || column.id === 'duration')}
+                            isEditing={editingCell?.taskId === task.id && editingCell.column === column.id}
+                            options={gridCellOptions}
+                            onStartEdit={() => setEditingCell({ taskId: task.id, column: column.id })}
+                            onCommit={(value, move) => handleGridCellCommit(task.id, column.id, value, move)}
+                            onCancel={() => stopEditingCell(task.id, column.id)}
                           />
+                        ) : (
+                          <div
+                            key="name"
+                            className="px-5 border-r border-border/50 flex items-center justify-between flex-shrink-0"
+                            style={{ width: column.width }}
+                          >
+                            <div className="flex items-center gap-2 w-full">
+                              {/* Drag Handle */}
+                              <div className="flex-shrink-0 text-muted-foreground/40 hover:text-muted-foreground cursor-grab active:cursor-grabbing opacity-0 group-hover:opacity-100 transition-opacity">
+                                <GripVertical className="h-4 w-4" />
+                              </div>
 
-                          <div className="flex-1 min-w-0 ml-2">
-                            <div className="flex items-center gap-2">
-                              {/* Project/Task Type Badge */}
-                              {isProject && (
-                                <span className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-primary/10 text-primary border border-primary/20 flex-shrink-0">
-                                  프로젝트
-                                </span>
-                              )}
-                              <span className={`leading-snug truncate flex-1 ${
-                                isProject
-                                  ? 'text-[15px] font-bold text-foreground tracking-tight'
-                                  : 'text-[13px] font-medium text-foreground/85'
-                              }`}>
-                                {task.name}
-                              </span>
-                              {/* Priority Badge */}
-                              {task.priority && task.priority !== 'none' && (
-                                <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded flex-shrink-0 ${
-                                  task.priority === 'urgent' ? 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-400' :
-                                  task.priority === 'high' ? 'bg-orange-100 text-orange-700 dark:bg-orange-500/20 dark:text-orange-400' :
-                                  task.priority === 'medium' ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-500/20 dark:text-yellow-400' :
-                                  'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-400'
+                              {/* Indentation for hierarchy */}
+                              <div style={{ width: `${level * 20}px` }} className="flex-shrink-0" />
+
+                              {/* Collapse/Expand Button or Task Indicator */}
+                              {isParent ? (
+                                <button
+                                  className={`h-6 w-6 flex items-center justify-center rounded-md transition-all ${
+                                    isProject
+                                      ? 'bg-primary/10 text-primary hover:bg-primary/20'
+                                      : 'text-muted-foreground hover:text-foreground hover:bg-muted/70'
+                                  }`}
+                                  onClick={() => toggleTaskCollapse(task.id)}
+                                >
+                                  {isCollapsed ? (
+                                    <ChevronRight className="h-4 w-4" />
+                                  ) : (
+                                    <ChevronDown className="h-4 w-4" />
+                                  )}
+                                </button>
+                              ) : (
+                                <div className={`h-6 w-6 flex items-center justify-center rounded-md ${
+                                  isProject ? 'bg-primary/10' : 'bg-muted/50'
                                 }`}>
-                                  {task.priority === 'urgent' ? '긴급' : task.priority === 'high' ? '높음' : task.priority === 'medium' ? '보통' : '낮음'}
-                                </span>
-                              )}
-                              {/* Estimate */}
-                              {task.estimate && (
-                                <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 dark:bg-purple-500/20 dark:text-purple-400 flex-shrink-0">
-                                  {task.estimate}pt
-                                </span>
+                                  <div className={`w-1.5 h-1.5 rounded-full ${isProject ? 'bg-primary' : 'bg-muted-foreground/50'}`} />
+                                </div>
                               )}
-                              {/* Progress */}
-                              <span className={`text-[11px] font-bold tabular-nums flex-shrink-0 px-1.5 py-0.5 rounded ${
-                                task.progress === 100 ? 'text-emerald-700 bg-emerald-100 dark:text-emerald-400 dark:bg-emerald-500/20' :
-                                task.progress >= 50 ? 'text-amber-700 bg-amber-100 dark:text-amber-400 dark:bg-amber-500/20' :
-                                'text-slate-600 bg-slate-100 dark:text-slate-400 dark:bg-slate-500/20'
-                              }`}>
-                                {task.progress}%
-                              </span>
-                            </div>
-                            {/* Second row - Assignee & Meta (only show if there's content) */}
-                            {(task.teamName || task.assignee || task.cycleName || (task.labels && task.labels.length > 0)) && (
-                            <div className="flex items-center gap-1.5 mt-1">
-                              {/* Team Icon - show emoji if valid, otherwise show team initial with unique color */}
-                              {task.teamName && (() => {
-                                const teamColor = task.teamId ? getTeamColor(task.teamId) : TEAM_COLORS[0];
-                                return (
-                                  <Tooltip>
-                                    <TooltipTrigger asChild>
-                                      <span className="flex-shrink-0 cursor-default">
-                                        {task.teamIcon && isValidEmoji(task.teamIcon) ? (
-                                          <span className="text-sm">{task.teamIcon}</span>
+
+                              {/* Project/Task color indicator - vertical bar */}
+                              <div
+                                className={`rounded-full flex-shrink-0 shadow-sm ${isProject ? 'w-1.5 h-10' : 'w-1 h-7'}`}
+                                style={{ backgroundColor: task.color }}
+                              />
+
+                              <div className="flex-1 min-w-0 ml-2">
+                                <div className="flex items-center gap-2">
+                                  {/* WBS code, unless the WBS column shows it */}
+                                  {!visibleGridColumns.some(c => c.id === 'wbs') && wbsNumbers.has(task.id) && (
+                                    <span className="text-[11px] font-semibold text-muted-foreground/80 tabular-nums flex-shrink-0">
+                                      {wbsNumbers.get(task.id)}
+                                    </span>
+                                  )}
+                                  {/* Project/Task Type Badge */}
+                                  {isProject && (
+                                    <span className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-primary/10 text-primary border border-primary/20 flex-shrink-0">
+                                      프로젝트
+                                    </span>
+                                  )}
+                                  {editingCell?.taskId === task.id && editingCell.column === 'name' ? (
+                                    <GridCellEditor
+                                      task={task}
+                                      column="name"
+                                      options={gridCellOptions}
+                                      onCommit={(value, move) => handleGridCellCommit(task.id, 'name', value, move)}
+                                      onCancel={() => stopEditingCell(task.id, 'name')}
+                                      className="flex-1"
+                                    />
+                                  ) : (
+                                    <span
+                                      className={`leading-snug truncate flex-1 ${
+                                        isProject
+                                          ? 'text-[15px] font-bold text-foreground tracking-tight'
+                                          : 'text-[13px] font-medium text-foreground/85'
+                                      }`}
+                                      onDoubleClick={() => setEditingCell({ taskId: task.id, column: 'name' })}
+                                      title="더블클릭하여 이름 수정"
+                                    >
+                                      {task.name}
+                                    </span>
+                                  )}
+                                  {/* Priority Badge */}
+                                  {task.priority && task.priority !== 'none' && (
+                                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded flex-shrink-0 ${
+                                      task.priority === 'urgent' ? 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-400' :
+                                      task.priority === 'high' ? 'bg-orange-100 text-orange-700 dark:bg-orange-500/20 dark:text-orange-400' :
+                                      task.priority === 'medium' ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-500/20 dark:text-yellow-400' :
+                                      'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-400'
+                                    }`}>
+                                      {task.priority === 'urgent' ? '긴급' : task.priority === 'high' ? '높음' : task.priority === 'medium' ? '보통' : '낮음'}
+                                    </span>
+                                  )}
+                                  {/* Manually set parent */}
+                                  {isParent && task.rollupOverride && (
+                                    <span
+                                      className="text-[10px] font-bold px-1.5 py-0.5 rounded flex-shrink-0 inline-flex items-center gap-0.5"
+                                      style={{ backgroundColor: '#0ea5e920', color: '#0284c7' }}
+                                      title="하위 작업에서 집계하지 않고 직접 입력한 일정·진행률을 사용합니다"
+                                    >
+                                      <Pin className="h-2.5 w-2.5" />
+                                      수동
+                                    </span>
+                                  )}
+                                  {/* Estimate */}
+                                  {task.estimate && (
+                                    <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 dark:bg-purple-500/20 dark:text-purple-400 flex-shrink-0">
+                                      {task.estimate}pt
+                                    </span>
+                                  )}
+                                  {/* Progress */}
+                                  <span className={`text-[11px] font-bold tabular-nums flex-shrink-0 px-1.5 py-0.5 rounded ${
+                                    task.progress === 100 ? 'text-emerald-700 bg-emerald-100 dark:text-emerald-400 dark:bg-emerald-500/20' :
+                                    task.progress >= 50 ? 'text-amber-700 bg-amber-100 dark:text-amber-400 dark:bg-amber-500/20' :
+                                    'text-slate-600 bg-slate-100 dark:text-slate-400 dark:bg-slate-500/20'
+                                  }`}>
+                                    {task.progress}%
+                                  </span>
+                                </div>
+                                {/* Second row - Assignee & Meta (only show if there's content) */}
+                                {(task.teamName || task.assignee || task.cycleName || (task.labels && task.labels.length > 0)) && (
+                                <div className="flex items-center gap-1.5 mt-1">
+                                  {/* Team Icon - show emoji if valid, otherwise show team initial with unique color */}
+                                  {task.teamName && (() => {
+                                    const teamColor = task.teamId ? getTeamColor(task.teamId) : TEAM_COLORS[0];
+                                    return (
+                                      <Tooltip>
+                                        <TooltipTrigger asChild>
+                                          <span className="flex-shrink-0 cursor-default">
+                                            {task.teamIcon && isValidEmoji(task.teamIcon) ? (
+                                              <span className="text-sm">{task.teamIcon}</span>
+                                            ) : (
+                                              <div className={`w-4 h-4 rounded flex items-center justify-center text-[9px] font-bold border ${teamColor.bg} ${teamColor.text} ${teamColor.border}`}>
+                                                {getTeamInitial(task.teamName)}
+                                              </div>
+                                            )}
+                                          </span>
+                                        </TooltipTrigger>
+                                        <TooltipContent>{task.teamName}</TooltipContent>
+                                      </Tooltip>
+                                    );
+                                  })()}
+                                  {/* Assignee with Avatar */}
+                                  {task.assignee && (() => {
+                                    const avatarUrl = task.assigneeAvatarUrl || linearTeamMembers.get(task.assignee);
+                                    return (
+                                      <span className="flex items-center gap-1 text-[11px] text-muted-foreground/90 font-medium">
+                                        {avatarUrl ? (
+                                          <img
+                                            src={avatarUrl}
+                                            alt={task.assignee}
+                                            className="w-4 h-4 rounded-full object-cover ring-1 ring-border/50"
+                                          />
                                         ) : (
-                                          <div className={`w-4 h-4 rounded flex items-center justify-center text-[9px] font-bold border ${teamColor.bg} ${teamColor.text} ${teamColor.border}`}>
-                                            {getTeamInitial(task.teamName)}
+                                          <div className="w-4 h-4 rounded-full bg-primary/20 text-primary flex items-center justify-center text-[8px] font-bold">
+                                            {task.assignee.charAt(0).toUpperCase()}
                                           </div>
                                         )}
+                                        <span className="truncate max-w-[80px]">{task.assignee}</span>
                                       </span>
-                                    </TooltipTrigger>
-                                    <TooltipContent>{task.teamName}</TooltipContent>
-                                  </Tooltip>
-                                );
-                              })()}
-                              {/* Assignee with Avatar */}
-                              {task.assignee && (() => {
-                                const avatarUrl = task.assigneeAvatarUrl || linearTeamMembers.get(task.assignee);
-                                return (
-                                  <span className="flex items-center gap-1 text-[11px] text-muted-foreground/90 font-medium">
-                                    {avatarUrl ? (
-                                      <img
-                                        src={avatarUrl}
-                                        alt={task.assignee}
-                                        className="w-4 h-4 rounded-full object-cover ring-1 ring-border/50"
-                                      />
-                                    ) : (
-                                      <div className="w-4 h-4 rounded-full bg-primary/20 text-primary flex items-center justify-center text-[8px] font-bold">
-                                        {task.assignee.charAt(0).toUpperCase()}
-                                      </div>
-                                    )}
-                                    <span className="truncate max-w-[80px]">{task.assignee}</span>
-                                  </span>
-                                );
-                              })()}
-                              {/* Sprint Badge */}
-                              {task.cycleName && (
-                                <span className="text-[9px] font-semibold px-1.5 py-0.5 rounded-md bg-gradient-to-r from-violet-100 to-indigo-100 dark:from-violet-900/40 dark:to-indigo-900/40 text-violet-700 dark:text-violet-300 border border-violet-200 dark:border-violet-700 flex-shrink-0">
-                                  🏃 {task.cycleName}
-                                </span>
-                              )}
-                              {/* Labels */}
-                              {task.labels && task.labels.length > 0 && (
-                                <div className="flex items-center gap-1 flex-shrink-0">
-                                  {task.labels.slice(0, 2).map((label, idx) => (
-                                    <span
-                                      key={idx}
-                                      className="text-[9px] font-medium px-1.5 py-0.5 rounded-full"
-                                      style={{
-                                        backgroundColor: `${label.color}20`,
-                                        color: label.color,
-                                      }}
-                                    >
-                                      {label.name}
+                                    );
+                                  })()}
+                                  {/* Sprint Badge */}
+                                  {task.cycleName && (
+                                    <span className="text-[9px] font-semibold px-1.5 py-0.5 rounded-md bg-gradient-to-r from-violet-100 to-indigo-100 dark:from-violet-900/40 dark:to-indigo-900/40 text-violet-700 dark:text-violet-300 border border-violet-200 dark:border-violet-700 flex-shrink-0">
+                                      🏃 {task.cycleName}
                                     </span>
-                                  ))}
-                                  {task.labels.length > 2 && (
-                                    <span className="text-[9px] text-muted-foreground">+{task.labels.length - 2}</span>
+                                  )}
+                                  {/* Labels */}
+                                  {task.labels && task.labels.length > 0 && (
+                                    <div className="flex items-center gap-1 flex-shrink-0">
+                                      {task.labels.slice(0, 2).map((label, idx) => (
+                                        <span
+                                          key={idx}
+                                          className="text-[9px] font-medium px-1.5 py-0.5 rounded-full"
+                                          style={{
+                                            backgroundColor: `${label.color}20`,
+                                            color: label.color,
+                                          }}
+                                        >
+                                          {label.name}
+                                        </span>
+                                      ))}
+                                      {task.labels.length > 2 && (
+                                        <span className="text-[9px] text-muted-foreground">+{task.labels.length - 2}</span>
+                                      )}
+                                    </div>
                                   )}
                                 </div>
-                              )}
+                                )}
+                              </div>
                             </div>
-                            )}
-                          </div>
-                        </div>
 
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <button
-                              className="h-7 w-7 flex items-center justify-center rounded-lg opacity-0 group-hover:opacity-100 transition-all text-muted-foreground hover:text-foreground hover:bg-muted/80"
-                            >
-                              <MoreHorizontal className="h-4 w-4" />
-                            </button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end" className="w-40">
-                            <DropdownMenuItem onClick={() => openEditDialog(task)} className="text-sm py-2 cursor-pointer font-medium">
-                              수정
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleDuplicateTask(task.id)} className="text-sm py-2 cursor-pointer font-medium gap-2">
-                              <Copy className="h-3.5 w-3.5" />
-                              복제
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => openAddSubtaskDialog(task.id)} className="text-sm py-2 cursor-pointer font-medium">
-                              하위 태스크 추가
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => handleDeleteTask(task.id)}
-                              className="text-destructive text-sm py-2 cursor-pointer font-medium focus:text-destructive"
-                            >
-                              삭제
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
+                            {/* Baseline variance: finish slip against the selected baseline */}
+                            {activeBaseline && (() => {
+                              const entry = activeBaseline.tasks[task.id];
+                              if (!entry) {
+                                return <span className="w-12 flex-shrink-0 text-right text-[11px] text-muted-foreground/70">신규</span>;
+                              }
+                              const variance = getFinishVariance(task, entry, workCalendar);
+                              return (
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <span
+                                      className="w-12 flex-shrink-0 text-right text-[12px] font-bold tabular-nums cursor-default"
+                                      style={{ color: variance > 0 ? '#dc2626' : variance < 0 ? '#059669' : undefined }}
+                                    >
+                                      {variance > 0 ? `+${variance}일` : variance < 0 ? `${variance}일` : '0'}
+                                    </span>
+                                  </TooltipTrigger>
+                                  <TooltipContent className="text-xs">
+                                    <div className="font-semibold">{activeBaseline.name}</div>
+                                    <div>{formatDate(entry.startDate)} → {formatDate(entry.endDate)} · {entry.progress}%</div>
+                                    <div className="text-muted-foreground">현재 {formatDate(task.startDate)} → {formatDate(task.endDate)} · {task.progress}%</div>
+                                  </TooltipContent>
+                                </Tooltip>
+                              );
+                            })()}
+
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <button
+                                  className="h-7 w-7 flex items-center justify-center rounded-lg opacity-0 group-hover:opacity-100 transition-all text-muted-foreground hover:text-foreground hover:bg-muted/80"
+                                >
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end" className="w-40">
+                                <DropdownMenuItem onClick={() => openEditDialog(task)} className="text-sm py-2 cursor-pointer font-medium">
+                                  수정
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleDuplicateTask(task.id)} className="text-sm py-2 cursor-pointer font-medium gap-2">
+                                  <Copy className="h-3.5 w-3.5" />
+                                  복제
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => openAddSubtaskDialog(task.id)} className="text-sm py-2 cursor-pointer font-medium">
+                                  하위 태스크 추가
+                                </DropdownMenuItem>
+                                {isParent && (
+                                  <DropdownMenuItem onClick={() => handleToggleRollupOverride(task.id)} className="text-sm py-2 cursor-pointer font-medium gap-2">
+                                    <Pin className="h-3.5 w-3.5" />
+                                    {task.rollupOverride ? '자동 집계로 전환' : '수동 지정'}
+                                  </DropdownMenuItem>
+                                )}
+                                <DropdownMenuItem
+                                  onClick={() => handleDeleteTask(task.id)}
+                                  className="text-destructive text-sm py-2 cursor-pointer font-medium focus:text-destructive"
+                                >
+                                  삭제
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </div>
+                        ))}
                       </div>
-                      <div className="flex-1 relative">
-                        {/* Weekend Highlighting */}
-                        {ganttSettings.weekendHighlight && dayMarkers.filter(d => d.isWeekend).map((marker, idx) => (
+                      <ContextMenu>
+                        <ContextMenuTrigger asChild>
                           <div
-                            key={`weekend-${idx}`}
-                            className="absolute top-0 bottom-0 bg-rose-500/8 dark:bg-rose-400/10 pointer-events-none"
-                            style={{
-                              left: `${marker.position}%`,
-                              width: `${100 / totalDays}%`,
+                            className="flex-1 relative"
+                            onContextMenu={(e) => {
+                              // Split point: the day (hour for timed tasks) boundary nearest the cursor
+                              const rect = e.currentTarget.getBoundingClientRect();
+                              const unitsPerDay = task.hasTime ? 24 : 1;
+                              const day = Math.round(((e.clientX - rect.left) / rect.width) * totalDays * unitsPerDay) / unitsPerDay;
+                              setSplitPoint({ taskId: task.id, offsetDays: day - getTimelineOffsetDays(task.startDate, timelineStart, task.hasTime) });
                             }}
-                          />
-                        ))}
-                        {/* Grid Lines */}
-                        {ganttSettings.showGridLines && dayMarkers.map((marker, idx) => (
-                          <div
-                            key={`grid-${idx}`}
-                            className="absolute top-0 bottom-0 w-px bg-border/50 pointer-events-none"
-                            style={{ left: `${marker.position}%` }}
-                          />
-                        ))}
-                        {/* Today Indicator */}
-                        {ganttSettings.todayHighlight && isTodayVisible && (
-                          <div
-                            className="absolute top-0 bottom-0 w-1 bg-blue-500 z-10 pointer-events-none shadow-sm"
-                            style={{ left: `${todayPosition}%` }}
-                          />
+                          >
+                            {/* Non-working day shading: weekends, holidays and the assignee's days off */}
+                            {ganttSettings.weekendHighlight && pixelsPerDay >= 4 && visibleDayMarkers.map((marker) => {
+                              const dayOff = !marker.nonWorking && !!task.assignee &&
+                                workCalendar.daysOff[task.assignee]?.includes(toDateKey(marker.date));
+                              if (!marker.nonWorking && !dayOff) return null;
+                              return (
+                                <div
+                                  key={`nonworking-${marker.date.getTime()}`}
+                                  className="absolute top-0 bottom-0 pointer-events-none"
+                                  style={{
+                                    left: `${marker.position}%`,
+                                    width: `${100 / totalDays}%`,
+                                    backgroundColor: dayOff
+                                      ? 'rgba(139, 92, 246, 0.10)'
+                                      : marker.nonWorking?.kind === 'holiday'
+                                      ? 'rgba(239, 68, 68, 0.10)'
+                                      : 'rgba(244, 63, 94, 0.06)',
+                                  }}
+                                />
+                              );
+                            })}
+                            {/* Running cycle */}
+                            {activeCycleSpan && (
+                              <div
+                                className="absolute top-0 bottom-0 pointer-events-none"
+                                style={{
+                                  left: `${(Math.max(0, activeCycleSpan.from) / totalDays) * 100}%`,
+                                  width: `${((Math.min(totalDays, activeCycleSpan.to) - Math.max(0, activeCycleSpan.from)) / totalDays) * 100}%`,
+                                  backgroundColor: 'rgba(16, 185, 129, 0.05)',
+                                }}
+                              />
+                            )}
+                            {/* Part of the issue scheduled outside its assigned cycle */}
+                            {task.cycleId && (() => {
+                              const barFrom = getTimelineOffsetDays(task.startDate, timelineStart, task.hasTime);
+                              const overflow = getCycleOverflow(task, barFrom, barFrom + getTaskSpanDays(task), cyclesById, timelineStart);
+                              return overflow.map((range) => (
+                                <div
+                                  key={`cycle-overflow-${range.from}`}
+                                  className="absolute top-1 bottom-1 rounded-sm pointer-events-none"
+                                  style={{
+                                    left: `${(range.from / totalDays) * 100}%`,
+                                    width: `${((range.to - range.from) / totalDays) * 100}%`,
+                                    backgroundImage: 'repeating-linear-gradient(135deg, rgba(245, 158, 11, 0.28) 0 4px, transparent 4px 8px)',
+                                    border: '1px dashed rgba(245, 158, 11, 0.6)',
+                                  }}
+                                />
+                              ));
+                            })()}
+                            {/* Grid Lines */}
+                            {ganttSettings.showGridLines && visibleLowerCells.map((cell) => (
+                              <div
+                                key={`grid-${cell.date.getTime()}`}
+                                className="absolute top-0 bottom-0 w-px bg-border/50 pointer-events-none"
+                                style={{ left: `${(cell.startDay / totalDays) * 100}%` }}
+                              />
+                            ))}
+                            {/* Today Indicator */}
+                            {ganttSettings.todayHighlight && isTodayVisible && (
+                              <div
+                                className="absolute top-0 bottom-0 w-1 bg-blue-500 z-10 pointer-events-none shadow-sm"
+                                style={{ left: `${todayPosition}%` }}
+                              />
+                            )}
+                            {/* Baseline ghost bar */}
+                            {activeBaseline?.tasks[task.id] && (() => {
+                              const entry = activeBaseline.tasks[task.id];
+                              // Placed like the live bar, so an untouched task's ghost lines up under it
+                              const startDays = getTimelineOffsetDays(entry.startDate, timelineStart, task.hasTime);
+                              const durationDays = getTaskSpanDays({ ...entry, hasTime: task.hasTime });
+                              const left = Math.max(0, (startDays / totalDays) * 100);
+                              const right = Math.min(100, ((startDays + durationDays) / totalDays) * 100);
+                              if (right <= 0 || left >= 100) return null;
+                              return (
+                                <div
+                                  className="absolute rounded-full pointer-events-none"
+                                  style={{
+                                    left: `${left}%`,
+                                    width: `${Math.max(0.3, right - left)}%`,
+                                    bottom: 4,
+                                    height: 5,
+                                    backgroundColor: 'rgba(100, 116, 139, 0.45)',
+                                    border: '1px solid rgba(100, 116, 139, 0.7)',
+                                  }}
+                                  title={`${activeBaseline.name}: ${formatDate(entry.startDate)} → ${formatDate(entry.endDate)}`}
+                                />
+                              );
+                            })()}
+                            <TaskBar
+                              task={task}
+                              timelineStart={timelineStart}
+                              timelineEnd={timelineEnd}
+                              totalDays={totalDays}
+                              isSubtask={!!task.parentId}
+                              isParent={isParent}
+                              level={level}
+                              onDateChange={isParent && !task.rollupOverride ? undefined : handleDateChange}
+                              onDragEnd={handleDragEnd}
+                              onProgressChange={isParent && !task.rollupOverride ? undefined : handleProgressChange}
+                              showTooltips={ganttSettings.showTooltips}
+                              showProgress={ganttSettings.showProgress}
+                              barStyle={ganttSettings.barStyle}
+                              rowHeight={ganttSettings.rowHeight}
+                              scheduleInfo={criticalPath?.schedule.get(task.id)}
+                              calendar={workCalendar}
+                              snapToHours={snapToHours}
+                              isSchedulePreview={!!dragPreview && dragPreview.sourceId !== task.id && dragPreview.tasks.has(task.id)}
+                              isSummary={isParent && !task.rollupOverride}
+                              isRollupOverride={isParent && !!task.rollupOverride}
+                              onLinkStart={handleLinkStart}
+                              isLinkTarget={!!linkDraft && linkDraft.targetId === task.id}
+                              onSegmentsChange={handleSegmentsChange}
+                              isSelected={selectedTaskIds.has(task.id)}
+                              onSelect={toggleTaskSelection}
+                            />
+                          </div>
+                        </ContextMenuTrigger>
+                        {selectedTaskIds.size > 1 && selectedTaskIds.has(task.id) ? (
+                          <ContextMenuContent className="w-52">
+                            <ContextMenuLabel className="text-xs text-muted-foreground">
+                              선택한 작업 {selectedTaskIds.size}개
+                            </ContextMenuLabel>
+                            <ContextMenuSub>
+                              <ContextMenuSubTrigger className="gap-2">
+                                <CalendarRange className="h-4 w-4" />
+                                일정 이동
+                              </ContextMenuSubTrigger>
+                              <ContextMenuSubContent className="w-40">
+                                {[-7, -1, 1, 7].map(days => (
+                                  <ContextMenuItem key={days} onSelect={() => handleBulkShift(days)}>
+                                    {days > 0 ? `${days}일 뒤로` : `${-days}일 앞으로`}
+                                  </ContextMenuItem>
+                                ))}
+                                <ContextMenuSeparator />
+                                <ContextMenuItem onSelect={() => setIsBulkShiftOpen(true)}>
+                                  N일 이동...
+                                </ContextMenuItem>
+                              </ContextMenuSubContent>
+                            </ContextMenuSub>
+                            <ContextMenuSub>
+                              <ContextMenuSubTrigger className="gap-2">
+                                <UserCheck className="h-4 w-4" />
+                                담당자 지정
+                              </ContextMenuSubTrigger>
+                              <ContextMenuSubContent className="w-48 max-h-72 overflow-y-auto">
+                                <ContextMenuItem onSelect={() => handleBulkAssign(null)}>미지정</ContextMenuItem>
+                                {assigneeOptions.length > 0 && <ContextMenuSeparator />}
+                                {assigneeOptions.map(option => (
+                                  <ContextMenuItem key={option.name} onSelect={() => handleBulkAssign(option)} className="gap-2">
+                                    {option.avatarUrl ? (
+                                      <img src={option.avatarUrl} alt="" className="h-4 w-4 rounded-full" />
+                                  ) : (
+                                      <Users className="h-4 w-4" />
+                                    )}
+                                    <span className="truncate">{option.name}</span>
+                                  </ContextMenuItem>
+                                ))}
+                              </ContextMenuSubContent>
+                            </ContextMenuSub>
+                            <ContextMenuSub>
+                              <ContextMenuSubTrigger className="gap-2">
+                                <Flag className="h-4 w-4" />
+                                우선순위 지정
+                              </ContextMenuSubTrigger>
+                              <ContextMenuSubContent className="w-36">
+                                {[...PRIORITY_OPTIONS].reverse().map(option => (
+                                  <ContextMenuItem
+                                    key={option.value}
+                                    onSelect={() => handleBulkPriority(option.value as NonNullable<Task['priority']>)}
+                                  >
+                                    {option.label}
+                                  </ContextMenuItem>
+                                ))}
+                              </ContextMenuSubContent>
+                            </ContextMenuSub>
+                            <ContextMenuSeparator />
+                            <ContextMenuItem variant="destructive" onSelect={() => setBulkDeleteOpen(true)} className="gap-2">
+                              <Trash2 className="h-4 w-4" />
+                              삭제
+                            </ContextMenuItem>
+                          </ContextMenuContent>
+                        ) : (
+                          <ContextMenuContent className="w-48">
+                            <ContextMenuItem
+                              disabled={(isParent && !task.rollupOverride) || task.isMilestone || splitPoint?.taskId !== task.id}
+                              onSelect={() => splitPoint && handleSplitTask(task.id, splitPoint.offsetDays)}
+                              className="gap-2"
+                            >
+                              <Scissors className="h-4 w-4" />
+                              여기서 분할
+                            </ContextMenuItem>
+                            {isSplitTask(task) && (
+                              <ContextMenuItem onSelect={() => handleMergeSegments(task.id)} className="gap-2">
+                                <Merge className="h-4 w-4" />
+                                분할 해제
+                              </ContextMenuItem>
+                            )}
+                            <ContextMenuSeparator />
+                            <ContextMenuItem onSelect={() => openEditDialog(task)} className="gap-2">
+                              <Edit3 className="h-4 w-4" />
+                              편집
+                            </ContextMenuItem>
+                          </ContextMenuContent>
                         )}
-                        <TaskBar
-                          task={task}
-                          timelineStart={timelineStart}
-                          timelineEnd={timelineEnd}
-                          totalDays={totalDays}
-                          isSubtask={!!task.parentId}
-                          isParent={isParent}
-                          level={level}
-                          onDateChange={handleDateChange}
-                          onDragEnd={handleDragEnd}
-                          onProgressChange={handleProgressChange}
-                          showTooltips={ganttSettings.showTooltips}
-                          showProgress={ganttSettings.showProgress}
-                          barStyle={ganttSettings.barStyle}
-                          rowHeight={ganttSettings.rowHeight}
-                        />
-                      </div>
+                      </ContextMenu>
                     </div>
                   );
                 })}
+                <div
+                  style={{ height: rowOffsets[rowOffsets.length - 1] - (rowOffsets[visibleRange.end] ?? rowOffsets[rowOffsets.length - 1]) }}
+                  aria-hidden
+                />
                 </div>
               </div>
             </div>
           )}
 
+          {/* Minimap of the whole timeline */}
+          {tasks.length > 0 && (
+            <GanttMinimap
+              tasks={minimapTasks}
+              timelineStart={timelineStart}
+              timelineEnd={timelineEnd}
+              totalDays={totalDays}
+              pixelsPerDay={pixelsPerDay}
+              taskColumnWidth={taskColumnWidth}
+              scrollContainerRef={scrollContainerRef}
+            />
+          )}
+
           {/* Legend - Professional Design */}
           {tasks.length > 0 && (
             <div className="mt-6 pt-5 border-t border-border/40">
@@ -2436,6 +4493,39 @@ export function GanttChart({ className }: GanttChartProps) {
                     <div className="w-6 h-3 rounded bg-black/25 dark:bg-white/25" />
                     <span>남은 작업</span>
                   </div>
+                  {criticalPath && (
+                    <div className="flex items-center gap-2">
+                      <div className="w-6 h-3 rounded" style={{ boxShadow: '0 0 0 2px #ef4444' }} />
+                      <span>크리티컬 패스</span>
+                      {criticalPath.projectFinish && (
+                        <span className="text-xs tabular-nums">({formatDate(criticalPath.projectFinish)} 종료)</span>
+                      )}
+                    </div>
+                  )}
+                  {activeBaseline && (
+                    <div className="flex items-center gap-2">
+                      <div className="w-6 h-1.5 rounded-full" style={{ backgroundColor: 'rgba(100, 116, 139, 0.45)', border: '1px solid rgba(100, 116, 139, 0.7)' }} />
+                      <span>베이스라인 ({activeBaseline.name})</span>
+                    </div>
+                  )}
+                  {dependencyCycles.length > 0 && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <div className="flex items-center gap-2 cursor-help" style={{ color: '#d97706' }}>
+                          <div className="w-6 h-0 border-t-2 border-dotted" style={{ borderColor: '#f59e0b' }} />
+                          <span className="font-medium">순환 의존성 {dependencyCycles.length}개</span>
+                        </div>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <div className="space-y-1 text-xs">
+                          {dependencyCycles.map((cycle, idx) => (
+                            <div key={idx}>{describeCycle(cycle)}</div>
+                          ))}
+                          <div className="text-muted-foreground pt-1">순환 링크는 일정 계산에서 제외됩니다</div>
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
                 </div>
                 <div className="hidden md:flex items-center gap-5 text-sm text-muted-foreground/80">
                   <div className="flex items-center gap-2">
@@ -2487,6 +4577,90 @@ export function GanttChart({ className }: GanttChartProps) {
         </DialogContent>
       </Dialog>
 
+      {/* Save Baseline Dialog */}
+      <Dialog open={isBaselineDialogOpen} onOpenChange={setIsBaselineDialogOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>베이스라인 저장</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="baselineName">이름</Label>
+            <Input
+              id="baselineName"
+              value={baselineName}
+              onChange={(e) => setBaselineName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveBaseline()}
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              모든 태스크의 시작일, 종료일, 진행률이 저장됩니다 ({tasks.length}개)
+            </p>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setIsBaselineDialogOpen(false)}>
+              취소
+            </Button>
+            <Button onClick={handleSaveBaseline}>저장</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Shift Dialog */}
+      <Dialog open={isBulkShiftOpen} onOpenChange={setIsBulkShiftOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>일정 일괄 이동</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulkShiftDays">이동할 일수</Label>
+            <Input
+              id="bulkShiftDays"
+              type="number"
+              step={1}
+              value={bulkShiftDays}
+              onChange={(e) => setBulkShiftDays(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleBulkShift(Number(bulkShiftDays));
+                  setIsBulkShiftOpen(false);
+                }
+              }}
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              선택한 작업 {selectedTaskIds.size}개를 옮깁니다. 음수는 앞당깁니다.
+            </p>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setIsBulkShiftOpen(false)}>
+              취소
+            </Button>
+            <Button
+              disabled={!Number.isInteger(Number(bulkShiftDays)) || Number(bulkShiftDays) === 0}
+              onClick={() => {
+                handleBulkShift(Number(bulkShiftDays));
+                setIsBulkShiftOpen(false);
+              }}
+            >
+              이동
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Delete Confirmation */}
+      <ConfirmDialog
+        open={bulkDeleteOpen}
+        onOpenChange={setBulkDeleteOpen}
+        title="일괄 삭제 확인"
+        description={`선택한 작업 ${selectedTaskIds.size}개와 하위 작업을 삭제하시겠습니까? Linear 항목은 아카이브됩니다.`}
+        confirmText="삭제"
+        cancelText="취소"
+        variant="danger"
+        onConfirm={confirmBulkDelete}
+        isLoading={isSyncing}
+      />
+
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         open={deleteConfirmOpen}
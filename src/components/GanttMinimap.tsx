@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Task } from './GanttChart';
+import { computeBarDensity, getMinimapMarkers } from '../utils/minimap';
+
+interface GanttMinimapProps {
+  tasks: Task[]; // rows shown in the chart, without group headers
+  timelineStart: Date;
+  timelineEnd: Date;
+  totalDays: number;
+  pixelsPerDay: number;
+  taskColumnWidth: number;
+  scrollContainerRef: React.RefObject<HTMLDivElement>;
+}
+
+const MINIMAP_HEIGHT = 40;
+const DENSITY_BUCKETS = 240;
+
+const formatMonth = (date: Date) => date.toLocaleDateString('ko', { year: 'numeric', month: 'short' });
+
+/**
+ * Overview of the whole timeline below the chart: bar density, today,
+ * milestones and overdue tasks, with the visible part framed. Clicking or
+ * dragging on the strip scrolls the chart there.
+ */
+export function GanttMinimap({
+  tasks,
+  timelineStart,
+  timelineEnd,
+  totalDays,
+  pixelsPerDay,
+  taskColumnWidth,
+  scrollContainerRef,
+}: GanttMinimapProps) {
+  const stripRef = useRef<HTMLDivElement>(null);
+  const grabOffsetRef = useRef<number | null>(null); // days between the viewport start and the pointer while dragging
+  const [viewport, setViewport] = useState({ from: 0, days: 0 });
+
+  // Follows the chart's scroll position itself so scrolling doesn't re-render the chart
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const update = () => setViewport({
+      from: container.scrollLeft / pixelsPerDay,
+      days: Math.max(0, container.clientWidth - taskColumnWidth) / pixelsPerDay,
+    });
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      container.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [scrollContainerRef, pixelsPerDay, taskColumnWidth, totalDays]);
+
+  const density = useMemo(
+    () => computeBarDensity(tasks, timelineStart, totalDays, DENSITY_BUCKETS),
+    [tasks, timelineStart, totalDays]
+  );
+  const maxDensity = Math.max(1, ...density);
+  const { milestones, overdue } = useMemo(() => getMinimapMarkers(tasks, timelineStart), [tasks, timelineStart]);
+
+  const todayDay = (Date.now() - timelineStart.getTime()) / (1000 * 60 * 60 * 24);
+  const toPercent = (day: number) => `${Math.max(0, Math.min(100, (day / totalDays) * 100))}%`;
+
+  const dayAt = (clientX: number) => {
+    const rect = stripRef.current!.getBoundingClientRect();
+    return ((clientX - rect.left) / Math.max(1, rect.width)) * totalDays;
+  };
+
+  // Instant rather than the container's smooth scrolling so the frame keeps up with the pointer
+  const scrollToDay = (firstDay: number) => {
+    scrollContainerRef.current?.scrollTo({ left: Math.max(0, firstDay * pixelsPerDay), behavior: 'instant' });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const day = dayAt(e.clientX);
+    // Grabbing the frame keeps the grab point under the pointer; elsewhere the frame centers on it
+    const insideFrame = day >= viewport.from && day <= viewport.from + viewport.days;
+    grabOffsetRef.current = insideFrame ? day - viewport.from : viewport.days / 2;
+    scrollToDay(day - grabOffsetRef.current);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (grabOffsetRef.current === null) return;
+    scrollToDay(dayAt(e.clientX) - grabOffsetRef.current);
+  };
+
+  const handlePointerUp = () => {
+    grabOffsetRef.current = null;
+  };
+
+  return (
+    <div className="mt-3 select-none" aria-label="타임라인 미니맵">
+      <div className="flex justify-between text-[10px] text-muted-foreground mb-1 tabular-nums">
+        <span>{formatMonth(timelineStart)}</span>
+        <span>{formatMonth(new Date(timelineEnd.getTime() - 1))}</span>
+      </div>
+      <div
+        ref={stripRef}
+        className="relative rounded-md border border-border/60 bg-muted/30 overflow-hidden cursor-pointer"
+        style={{ height: MINIMAP_HEIGHT, touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* Bar density */}
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox={`0 0 ${DENSITY_BUCKETS} 1`}
+          preserveAspectRatio="none"
+        >
+          {density.map((count, index) => count > 0 && (
+            <rect
+              key={index}
+              x={index}
+              y={1 - count / maxDensity}
+              width={1.02}
+              height={count / maxDensity}
+              fill="#6366f1"
+              fillOpacity={0.35}
+            />
+          ))}
+        </svg>
+
+        {/* Overdue tasks and milestones */}
+        {overdue.map((marker) => (
+          <div
+            key={`overdue-${marker.taskId}`}
+            className="absolute top-0 w-0.5 pointer-events-none"
+            style={{ left: toPercent(marker.day), height: MINIMAP_HEIGHT / 3, backgroundColor: '#ef4444' }}
+          />
+        ))}
+        {milestones.map((marker) => (
+          <div
+            key={`milestone-${marker.taskId}`}
+            className="absolute pointer-events-none"
+            style={{
+              left: toPercent(marker.day),
+              top: 3,
+              width: 7,
+              height: 7,
+              marginLeft: -3.5,
+              backgroundColor: '#f59e0b',
+              transform: 'rotate(45deg)',
+            }}
+          />
+        ))}
+
+        {/* Today */}
+        {todayDay >= 0 && todayDay <= totalDays && (
+          <div
+            className="absolute top-0 bottom-0 w-0.5 pointer-events-none"
+            style={{ left: toPercent(todayDay), backgroundColor: '#3b82f6' }}
+          />
+        )}
+
+        {/* Visible part of the timeline */}
+        {viewport.days > 0 && (
+          <div
+            className="absolute top-0 bottom-0 rounded-sm pointer-events-none"
+            style={{
+              left: toPercent(viewport.from),
+              width: `${Math.min(100, (viewport.days / totalDays) * 100)}%`,
+              minWidth: 6,
+              border: '2px solid #6366f1',
+              backgroundColor: 'rgba(99, 102, 241, 0.10)',
+            }}
+          />
+        )}
+      </div>
+      <div className="flex items-center gap-4 mt-1.5 text-[10px] text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-sm" style={{ backgroundColor: 'rgba(99, 102, 241, 0.35)' }} />
+          작업 밀도
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-0.5 h-2.5" style={{ backgroundColor: '#3b82f6' }} />
+          오늘
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-1.5 h-1.5" style={{ backgroundColor: '#f59e0b', transform: 'rotate(45deg)' }} />
+          마일스톤 {milestones.length}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-0.5 h-2.5" style={{ backgroundColor: '#ef4444' }} />
+          지연 {overdue.length}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -23,6 +23,8 @@ import { Separator } from './ui/separator';
 export interface GanttSettingsData {
   showGridLines: boolean;
   showDependencyLines: boolean;
+  showCriticalPath: boolean;
+  autoSchedule: boolean;
   showProgress: boolean;
   showTooltips: boolean;
   rowHeight: 'compact' | 'default' | 'comfortable';
@@ -42,6 +44,8 @@ interface GanttSettingsProps {
 const defaultSettings: GanttSettingsData = {
   showGridLines: true,
   showDependencyLines: true,
+  showCriticalPath: false,
+  autoSchedule: false,
   showProgress: true,
   showTooltips: true,
   rowHeight: 'default',
@@ -118,6 +122,24 @@ export function GanttSettings({ settings, onSettingsChange }: GanttSettingsProps
               />
             </div>
 
+            <div className="flex items-center justify-between py-1">
+              <Label htmlFor="showCriticalPath" className="cursor-pointer text-[15px]">크리티컬 패스 강조</Label>
+              <Switch
+                id="showCriticalPath"
+                checked={localSettings.showCriticalPath}
+                onCheckedChange={(checked) => handleChange('showCriticalPath', checked)}
+              />
+            </div>
+
+            <div className="flex items-center justify-between py-1">
+              <Label htmlFor="autoSchedule" className="cursor-pointer text-[15px]">자동 일정 조정</Label>
+              <Switch
+                id="autoSchedule"
+                checked={localSettings.autoSchedule}
+                onCheckedChange={(checked) => handleChange('autoSchedule', checked)}
+              />
+            </div>
+
             <div className="flex items-center justify-between py-1">
               <Label htmlFor="showProgress" className="cursor-pointer text-[15px]">진행률 표시</Label>
               <Switch
@@ -146,7 +168,7 @@ export function GanttSettings({ settings, onSettingsChange }: GanttSettingsProps
             </div>
 
             <div className="flex items-center justify-between py-1">
-              <Label htmlFor="weekendHighlight" className="cursor-pointer text-[15px]">주말 하이라이트</Label>
+              <Label htmlFor="weekendHighlight" className="cursor-pointer text-[15px]">휴무일 하이라이트</Label>
               <Switch
                 id="weekendHighlight"
                 checked={localSettings.weekendHighlight}
@@ -0,0 +1,274 @@
+import React, { useRef, useState } from 'react';
+import { Task, LinearCycleInfo } from './GanttChart';
+import { GridColumnId, GridMove, isEditableColumn, toGridDateValue, toGridDurationValue } from '../utils/gridColumns';
+import { getLaneKey } from '../utils/swimlanes';
+import { formatTaskDuration } from '../utils/taskTime';
+import { toDateKey } from '../utils/workCalendar';
+
+export type GridCellValue = string | string[];
+
+export interface GridCellOptions {
+  assignees: { id?: string; name: string; avatarUrl?: string }[];
+  priorities: { value: string; label: string }[];
+  cycles: LinearCycleInfo[];
+  labels: { id?: string; name: string; color: string }[];
+}
+
+const STATUS_OPTIONS = ['시작전', '진행중', '완료'];
+
+const formatGridDate = (date: Date, hasTime?: boolean) =>
+  hasTime ? `${toDateKey(date).slice(5)} ${toGridDateValue(date, true).split('T')[1]}` : toGridDateValue(date);
+
+// Current value of a cell in the form its editor works with
+const getEditValue = (task: Task, column: GridColumnId): GridCellValue => {
+  switch (column) {
+    case 'name': return task.name;
+    case 'start': return toGridDateValue(task.startDate, task.hasTime);
+    case 'end': return toGridDateValue(task.endDate, task.hasTime);
+    case 'duration': return toGridDurationValue(task);
+    case 'assignee': return task.assignee || '';
+    case 'estimate': return task.estimate?.toString() || '';
+    case 'priority': return task.priority || 'none';
+    case 'status': return getLaneKey(task, 'status');
+    case 'cycle': return task.cycleId || '';
+    case 'labels': return (task.labels || []).map(l => l.name);
+    default: return '';
+  }
+};
+
+interface GridCellEditorProps {
+  task: Task;
+  column: GridColumnId;
+  options: GridCellOptions;
+  onCommit: (value: GridCellValue, move?: GridMove) => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+/**
+ * Inline editor of one grid cell. Enter saves and moves down (Shift+Enter
+ * up), Tab saves and moves right (Shift+Tab left), Escape discards and
+ * clicking elsewhere saves.
+ */
+export function GridCellEditor({ task, column, options, onCommit, onCancel, className = '' }: GridCellEditorProps) {
+  const [value, setValue] = useState<GridCellValue>(() => getEditValue(task, column));
+  const doneRef = useRef(false); // the editor may still blur while it unmounts
+
+  const finish = (next: GridCellValue, move?: GridMove) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    onCommit(next, move);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finish(value, e.shiftKey ? 'up' : 'down');
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      finish(value, e.shiftKey ? 'prev' : 'next');
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      doneRef.current = true;
+      onCancel();
+    }
+  };
+
+  const handleBlur = (e: React.FocusEvent) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    finish(value);
+  };
+
+  const inputClass = `w-full h-7 px-1.5 rounded border border-primary bg-background text-xs outline-none ${className}`;
+  const common = {
+    autoFocus: true,
+    onKeyDown: handleKeyDown,
+    onBlur: handleBlur,
+    onMouseDown: (e: React.MouseEvent) => e.stopPropagation(),
+    onClick: (e: React.MouseEvent) => e.stopPropagation(),
+  };
+
+  if (column === 'labels') {
+    const selected = value as string[];
+    const known = [...options.labels, ...(task.labels || []).filter(l => !options.labels.some(o => o.name === l.name))];
+    return (
+      <div
+        {...common}
+        ref={(el) => { if (el && !el.contains(document.activeElement)) el.focus(); }}
+        tabIndex={0}
+        className="absolute left-0 top-0 z-50 min-w-[180px] max-h-56 overflow-auto rounded-md border border-primary bg-popover p-1 shadow-lg outline-none"
+      >
+        {known.length === 0 && <div className="px-2 py-1.5 text-xs text-muted-foreground">라벨 없음</div>}
+        {known.map(label => (
+          <label key={label.name} className="flex items-center gap-2 px-2 py-1 rounded text-xs cursor-pointer hover:bg-accent">
+            <input
+              type="checkbox"
+              checked={selected.includes(label.name)}
+              onChange={(e) => setValue(e.target.checked ? [...selected, label.name] : selected.filter(name => name !== label.name))}
+              onKeyDown={handleKeyDown}
+            />
+            <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: label.color }} />
+            <span className="truncate">{label.name}</span>
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  // Picking from a list saves right away
+  const renderSelect = (choices: { value: string; label: string }[]) => (
+    <select
+      {...common}
+      value={value as string}
+      onChange={(e) => { setValue(e.target.value); finish(e.target.value); }}
+      className={inputClass}
+    >
+      {choices.map(choice => <option key={choice.value} value={choice.value}>{choice.label}</option>)}
+    </select>
+  );
+
+  switch (column) {
+    case 'assignee': {
+      const names = options.assignees.map(a => a.name);
+      if (task.assignee && !names.includes(task.assignee)) names.push(task.assignee);
+      return renderSelect([{ value: '', label: '미지정' }, ...names.map(name => ({ value: name, label: name }))]);
+    }
+    case 'priority':
+      return renderSelect(options.priorities);
+    case 'status':
+      return renderSelect(STATUS_OPTIONS.map(status => ({ value: status, label: status })));
+    case 'cycle': {
+      const cycles = options.cycles.map(c => ({ value: c.id, label: c.name }));
+      if (task.cycleId && !cycles.some(c => c.value === task.cycleId)) {
+        cycles.push({ value: task.cycleId, label: task.cycleName || task.cycleId });
+      }
+      return renderSelect([{ value: '', label: '없음' }, ...cycles]);
+    }
+    default: {
+      const type = column === 'start' || column === 'end'
+        ? (task.hasTime ? 'datetime-local' : 'date')
+        : column === 'estimate' ? 'number' : 'text';
+      return (
+        <input
+          {...common}
+          type={type}
+          min={column === 'estimate' ? 0 : undefined}
+          value={value as string}
+          onChange={(e) => setValue(e.target.value)}
+          onFocus={(e) => type === 'text' && e.currentTarget.select()}
+          className={inputClass}
+          placeholder={column === 'duration' ? '일 또는 6h' : undefined}
+        />
+      );
+    }
+  }
+}
+
+interface GridCellProps {
+  task: Task;
+  column: GridColumnId;
+  width: number;
+  wbsNumber?: string;
+  readOnly?: boolean; // e.g. the dates of a parent that summarizes its children
+  isEditing: boolean;
+  options: GridCellOptions;
+  onStartEdit: () => void;
+  onCommit: (value: GridCellValue, move?: GridMove) => void;
+  onCancel: () => void;
+}
+
+// A grid column next to the task name: shows the value and edits it in place
+export function GridCell({ task, column, width, wbsNumber, readOnly, isEditing, options, onStartEdit, onCommit, onCancel }: GridCellProps) {
+  const renderValue = () => {
+    switch (column) {
+      case 'wbs':
+        return <span className="text-muted-foreground tabular-nums">{wbsNumber}</span>;
+      case 'start':
+        return <span className="tabular-nums">{formatGridDate(task.startDate, task.hasTime)}</span>;
+      case 'end':
+        return <span className="tabular-nums">{formatGridDate(task.endDate, task.hasTime)}</span>;
+      case 'duration':
+        return <span className="tabular-nums">{formatTaskDuration(task)}</span>;
+      case 'assignee':
+        return task.assignee ? <span className="truncate">{task.assignee}</span> : <span className="text-muted-foreground/60">—</span>;
+      case 'estimate':
+        return task.estimate ? <span className="tabular-nums">{task.estimate}pt</span> : null;
+      case 'priority':
+        return task.priority && task.priority !== 'none'
+          ? <span>{options.priorities.find(p => p.value === task.priority)?.label}</span>
+          : null;
+      case 'status':
+        return <span>{getLaneKey(task, 'status')}</span>;
+      case 'cycle':
+        return task.cycleName ? <span className="truncate">{task.cycleName}</span> : null;
+      case 'labels':
+        return (
+          <span className="flex items-center gap-1 min-w-0">
+            {(task.labels || []).slice(0, 2).map(label => (
+              <span
+                key={label.name}
+                className="text-[10px] font-medium px-1.5 py-0.5 rounded-full truncate"
+                style={{ backgroundColor: `${label.color}20`, color: label.color }}
+              >
+                {label.name}
+              </span>
+            ))}
+            {(task.labels?.length || 0) > 2 && (
+              <span className="text-[10px] text-muted-foreground">+{task.labels!.length - 2}</span>
+            )}
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
+  // Read-only cells can still hold the cursor so Tab/Enter walk past them
+  const handleReadOnlyKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      onCommit(getEditValue(task, column), e.key === 'Tab' ? (e.shiftKey ? 'prev' : 'next') : (e.shiftKey ? 'up' : 'down'));
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  const editable = isEditableColumn(column) && !readOnly;
+
+  return (
+    <div
+      className={`relative h-full px-2 border-r border-border/40 flex items-center flex-shrink-0 overflow-hidden text-xs text-foreground/85 ${
+        editable ? 'cursor-text hover:bg-accent/40' : ''
+      }`}
+      style={{ width, overflow: isEditing && column === 'labels' ? 'visible' : undefined }}
+      onClick={(e) => {
+        if (e.metaKey || e.ctrlKey || e.shiftKey || isEditing) return;
+        e.stopPropagation();
+        onStartEdit();
+      }}
+    >
+      {isEditing && editable ? (
+        <>
+          {column === 'labels' && renderValue()}
+          <GridCellEditor task={task} column={column} options={options} onCommit={onCommit} onCancel={onCancel} />
+        </>
+      ) : isEditing ? (
+        <div
+          ref={(el) => { if (el && document.activeElement !== el) el.focus(); }}
+          tabIndex={0}
+          className="w-full h-7 flex items-center px-1.5 rounded outline-none"
+          style={{ boxShadow: 'inset 0 0 0 1px hsl(var(--primary))' }}
+          onKeyDown={handleReadOnlyKeyDown}
+          onBlur={onCancel}
+          title={readOnly ? '하위 작업에서 집계된 값입니다' : undefined}
+        >
+          {renderValue()}
+        </div>
+      ) : (
+        renderValue()
+      )}
+    </div>
+  );
+}
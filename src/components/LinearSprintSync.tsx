@@ -11,6 +11,7 @@ import { Card } from './ui/card';
 import { RefreshCw, Download, Link2, Check, AlertCircle, Upload, Unlink, Clock, ArrowLeftRight, Settings } from 'lucide-react';
 import { toast } from 'sonner';
 import { Sprint, SprintTask } from '../types/sprint';
+import { sortBySortOrder } from '../utils/sortOrder';
 import {
   fetchLinearTeams,
   fetchLinearCycles,
@@ -190,6 +191,7 @@ export function LinearSprintSync({
         linearProjectId: t.linearProjectId,
         linearIssueId: t.linearIssueId,
         linearParentIssueId: t.linearParentIssueId,
+        sortOrder: t.sortOrder,
         labels: t.labels,
         stateId: t.stateId,
         stateName: t.stateName,
@@ -232,6 +234,7 @@ export function LinearSprintSync({
       linearProjectId: t.linearProjectId,
       linearIssueId: t.linearIssueId,
       linearParentIssueId: t.linearParentIssueId,
+      sortOrder: t.sortOrder,
       labels: t.labels,
       stateId: t.stateId,
       stateName: t.stateName,
@@ -338,6 +341,7 @@ export function LinearSprintSync({
               linearBlocks: converted.linearBlocks,
               linearBlockedBy: converted.linearBlockedBy,
               linearParentIssueId: converted.linearParentIssueId,
+              sortOrder: converted.sortOrder,
             };
           })
           .filter((task): task is SprintTask => task !== null);
@@ -362,6 +366,7 @@ export function LinearSprintSync({
             linearProjectId: converted.linearProjectId,
             linearIssueId: converted.linearIssueId,
             linearParentIssueId: converted.linearParentIssueId,
+            sortOrder: converted.sortOrder,
             labels: converted.labels,
             stateId: converted.stateId,
             stateName: converted.stateName,
@@ -478,6 +483,7 @@ export function LinearSprintSync({
               linearBlocks: converted.linearBlocks,
               linearBlockedBy: converted.linearBlockedBy,
               linearParentIssueId: converted.linearParentIssueId,
+              sortOrder: converted.sortOrder,
             };
           })
           .filter((task): task is SprintTask => task !== null);
@@ -502,6 +508,7 @@ export function LinearSprintSync({
             linearProjectId: converted.linearProjectId,
             linearIssueId: converted.linearIssueId,
             linearParentIssueId: converted.linearParentIssueId,
+            sortOrder: converted.sortOrder,
             labels: converted.labels,
             stateId: converted.stateId,
             stateName: converted.stateName,
@@ -622,6 +629,7 @@ export function LinearSprintSync({
               linearBlocks: converted.linearBlocks,
               linearBlockedBy: converted.linearBlockedBy,
               linearParentIssueId: converted.linearParentIssueId,
+              sortOrder: converted.sortOrder,
             };
           })
           .filter((task): task is SprintTask => task !== null);
@@ -655,6 +663,7 @@ export function LinearSprintSync({
             linearProjectId: converted.linearProjectId,
             linearIssueId: converted.linearIssueId,
             linearParentIssueId: converted.linearParentIssueId,
+            sortOrder: converted.sortOrder,
             labels: converted.labels,
             stateId: converted.stateId,
             stateName: converted.stateName,
@@ -713,6 +722,7 @@ export function LinearSprintSync({
               linearBlocks: converted.linearBlocks,
               linearBlockedBy: converted.linearBlockedBy,
               linearParentIssueId: converted.linearParentIssueId,
+              sortOrder: converted.sortOrder,
             };
           })
           .filter((task): task is SprintTask => task !== null);
@@ -744,6 +754,7 @@ export function LinearSprintSync({
             linearProjectId: converted.linearProjectId,
             linearIssueId: converted.linearIssueId,
             linearParentIssueId: converted.linearParentIssueId,
+            sortOrder: converted.sortOrder,
             labels: converted.labels,
             stateId: converted.stateId,
             stateName: converted.stateName,
@@ -754,8 +765,8 @@ export function LinearSprintSync({
         }
       }
 
-      // Step 3: Update state ONCE
-      onUpdateTasks(finalTasks);
+      // Step 3: Update state ONCE, in Linear's ranking so cards don't reshuffle on every sync
+      onUpdateTasks(sortBySortOrder(finalTasks));
       setLastSyncTime(new Date());
 
       if (!silent) {
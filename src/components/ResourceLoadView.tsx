@@ -0,0 +1,291 @@
+import React, { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Gauge, Scale, ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { Task } from './GanttChart';
+import { ScheduleChange } from '../utils/autoSchedule';
+import {
+  ResourceCapacity,
+  computeResourceLoad,
+  getOverloadedDays,
+  getCapacity,
+  levelResources,
+} from '../utils/resourceLoad';
+import { WorkCalendar, isWorkingDay, toDateKey } from '../utils/workCalendar';
+
+interface ResourceLoadViewProps {
+  tasks: Task[];
+  calendar: WorkCalendar;
+  capacity: ResourceCapacity;
+  onCapacityChange: (capacity: ResourceCapacity) => void;
+  onApplyLeveling: (changes: Map<string, ScheduleChange>) => void;
+}
+
+// Keeps the grid readable for long-running plans
+const MAX_VISIBLE_DAYS = 180;
+const CELL_WIDTH = 30;
+
+const formatDateShort = (date: Date) => date.toLocaleDateString('ko', { month: 'short', day: 'numeric' });
+
+const countOverloads = (overloaded: Map<string, Set<string>>) =>
+  [...overloaded.values()].reduce((sum, days) => sum + days.size, 0);
+
+export function ResourceLoadView({ tasks, calendar, capacity, onCapacityChange, onApplyLeveling }: ResourceLoadViewProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [levelingPreview, setLevelingPreview] = useState<Map<string, ScheduleChange> | null>(null);
+
+  // With a preview, the grid shows the load after leveling
+  const displayedTasks = useMemo(() => {
+    if (!levelingPreview) return tasks;
+    return tasks.map(t => {
+      const change = levelingPreview.get(t.id);
+      return change ? { ...t, ...change } : t;
+    });
+  }, [tasks, levelingPreview]);
+
+  const load = useMemo(() => computeResourceLoad(displayedTasks, calendar), [displayedTasks, calendar]);
+  const overloaded = useMemo(() => getOverloadedDays(load, capacity), [load, capacity]);
+  const overloadCountBefore = useMemo(
+    () => countOverloads(getOverloadedDays(computeResourceLoad(tasks, calendar), capacity)),
+    [tasks, calendar, capacity]
+  );
+
+  const assignees = [...load.keys()].sort();
+
+  // Day columns spanning every loaded day
+  const days = useMemo(() => {
+    const keys = [...load.values()].flatMap(byDay => [...byDay.keys()]).sort();
+    if (keys.length === 0) return [];
+    const [y, m, d] = keys[0].split('-').map(Number);
+    const [ey, em, ed] = keys[keys.length - 1].split('-').map(Number);
+    const end = new Date(ey, em - 1, ed);
+    const result: Date[] = [];
+    for (let day = new Date(y, m - 1, d); day <= end && result.length < MAX_VISIBLE_DAYS; day.setDate(day.getDate() + 1)) {
+      result.push(new Date(day));
+    }
+    return result;
+  }, [load]);
+
+  const taskNameOf = (id: string) => tasks.find(t => t.id === id)?.name || id;
+
+  const updateCapacity = (assignee: string | null, value: string) => {
+    const points = Number(value);
+    if (!Number.isFinite(points) || points <= 0) return;
+    if (assignee === null) {
+      onCapacityChange({ ...capacity, defaultPointsPerDay: points });
+    } else {
+      onCapacityChange({ ...capacity, byAssignee: { ...capacity.byAssignee, [assignee]: points } });
+    }
+    setLevelingPreview(null);
+  };
+
+  const handleLevel = () => {
+    const changes = levelResources(tasks, capacity, calendar);
+    if (changes.size === 0) {
+      toast.info(overloadCountBefore === 0 ? '과부하가 없습니다' : '미룰 수 있는 작업이 없습니다', {
+        description: overloadCountBefore === 0 ? undefined : '크리티컬 패스와 완료된 작업은 이동하지 않습니다',
+      });
+      return;
+    }
+    setLevelingPreview(changes);
+  };
+
+  const handleApply = () => {
+    if (!levelingPreview) return;
+    onApplyLeveling(levelingPreview);
+    setLevelingPreview(null);
+    setIsOpen(false);
+  };
+
+  const previewRows = levelingPreview
+    ? [...levelingPreview.entries()]
+        .map(([id, change]) => ({ task: tasks.find(t => t.id === id)!, change }))
+        .filter(row => row.task)
+        .sort((a, b) => a.change.startDate.getTime() - b.change.startDate.getTime())
+    : [];
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) setLevelingPreview(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="h-10 w-10 relative" title="리소스 부하">
+          <Gauge className="h-5 w-5" />
+          {overloadCountBefore > 0 && (
+            <span className="absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full" style={{ backgroundColor: '#ef4444' }} />
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            리소스 부하
+            {levelingPreview && (
+              <span className="text-xs font-semibold px-2 py-0.5 rounded" style={{ backgroundColor: '#6366f120', color: '#4f46e5' }}>
+                평준화 미리보기
+              </span>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">기본 용량</span>
+            <Input
+              type="number"
+              min={0.5}
+              step={0.5}
+              defaultValue={capacity.defaultPointsPerDay}
+              onBlur={(e) => updateCapacity(null, e.target.value)}
+              className="h-8 w-20"
+            />
+            <span className="text-muted-foreground">pt/일</span>
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-muted-foreground">
+              과부하{' '}
+              <span className="font-semibold tabular-nums" style={{ color: overloadCountBefore > 0 ? '#dc2626' : undefined }}>
+                {overloadCountBefore}일
+              </span>
+              {levelingPreview && (
+                <>
+                  {' → '}
+                  <span className="font-semibold tabular-nums">{countOverloads(overloaded)}일</span>
+                </>
+              )}
+            </span>
+            {!levelingPreview && (
+              <Button size="sm" className="gap-2" onClick={handleLevel} disabled={assignees.length === 0}>
+                <Scale className="h-4 w-4" />
+                리소스 평준화
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {assignees.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            담당자와 스토리 포인트가 지정된 작업이 없습니다
+          </p>
+        ) : (
+          <div className="border border-border/60 rounded-lg overflow-auto max-h-[50vh]">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="sticky left-0 z-10 bg-muted text-left font-semibold px-3 py-2 min-w-[180px]">담당자</th>
+                  {days.map(day => (
+                    <th
+                      key={day.getTime()}
+                      className="font-medium text-muted-foreground py-2 tabular-nums"
+                      style={{ minWidth: CELL_WIDTH }}
+                    >
+                      {day.getDate() === 1 || day.getTime() === days[0].getTime() ? `${day.getMonth() + 1}/` : ''}
+                      {day.getDate()}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {assignees.map(assignee => {
+                  const byDay = load.get(assignee)!;
+                  const limit = getCapacity(capacity, assignee);
+                  const overloadedDays = overloaded.get(assignee);
+                  return (
+                    <tr key={assignee} className="border-t border-border/40">
+                      <td className="sticky left-0 z-10 bg-background px-3 py-1.5">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium truncate">{assignee}</span>
+                          <div className="flex items-center gap-1 text-muted-foreground">
+                            <Input
+                              type="number"
+                              min={0.5}
+                              step={0.5}
+                              defaultValue={limit}
+                              key={`${assignee}-${limit}`}
+                              onBlur={(e) => updateCapacity(assignee, e.target.value)}
+                              className="h-7 w-14 text-xs px-1.5"
+                              title="하루 용량 (pt)"
+                            />
+                          </div>
+                        </div>
+                      </td>
+                      {days.map(day => {
+                        const key = toDateKey(day);
+                        const entry = byDay.get(key);
+                        const isOver = overloadedDays?.has(key) ?? false;
+                        const ratio = entry ? Math.min(1, entry.points / limit) : 0;
+                        const working = isWorkingDay(day, calendar, assignee);
+                        return (
+                          <td
+                            key={key}
+                            className="text-center tabular-nums py-1.5 border-l border-border/20"
+                            style={{
+                              backgroundColor: isOver
+                                ? 'rgba(239, 68, 68, 0.75)'
+                                : entry
+                                ? `rgba(59, 130, 246, ${0.12 + ratio * 0.45})`
+                                : !working
+                                ? 'rgba(148, 163, 184, 0.12)'
+                                : undefined,
+                              color: isOver ? 'white' : undefined,
+                              fontWeight: isOver ? 700 : undefined,
+                            }}
+                            title={entry
+                              ? `${formatDateShort(day)} · ${entry.points.toFixed(1)} / ${limit}pt\n${entry.taskIds.map(taskNameOf).join('\n')}`
+                              : undefined}
+                          >
+                            {entry ? (Math.round(entry.points * 10) / 10).toString() : ''}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {levelingPreview && (
+          <div className="space-y-3">
+            <h3 className="text-[13px] font-bold text-muted-foreground uppercase tracking-wider">
+              변경될 작업 ({previewRows.length})
+            </h3>
+            <div className="max-h-48 overflow-y-auto border border-border/50 rounded-lg divide-y divide-border/40">
+              {previewRows.map(({ task, change }) => {
+                const delayDays = Math.round((change.startDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60 * 24));
+                return (
+                  <div key={task.id} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                    <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: task.color }} />
+                    <span className="flex-1 truncate font-medium">{task.name}</span>
+                    <span className="text-xs text-muted-foreground w-20 truncate">{task.assignee || '-'}</span>
+                    <span className="text-xs tabular-nums text-muted-foreground flex items-center gap-1">
+                      {formatDateShort(task.startDate)}
+                      <ArrowRight className="h-3 w-3" />
+                      {formatDateShort(change.startDate)}
+                    </span>
+                    <span className="text-xs font-semibold tabular-nums w-12 text-right" style={{ color: '#d97706' }}>
+                      +{delayDays}일
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setLevelingPreview(null)}>
+                취소
+              </Button>
+              <Button onClick={handleApply}>적용</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -29,6 +29,7 @@ import { SprintTask, STATUS_LABELS, PRIORITY_COLORS, PRIORITY_LABELS } from '../
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
 import { PriorityBadge } from './ui/status-badge';
 import { cn } from './ui/utils';
+import { sortBySortOrder } from '../utils/sortOrder';
 
 interface SprintBoardProps {
   tasks: SprintTask[];
@@ -85,7 +86,8 @@ export function SprintBoard({ tasks, onTaskClick, onStatusChange, onDeleteTask,
       in_review: [],
       done: [],
     };
-    tasks.forEach(task => {
+    // Ranked like Linear's board rather than by array order
+    sortBySortOrder(tasks).forEach(task => {
       grouped[task.status].push(task);
     });
     return grouped;
@@ -33,6 +33,8 @@ import {
   convertToLinearPriority,
   updateLinearIssueExtended,
 } from '../services/linear';
+import { normalizeDependencies } from '../utils/dependencies';
+import { GanttBaseline, parseBaselines } from '../utils/baselines';
 
 type ViewMode = 'board' | 'gantt' | 'analytics';
 
@@ -41,6 +43,7 @@ export function SprintDashboard() {
   const [sprints, setSprints] = useState<Sprint[]>([]);
   const [currentSprintId, setCurrentSprintId] = useState<string | undefined>();
   const [sprintTasks, setSprintTasks] = useState<SprintTask[]>([]);
+  const [ganttBaselines, setGanttBaselines] = useState<GanttBaseline[]>([]); // owned by GanttChart, kept here for backups
   const [isTaskDialogOpen, setIsTaskDialogOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<SprintTask | null>(null);
   const { members: teamMembers, updateMembers: setTeamMembers } = useTeamMembers();
@@ -92,6 +95,15 @@ export function SprintDashboard() {
         console.error('Failed to load sprint tasks:', e);
       }
     }
+
+    const savedBaselines = localStorage.getItem('gantt-baselines');
+    if (savedBaselines) {
+      try {
+        setGanttBaselines(parseBaselines(JSON.parse(savedBaselines)));
+      } catch (e) {
+        console.error('Failed to load baselines:', e);
+      }
+    }
   }, []);
 
   // Save sprints - always save, even if empty (to allow clearing data)
@@ -441,6 +453,16 @@ export function SprintDashboard() {
   };
 
   // Assign task to sprint
+  // The timeline already pushed the new dates and cycle to Linear; mirror them here
+  const handleBacklogItemScheduled = (taskId: string, schedule: { startDate: Date; endDate: Date; cycleId?: string }) => {
+    const sprint = schedule.cycleId ? sprints.find(s => s.linearCycleId === schedule.cycleId) : undefined;
+    setSprintTasks(sprintTasks.map(t =>
+      t.id === taskId
+        ? { ...t, startDate: schedule.startDate, endDate: schedule.endDate, sprintId: sprint?.id ?? t.sprintId }
+        : t
+    ));
+  };
+
   const handleTaskAssignToSprint = async (taskId: string, sprintId: string) => {
     const task = sprintTasks.find(t => t.id === taskId);
     if (!task) return;
@@ -496,6 +518,15 @@ export function SprintDashboard() {
     toast.success('태스크 데이터 가져오기 완료');
   };
 
+  const handleImportGanttBaselinesData = (importedBaselines: GanttBaseline[]) => {
+    // Like gantt tasks, GanttChart reads these from localStorage when it mounts
+    setGanttBaselines(importedBaselines);
+    localStorage.setItem('gantt-baselines', JSON.stringify(importedBaselines));
+    toast.success('베이스라인 가져오기 완료');
+    // Reload so a mounted GanttChart cannot save its stale baselines over the import
+    window.location.reload();
+  };
+
   const handleImportGanttTasksData = (importedTasks: Task[]) => {
     // Gantt tasks are managed separately in GanttChart component
     // Store in localStorage for GanttChart to pick up
@@ -545,7 +576,7 @@ export function SprintDashboard() {
       progress: t.progress,
       color: t.color,
       parentId: t.parentId,
-      dependencies: t.dependencies,
+      dependencies: normalizeDependencies(t.dependencies),
       linearProjectId: t.linearProjectId,
       linearIssueId: t.linearIssueId,
       assignee: t.assignee,
@@ -647,14 +678,17 @@ export function SprintDashboard() {
               onImportSprints={handleImportSprintsData}
               onImportSprintTasks={handleImportSprintTasksData}
               onImportGanttTasks={handleImportGanttTasksData}
+              onImportGanttBaselines={handleImportGanttBaselinesData}
               existingSprints={sprints}
               existingSprintTasks={sprintTasks}
               existingGanttTasks={ganttTasks}
+              existingGanttBaselines={ganttBaselines}
             />
             <DataExport
               sprints={sprints}
               sprintTasks={sprintTasks}
               ganttTasks={ganttTasks}
+              ganttBaselines={ganttBaselines}
             />
             <LinearSprintSync
               sprints={sprints}
@@ -727,7 +761,16 @@ export function SprintDashboard() {
         </TabsContent>
 
         <TabsContent value="gantt" className="mt-4">
-          <GanttChart />
+          {/* Backlog items can be dragged onto the timeline to schedule them */}
+          <BacklogPanel
+            tasks={sprintTasks}
+            onTaskClick={handleTaskClick}
+            onTaskAssignToSprint={handleTaskAssignToSprint}
+            onStatusChange={handleStatusChange}
+            onPriorityChange={handlePriorityChange}
+            currentSprintId={currentSprintId}
+          />
+          <GanttChart onBacklogItemScheduled={handleBacklogItemScheduled} onBaselinesChange={setGanttBaselines} />
         </TabsContent>
 
         {currentSprint && (
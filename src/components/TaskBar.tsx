@@ -1,7 +1,11 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { Task } from './GanttChart';
+import { TaskScheduleInfo } from '../utils/criticalPath';
+import { WorkCalendar, countWorkingDays, addWorkingDays, snapToWorkingDay } from '../utils/workCalendar';
+import { SegmentEdit, SegmentRange, editSegment, getTaskSegments, getWorkedDays } from '../utils/taskSegments';
+import { formatTaskDuration, getTaskSpanDays, getTimelineOffsetDays, hasTimeOfDay, shiftByDays } from '../utils/taskTime';
 import { Tooltip, TooltipContent, TooltipTrigger } from './ui/tooltip';
-import { User, Flag } from 'lucide-react';
+import { User, Flag, Pin, Scissors } from 'lucide-react';
 
 interface TaskBarProps {
   task: Task;
@@ -11,7 +15,7 @@ interface TaskBarProps {
   isSubtask?: boolean;
   isParent?: boolean;
   level?: number;
-  onDateChange?: (taskId: string, newStartDate: Date, newEndDate: Date) => void;
+  onDateChange?: (taskId: string, newStartDate: Date, newEndDate: Date, mode?: 'move' | 'resize') => void;
   onDragEnd?: (taskId: string) => void;
   onProgressChange?: (taskId: string, progress: number) => void;
   showTooltips?: boolean;
@@ -19,6 +23,17 @@ interface TaskBarProps {
   barStyle?: 'rounded' | 'square' | 'pill';
   rowHeight?: 'compact' | 'default' | 'comfortable';
   timelineContainerRef?: React.RefObject<HTMLDivElement>;
+  scheduleInfo?: TaskScheduleInfo; // set when critical path analysis is on
+  isSchedulePreview?: boolean; // shifted by auto-scheduling while another bar is dragged
+  calendar?: WorkCalendar; // durations and drag snapping follow working days when set
+  snapToHours?: boolean; // day view: drags move the bar in whole hours
+  isSummary?: boolean; // parent whose dates/progress are rolled up from its children
+  isRollupOverride?: boolean; // parent with manually set dates/progress
+  onLinkStart?: (taskId: string, side: 'start' | 'end', e: React.MouseEvent) => void; // drag from a connector to create a dependency
+  isLinkTarget?: boolean; // a dependency is being dragged over this bar
+  onSegmentsChange?: (taskId: string, segments: SegmentRange[]) => void; // a segment of a split task was dragged
+  isSelected?: boolean; // part of the multi-selection
+  onSelect?: (taskId: string) => void; // shift/ctrl-click toggles the selection instead of dragging
 }
 
 export function TaskBar({
@@ -36,6 +51,17 @@ export function TaskBar({
   barStyle = 'rounded',
   rowHeight = 'default',
   timelineContainerRef,
+  scheduleInfo,
+  isSchedulePreview = false,
+  calendar,
+  snapToHours = false,
+  isSummary = false,
+  isRollupOverride = false,
+  onLinkStart,
+  isLinkTarget = false,
+  onSegmentsChange,
+  isSelected = false,
+  onSelect,
 }: TaskBarProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isResizingLeft, setIsResizingLeft] = useState(false);
@@ -43,25 +69,68 @@ export function TaskBar({
   const [isHovered, setIsHovered] = useState(false);
   const [dragGuidePosition, setDragGuidePosition] = useState<{ left: number; right: number } | null>(null);
   const [currentDuration, setCurrentDuration] = useState<number | null>(null);
+  const [segmentDraft, setSegmentDraft] = useState<SegmentRange[] | null>(null); // segments while one is dragged
   const containerRef = useRef<HTMLDivElement>(null);
   const dragStartX = useRef(0);
   const originalStartDate = useRef(task.startDate);
   const originalEndDate = useRef(task.endDate);
 
   // Calculate position and width as percentages
-  const taskStartDays = Math.max(0, Math.ceil((task.startDate.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24)));
-  const taskDurationDays = Math.max(1, Math.ceil((task.endDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60 * 24)));
+  const taskStartDays = Math.max(0, getTimelineOffsetDays(task.startDate, timelineStart, task.hasTime));
+  const taskDurationDays = getTaskSpanDays(task);
 
   const leftPosition = Math.max(0, Math.min(100, (taskStartDays / totalDays) * 100));
-  const width = Math.max(2, Math.min(100 - leftPosition, (taskDurationDays / totalDays) * 100));
+  // Timed bars keep their exact length; all-day bars stay wide enough to grab
+  const width = Math.max(task.hasTime ? 0 : 2, Math.min(100 - leftPosition, (taskDurationDays / totalDays) * 100));
 
-  // Convert pixel movement to days
+  // Dragged bars are timed when they move by the hour or already carry times
+  const isTimedDrag = snapToHours || !!task.hasTime;
+
+  // Convert pixel movement to days (whole hours when snapping to hours)
   const pixelsToDays = useCallback((pixels: number) => {
     if (!containerRef.current) return 0;
     const containerWidth = containerRef.current.parentElement?.clientWidth || containerRef.current.clientWidth || 1;
     const daysPerPixel = totalDays / containerWidth;
-    return Math.round(pixels * daysPerPixel);
-  }, [totalDays]);
+    return snapToHours ? Math.round(pixels * daysPerPixel * 24) / 24 : Math.round(pixels * daysPerPixel);
+  }, [totalDays, snapToHours]);
+
+  // Dates the bar is drawn at. An all-day task dragged by the hour starts from
+  // these so it does not jump when it turns into a timed task.
+  const getBarDates = () => {
+    if (!snapToHours || task.hasTime) return { startDate: new Date(task.startDate), endDate: new Date(task.endDate) };
+    const startDate = new Date(timelineStart);
+    startDate.setDate(startDate.getDate() + getTimelineOffsetDays(task.startDate, timelineStart));
+    return { startDate, endDate: shiftByDays(startDate, taskDurationDays) };
+  };
+
+  // Duration in working days when a calendar is set, calendar days otherwise
+  const getDuration = useCallback((startDate: Date, endDate: Date) => {
+    if (calendar) return Math.max(1, countWorkingDays(startDate, endDate, calendar, task.assignee));
+    return Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)));
+  }, [calendar, task.assignee]);
+
+  // Snap a moved bar so it starts on a working day and keeps its working-day length
+  const snapMove = (startDate: Date, endDate: Date, direction: 1 | -1) => {
+    if (!calendar) return { startDate, endDate };
+    const snappedStart = snapToWorkingDay(startDate, calendar, task.assignee, direction);
+    // Timed bars keep their elapsed length; only the day they start on is snapped
+    if (isTimedDrag) {
+      return { startDate: snappedStart, endDate: new Date(endDate.getTime() + snappedStart.getTime() - startDate.getTime()) };
+    }
+    const workDays = getDuration(originalStartDate.current, originalEndDate.current);
+    return { startDate: snappedStart, endDate: addWorkingDays(snappedStart, workDays, calendar, task.assignee) };
+  };
+
+  // Snap an exclusive end date so the last covered day is a working day
+  const snapEnd = (endDate: Date, direction: 1 | -1) => {
+    if (!calendar) return endDate;
+    if (isTimedDrag && hasTimeOfDay(endDate)) return snapToWorkingDay(endDate, calendar, task.assignee, direction);
+    const lastDay = new Date(endDate);
+    lastDay.setDate(lastDay.getDate() - 1);
+    const snapped = snapToWorkingDay(lastDay, calendar, task.assignee, direction);
+    snapped.setDate(snapped.getDate() + 1);
+    return snapped;
+  };
 
   // Get clientX from mouse or touch event
   const getClientX = (e: MouseEvent | TouchEvent): number => {
@@ -73,20 +142,29 @@ export function TaskBar({
 
   // Calculate guide positions for dragging
   const updateDragGuide = useCallback((startDate: Date, endDate: Date) => {
-    const startDays = Math.max(0, Math.ceil((startDate.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24)));
-    const endDays = Math.ceil((endDate.getTime() - timelineStart.getTime()) / (1000 * 60 * 60 * 24));
-    const duration = Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)));
+    const startDays = Math.max(0, getTimelineOffsetDays(startDate, timelineStart, isTimedDrag));
+    const endDays = getTimelineOffsetDays(endDate, timelineStart, isTimedDrag);
 
     setDragGuidePosition({
       left: (startDays / totalDays) * 100,
       right: (endDays / totalDays) * 100,
     });
-    setCurrentDuration(duration);
-  }, [timelineStart, totalDays]);
+    setCurrentDuration(snapToHours
+      ? Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60))
+      : getDuration(startDate, endDate));
+  }, [timelineStart, totalDays, getDuration, snapToHours, isTimedDrag]);
+
+  const isSelectClick = (e: React.MouseEvent | React.TouchEvent) => !!onSelect && (e.shiftKey || e.ctrlKey || e.metaKey);
 
   // Handle drag start for moving the entire bar
-  const handleDragStart = (e: React.MouseEvent | React.TouchEvent) => {
+  const handleDragStart = (e: React.MouseEvent | React.TouchEvent, allowEdgeResize = true) => {
     if (isResizingLeft || isResizingRight) return;
+    if (isSelectClick(e)) {
+      e.preventDefault();
+      e.stopPropagation();
+      onSelect!(task.id);
+      return;
+    }
 
     // Check if click is near the edges - if so, trigger resize instead
     const target = e.currentTarget as HTMLElement;
@@ -96,13 +174,13 @@ export function TaskBar({
     const edgeThreshold = 16; // pixels from edge to trigger resize
 
     // If clicking near left edge, trigger left resize
-    if (relativeX <= edgeThreshold && !task.isMilestone) {
+    if (allowEdgeResize && relativeX <= edgeThreshold && !task.isMilestone) {
       handleResizeLeftStart(e);
       return;
     }
 
     // If clicking near right edge, trigger right resize
-    if (relativeX >= rect.width - edgeThreshold && !task.isMilestone) {
+    if (allowEdgeResize && relativeX >= rect.width - edgeThreshold && !task.isMilestone) {
       handleResizeRightStart(e);
       return;
     }
@@ -111,11 +189,12 @@ export function TaskBar({
     setIsDragging(true);
 
     dragStartX.current = clientX;
-    originalStartDate.current = new Date(task.startDate);
-    originalEndDate.current = new Date(task.endDate);
+    const barDates = getBarDates();
+    originalStartDate.current = barDates.startDate;
+    originalEndDate.current = barDates.endDate;
 
     // Initialize drag guide
-    updateDragGuide(task.startDate, task.endDate);
+    updateDragGuide(barDates.startDate, barDates.endDate);
 
     const handleMove = (moveEvent: MouseEvent | TouchEvent) => {
       const currentX = getClientX(moveEvent);
@@ -123,12 +202,11 @@ export function TaskBar({
       const deltaDays = pixelsToDays(deltaX);
 
       if (onDateChange) {
-        const newStartDate = new Date(originalStartDate.current);
-        newStartDate.setDate(newStartDate.getDate() + deltaDays);
-        const newEndDate = new Date(originalEndDate.current);
-        newEndDate.setDate(newEndDate.getDate() + deltaDays);
+        const movedStartDate = shiftByDays(originalStartDate.current, deltaDays);
+        const movedEndDate = shiftByDays(originalEndDate.current, deltaDays);
+        const { startDate: newStartDate, endDate: newEndDate } = snapMove(movedStartDate, movedEndDate, deltaDays < 0 ? -1 : 1);
 
-        onDateChange(task.id, newStartDate, newEndDate);
+        onDateChange(task.id, newStartDate, newEndDate, 'move');
         updateDragGuide(newStartDate, newEndDate);
       }
     };
@@ -154,14 +232,19 @@ export function TaskBar({
   const handleResizeLeftStart = (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    if (isSelectClick(e)) {
+      onSelect!(task.id);
+      return;
+    }
     setIsResizingLeft(true);
 
     const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
     dragStartX.current = clientX;
-    originalStartDate.current = new Date(task.startDate);
+    const { startDate: barStart, endDate: barEnd } = getBarDates();
+    originalStartDate.current = barStart;
 
     // Initialize drag guide
-    updateDragGuide(task.startDate, task.endDate);
+    updateDragGuide(barStart, barEnd);
 
     const handleMove = (moveEvent: MouseEvent | TouchEvent) => {
       const currentX = getClientX(moveEvent);
@@ -169,13 +252,15 @@ export function TaskBar({
       const deltaDays = pixelsToDays(deltaX);
 
       if (onDateChange) {
-        const newStartDate = new Date(originalStartDate.current);
-        newStartDate.setDate(newStartDate.getDate() + deltaDays);
-
-        // Don't allow start date to go past end date (minimum 1 day duration)
-        if (newStartDate < task.endDate) {
-          onDateChange(task.id, newStartDate, task.endDate);
-          updateDragGuide(newStartDate, task.endDate);
+        const movedStartDate = shiftByDays(originalStartDate.current, deltaDays);
+        const newStartDate = calendar
+          ? snapToWorkingDay(movedStartDate, calendar, task.assignee, deltaDays < 0 ? -1 : 1)
+          : movedStartDate;
+
+        // Don't allow start date to go past end date (minimum 1 day, or 1 hour when snapping to hours)
+        if (newStartDate < barEnd) {
+          onDateChange(task.id, newStartDate, barEnd);
+          updateDragGuide(newStartDate, barEnd);
         }
       }
     };
@@ -201,14 +286,19 @@ export function TaskBar({
   const handleResizeRightStart = (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    if (isSelectClick(e)) {
+      onSelect!(task.id);
+      return;
+    }
     setIsResizingRight(true);
 
     const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
     dragStartX.current = clientX;
-    originalEndDate.current = new Date(task.endDate);
+    const { startDate: barStart, endDate: barEnd } = getBarDates();
+    originalEndDate.current = barEnd;
 
     // Initialize drag guide
-    updateDragGuide(task.startDate, task.endDate);
+    updateDragGuide(barStart, barEnd);
 
     const handleMove = (moveEvent: MouseEvent | TouchEvent) => {
       const currentX = getClientX(moveEvent);
@@ -216,13 +306,13 @@ export function TaskBar({
       const deltaDays = pixelsToDays(deltaX);
 
       if (onDateChange) {
-        const newEndDate = new Date(originalEndDate.current);
-        newEndDate.setDate(newEndDate.getDate() + deltaDays);
+        const movedEndDate = shiftByDays(originalEndDate.current, deltaDays);
+        const newEndDate = snapEnd(movedEndDate, deltaDays < 0 ? -1 : 1);
 
-        // Don't allow end date to go before start date (minimum 1 day duration)
-        if (newEndDate > task.startDate) {
-          onDateChange(task.id, task.startDate, newEndDate);
-          updateDragGuide(task.startDate, newEndDate);
+        // Don't allow end date to go before start date (minimum 1 day, or 1 hour when snapping to hours)
+        if (newEndDate > barStart) {
+          onDateChange(task.id, barStart, newEndDate);
+          updateDragGuide(barStart, newEndDate);
         }
       }
     };
@@ -244,6 +334,56 @@ export function TaskBar({
     document.addEventListener('touchend', handleEnd);
   };
 
+  // Dragging a piece of a split task: its edges resize that segment and its body
+  // moves it between its neighbors. The first piece's body moves the whole task.
+  const handleSegmentDragStart = (e: React.MouseEvent | React.TouchEvent, index: number) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
+    const relativeX = clientX - rect.left;
+    const edgeThreshold = Math.min(12, rect.width / 3);
+    const edit: SegmentEdit = relativeX <= edgeThreshold ? 'start' : relativeX >= rect.width - edgeThreshold ? 'end' : 'move';
+
+    if ((edit === 'move' && index === 0) || isSelectClick(e)) {
+      handleDragStart(e, false);
+      return;
+    }
+    if (!onSegmentsChange) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(true);
+    dragStartX.current = clientX;
+    const original = getTaskSegments(task);
+    const minDays = isTimedDrag ? 1 / 24 : 1;
+    let draft = original;
+    setSegmentDraft(original);
+    updateDragGuide(original[index].startDate, original[index].endDate);
+
+    const handleMove = (moveEvent: MouseEvent | TouchEvent) => {
+      const deltaDays = pixelsToDays(getClientX(moveEvent) - dragStartX.current);
+      draft = editSegment(original, index, edit, deltaDays, minDays);
+      setSegmentDraft(draft);
+      updateDragGuide(draft[index].startDate, draft[index].endDate);
+    };
+
+    const handleEnd = () => {
+      setIsDragging(false);
+      setSegmentDraft(null);
+      setDragGuidePosition(null);
+      setCurrentDuration(null);
+      document.removeEventListener('mousemove', handleMove);
+      document.removeEventListener('mouseup', handleEnd);
+      document.removeEventListener('touchmove', handleMove);
+      document.removeEventListener('touchend', handleEnd);
+      if (draft !== original) onSegmentsChange(task.id, draft);
+    };
+
+    document.addEventListener('mousemove', handleMove);
+    document.addEventListener('mouseup', handleEnd);
+    document.addEventListener('touchmove', handleMove, { passive: false });
+    document.addEventListener('touchend', handleEnd);
+  };
+
   // Adjust height and styling for subtasks and row height setting
   const getBarHeight = () => {
     if (isSubtask) {
@@ -268,15 +408,29 @@ export function TaskBar({
   const barRadius = getBarRadius();
 
   const isActive = isDragging || isResizingLeft || isResizingRight;
+  const isCritical = scheduleInfo?.isCritical ?? false;
 
   // Calculate duration days for tooltip
-  const durationDays = Math.max(1, Math.ceil((task.endDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60 * 24)));
+  // Split tasks: pieces drawn at their own dates, durations count worked time only
+  const segments = segmentDraft || getTaskSegments(task);
+  const isSplit = segments.length > 1 && !isSummary && !task.isMilestone;
+  const workedDays = isSplit ? Math.round(getWorkedDays(task, calendar) * 10) / 10 : 0;
+  const pausedDays = isSplit
+    ? Math.round(((task.endDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60 * 24) - getWorkedDays(task)) * 10) / 10
+    : 0;
+  const durationDays = isSplit ? workedDays : getDuration(task.startDate, task.endDate);
 
   // Format dates for tooltip
   const formatDateShort = (date: Date) => {
     return date.toLocaleDateString('ko', { month: 'short', day: 'numeric' });
   };
 
+  // Timed tasks show their start and end times as well
+  const formatTaskDate = (date: Date) =>
+    task.hasTime
+      ? `${formatDateShort(date)} ${date.toLocaleTimeString('ko', { hour: '2-digit', minute: '2-digit', hour12: false })}`
+      : formatDateShort(date);
+
   // Compact tooltip content
   const tooltipContent = (
     <div className="space-y-2.5 text-popover-foreground min-w-[180px] p-1">
@@ -292,10 +446,19 @@ export function TaskBar({
       {/* Details */}
       <div className="space-y-1.5 text-xs">
         <div className="flex items-center justify-between text-muted-foreground">
-          <span className="font-medium">{formatDateShort(task.startDate)} → {formatDateShort(task.endDate)}</span>
-          <span className="font-medium">{durationDays}일</span>
+          <span className="font-medium">{formatTaskDate(task.startDate)} → {formatTaskDate(task.endDate)}</span>
+          <span className="font-medium">
+            {task.hasTime ? formatTaskDuration(task) : calendar ? `근무 ${durationDays}일` : `${durationDays}일`}
+          </span>
         </div>
 
+        {isSplit && (
+          <div className="flex items-center gap-1.5 text-muted-foreground">
+            <Scissors className="h-3 w-3" />
+            <span>분할 {segments.length}개 · 중단 {pausedDays}일</span>
+          </div>
+        )}
+
         {task.assignee && (
           <div className="flex items-center gap-1.5 text-muted-foreground">
             <User className="h-3 w-3" />
@@ -303,6 +466,30 @@ export function TaskBar({
           </div>
         )}
 
+        {/* Schedule analysis */}
+        {scheduleInfo && (
+          <div className="space-y-1 pt-1.5 border-t border-border/50">
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>가장 이른 시작/종료</span>
+              <span className="tabular-nums">{formatDateShort(scheduleInfo.earlyStart)} → {formatDateShort(scheduleInfo.earlyFinish)}</span>
+            </div>
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>가장 늦은 시작/종료</span>
+              <span className="tabular-nums">{formatDateShort(scheduleInfo.lateStart)} → {formatDateShort(scheduleInfo.lateFinish)}</span>
+            </div>
+            <div className={`font-semibold ${isCritical ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'}`}>
+              {isCritical ? '크리티컬 패스' : `여유 ${scheduleInfo.totalFloat}일`}
+            </div>
+          </div>
+        )}
+
+        {(isSummary || isRollupOverride) && (
+          <div className="flex items-center gap-1.5 text-muted-foreground">
+            {isRollupOverride && <Pin className="h-3 w-3" />}
+            <span>{isRollupOverride ? '수동 지정 (하위 작업 집계 안 함)' : '하위 작업에서 자동 집계'}</span>
+          </div>
+        )}
+
         {/* Progress */}
         <div className="flex items-center gap-2.5 pt-1.5">
           <div className="flex-1 h-1.5 bg-muted rounded-full overflow-hidden">
@@ -319,7 +506,7 @@ export function TaskBar({
 
   // Handle progress click
   const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (isDragging || isResizingLeft || isResizingRight || !onProgressChange) return;
+    if (isDragging || isResizingLeft || isResizingRight || !onProgressChange || isSelectClick(e)) return;
 
     const bar = e.currentTarget;
     const rect = bar.getBoundingClientRect();
@@ -339,11 +526,20 @@ export function TaskBar({
       width: `${width}%`,
       minWidth: '32px',
       backgroundColor: baseColor,
-      boxShadow: isActive
+      boxShadow: isActive || isLinkTarget
         ? `0 0 0 2px var(--background), 0 0 0 4px ${baseColor}`
+        : isSelected
+        ? '0 0 0 2px var(--background), 0 0 0 4px #6366f1'
+        : isCritical
+        ? '0 0 0 2px var(--background), 0 0 0 4px #ef4444'
         : isHovered
         ? `0 2px 8px ${baseColor}40, 0 1px 2px ${baseColor}30`
         : `0 1px 3px ${baseColor}20`,
+      ...(isSchedulePreview && {
+        opacity: 0.75,
+        outline: `2px dashed ${baseColor}`,
+        outlineOffset: '2px',
+      }),
     };
   };
 
@@ -358,6 +554,7 @@ export function TaskBar({
 
   const taskBarElement = (
     <div
+      data-link-target={task.id}
       className={`absolute ${barHeight} ${barRadius} task-bar group/bar ${
         isSubtask ? 'opacity-90' : ''
       } ${isActive
@@ -397,6 +594,16 @@ export function TaskBar({
         </div>
       )}
 
+      {/* Manually set parent: its dates are not rolled up from subtasks */}
+      {isRollupOverride && (
+        <div
+          className="absolute -top-1.5 -right-1.5 h-4 w-4 rounded-full flex items-center justify-center pointer-events-none shadow-sm"
+          style={{ backgroundColor: 'var(--background)', border: `1.5px solid ${task.color}` }}
+        >
+          <Pin className="h-2.5 w-2.5" style={{ color: task.color }} />
+        </div>
+      )}
+
       {/* Milestone indicator */}
       {task.isMilestone && (
         <div className="absolute inset-0 flex items-center justify-center">
@@ -440,6 +647,133 @@ export function TaskBar({
     </div>
   );
 
+  // Summary bracket for rolled-up parents: a thin bar with pointed ends, not draggable
+  const summaryBarElement = (
+    <div
+      data-link-target={task.id}
+      className="absolute task-bar"
+      style={{
+        left: `${leftPosition}%`,
+        width: `${width}%`,
+        minWidth: '16px',
+        top: '50%',
+        height: 18,
+        marginTop: -9,
+        ...(isSchedulePreview && { opacity: 0.75 }),
+      }}
+      role="img"
+      aria-label={`${task.name} summary, ${task.progress}% complete`}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <div
+        className="absolute inset-x-0 top-0 overflow-hidden"
+        style={{
+          height: 8,
+          backgroundColor: `${task.color}55`,
+          boxShadow: isCritical ? '0 0 0 2px var(--background), 0 0 0 4px #ef4444' : undefined,
+        }}
+      >
+        {showProgress && (
+          <div className="h-full" style={{ width: `${task.progress}%`, backgroundColor: task.color }} />
+        )}
+      </div>
+      <div
+        className="absolute left-0"
+        style={{ top: 8, borderTop: `8px solid ${task.color}`, borderRight: '6px solid transparent' }}
+      />
+      <div
+        className="absolute right-0"
+        style={{ top: 8, borderTop: `8px solid ${task.color}`, borderLeft: '6px solid transparent' }}
+      />
+    </div>
+  );
+
+  // Connector dots just outside both ends; dragging one onto another bar creates a link
+  const connectorHandles = onLinkStart && !isActive && (
+    <>
+      {(['start', 'end'] as const).map(side => (
+        <div
+          key={side}
+          data-link-handle={side}
+          className="absolute top-1/2 z-40 h-3 w-3 rounded-full cursor-crosshair transition-opacity"
+          style={{
+            left: side === 'start' ? `${leftPosition}%` : `${leftPosition + width}%`,
+            marginLeft: side === 'start' ? -14 : 2,
+            marginTop: -6,
+            backgroundColor: 'var(--background)',
+            border: `2px solid ${task.color}`,
+            opacity: isHovered ? 1 : 0,
+          }}
+          title={side === 'start' ? '시작점에서 연결' : '종료점에서 연결'}
+          onMouseEnter={() => setIsHovered(true)}
+          onMouseLeave={() => setIsHovered(false)}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onLinkStart(task.id, side, e);
+          }}
+        />
+      ))}
+    </>
+  );
+
+  // Split task: one piece per worked segment, joined by a dashed line across the pauses
+  const splitBarElement = (() => {
+    if (!isSplit) return null;
+    const { boxShadow } = getBarStyle();
+    const workedMs = segments.reduce((sum, r) => sum + r.endDate.getTime() - r.startDate.getTime(), 0) || 1;
+    let workedBefore = 0;
+    return (
+      <div
+        data-link-target={task.id}
+        className={`absolute ${barHeight} task-bar group/bar ${isSubtask ? 'opacity-90' : ''} ${isActive ? 'z-30' : ''}`}
+        style={{ left: `${leftPosition}%`, width: `${width}%`, ...(isSchedulePreview && { opacity: 0.75 }) }}
+        role="group"
+        aria-label={`${task.name}, ${segments.length} segments, ${task.progress}% complete`}
+        onMouseEnter={() => setIsHovered(true)}
+        onMouseLeave={() => setIsHovered(false)}
+      >
+        <div
+          className="absolute inset-x-0 top-1/2 pointer-events-none"
+          style={{ borderTop: `2px dashed ${task.color}80`, marginTop: -1 }}
+        />
+        {segments.map((segment, index) => {
+          const startDays = getTimelineOffsetDays(segment.startDate, timelineStart, task.hasTime) - taskStartDays;
+          const endDays = getTimelineOffsetDays(segment.endDate, timelineStart, task.hasTime) - taskStartDays;
+          // Progress fills the worked time in order, segment by segment
+          const segmentMs = segment.endDate.getTime() - segment.startDate.getTime();
+          const segmentFrom = workedBefore / workedMs;
+          workedBefore += segmentMs;
+          const filled = Math.max(0, Math.min(1, (task.progress / 100 - segmentFrom) / (segmentMs / workedMs)));
+          return (
+            <div
+              key={index}
+              className={`absolute inset-y-0 ${barRadius} ${onDateChange ? 'cursor-grab active:cursor-grabbing' : ''}`}
+              style={{
+                boxShadow,
+                left: `${(startDays / taskDurationDays) * 100}%`,
+                width: `${((endDays - startDays) / taskDurationDays) * 100}%`,
+                minWidth: 6,
+                backgroundColor: task.color,
+              }}
+              onMouseDown={onDateChange ? (e) => handleSegmentDragStart(e, index) : undefined}
+              onTouchStart={onDateChange ? (e) => handleSegmentDragStart(e, index) : undefined}
+            >
+              {showProgress && filled < 1 && (
+                <div className={`absolute inset-0 ${barRadius} overflow-hidden pointer-events-none`}>
+                  <div className="absolute inset-y-0 right-0 bg-black/25" style={{ width: `${(1 - filled) * 100}%` }} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  })();
+
+  const barElement = isSummary ? summaryBarElement : splitBarElement || taskBarElement;
+
   // Calculate indentation for hierarchy (match task list indentation)
   const indentPx = level * 16;
 
@@ -490,7 +824,7 @@ export function TaskBar({
         >
           <div className="bg-indigo-600 text-white text-xs font-bold px-2.5 py-1 rounded-md shadow-lg whitespace-nowrap flex items-center gap-1">
             <span className="tabular-nums">{currentDuration}</span>
-            <span className="text-indigo-200">일</span>
+            <span className="text-indigo-200">{snapToHours ? '시간' : '일'}</span>
           </div>
           {/* Arrow pointing down */}
           <div className="absolute left-1/2 -translate-x-1/2 -bottom-1 w-2 h-2 bg-indigo-600 rotate-45 shadow-lg" />
@@ -510,18 +844,20 @@ export function TaskBar({
       {/* Drag guide overlay */}
       {dragGuideOverlay}
 
+      {connectorHandles}
+
       {/* Task Bar with optional tooltip */}
       {showTooltips && !isActive ? (
         <Tooltip delayDuration={400}>
           <TooltipTrigger asChild>
-            {taskBarElement}
+            {barElement}
           </TooltipTrigger>
           <TooltipContent side="top" className="max-w-xs">
             {tooltipContent}
           </TooltipContent>
         </Tooltip>
       ) : (
-        taskBarElement
+        barElement
       )}
     </div>
   );
@@ -8,7 +8,7 @@ import { Switch } from './ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Checkbox } from './ui/checkbox';
 import { Trash2, Flag, Link2 } from 'lucide-react';
-import { Task, LinearCycleInfo } from './GanttChart';
+import { Task, TaskDependency, LinearCycleInfo } from './GanttChart';
 
 interface AssigneeOption {
   id: string;
@@ -55,7 +55,7 @@ export function TaskForm({ task, tasks, parentTaskId, onSubmit, onDelete, onCanc
     color: predefinedColors[0],
     parentId: '',
     isMilestone: false,
-    dependencies: [] as string[],
+    dependencies: [] as TaskDependency[],
     assigneeId: '',
     assignee: '',
     teamId: '',
@@ -213,9 +213,9 @@ export function TaskForm({ task, tasks, parentTaskId, onSubmit, onDelete, onCanc
   const toggleDependency = (taskId: string) => {
     setFormData(prev => ({
       ...prev,
-      dependencies: prev.dependencies.includes(taskId)
-        ? prev.dependencies.filter(id => id !== taskId)
-        : [...prev.dependencies, taskId],
+      dependencies: prev.dependencies.some(d => d.taskId === taskId)
+        ? prev.dependencies.filter(d => d.taskId !== taskId)
+        : [...prev.dependencies, { taskId, type: 'FS', lagDays: 0 }],
     }));
   };
 
@@ -468,7 +468,7 @@ export function TaskForm({ task, tasks, parentTaskId, onSubmit, onDelete, onCanc
               <div key={dep.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50 transition-colors">
                 <Checkbox
                   id={`dep-${dep.id}`}
-                  checked={formData.dependencies.includes(dep.id)}
+                  checked={formData.dependencies.some(d => d.taskId === dep.id)}
                   onCheckedChange={() => toggleDependency(dep.id)}
                   className="h-5 w-5"
                 />
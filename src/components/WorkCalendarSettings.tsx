@@ -0,0 +1,304 @@
+import React, { useState, useRef } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from './ui/sheet';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Separator } from './ui/separator';
+import { CalendarDays, Upload, X, Plus, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { WorkCalendar, defaultWorkCalendar, parseIcsHolidays, mergeHolidays } from '../utils/workCalendar';
+
+interface WorkCalendarSettingsProps {
+  calendar: WorkCalendar;
+  onCalendarChange: (calendar: WorkCalendar) => void;
+  assignees: string[];
+}
+
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const formatHolidayDate = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('ko', { year: 'numeric', month: 'short', day: 'numeric', weekday: 'short' });
+};
+
+export function WorkCalendarSettings({ calendar, onCalendarChange, assignees }: WorkCalendarSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const [dayOffAssignee, setDayOffAssignee] = useState('');
+  const [dayOffDate, setDayOffDate] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleWeekday = (day: number) => {
+    const isWorking = calendar.workingWeekdays.includes(day);
+    if (isWorking && calendar.workingWeekdays.length === 1) {
+      toast.error('근무 요일이 최소 하루는 있어야 합니다');
+      return;
+    }
+    onCalendarChange({
+      ...calendar,
+      workingWeekdays: isWorking
+        ? calendar.workingWeekdays.filter(d => d !== day)
+        : [...calendar.workingWeekdays, day].sort(),
+    });
+  };
+
+  const addHoliday = () => {
+    if (!holidayDate) return;
+    onCalendarChange({
+      ...calendar,
+      holidays: mergeHolidays(calendar.holidays, [{ date: holidayDate, name: holidayName.trim() || '휴일' }]),
+    });
+    setHolidayDate('');
+    setHolidayName('');
+  };
+
+  const removeHoliday = (date: string) => {
+    onCalendarChange({ ...calendar, holidays: calendar.holidays.filter(h => h.date !== date) });
+  };
+
+  const handleIcsImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const holidays = parseIcsHolidays(event.target?.result as string);
+        if (holidays.length === 0) {
+          toast.error('가져올 일정이 없습니다', { description: 'VEVENT가 포함된 ICS 파일인지 확인하세요' });
+          return;
+        }
+        onCalendarChange({ ...calendar, holidays: mergeHolidays(calendar.holidays, holidays) });
+        toast.success('공휴일 가져오기 완료', { description: `${holidays.length}일 추가됨` });
+      } catch (error) {
+        console.error('Failed to parse ICS file:', error);
+        toast.error('ICS 파일을 읽을 수 없습니다');
+      }
+    };
+    reader.readAsText(file);
+
+    // Allow importing the same file again
+    e.target.value = '';
+  };
+
+  const addDayOff = () => {
+    if (!dayOffAssignee || !dayOffDate) return;
+    const current = calendar.daysOff[dayOffAssignee] || [];
+    if (current.includes(dayOffDate)) return;
+    onCalendarChange({
+      ...calendar,
+      daysOff: { ...calendar.daysOff, [dayOffAssignee]: [...current, dayOffDate].sort() },
+    });
+    setDayOffDate('');
+  };
+
+  const removeDayOff = (assignee: string, date: string) => {
+    const remaining = (calendar.daysOff[assignee] || []).filter(d => d !== date);
+    const daysOff = { ...calendar.daysOff };
+    if (remaining.length > 0) {
+      daysOff[assignee] = remaining;
+    } else {
+      delete daysOff[assignee];
+    }
+    onCalendarChange({ ...calendar, daysOff });
+  };
+
+  const assigneesWithDaysOff = Object.keys(calendar.daysOff).filter(a => calendar.daysOff[a].length > 0);
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon" className="h-10 w-10" title="근무 캘린더">
+          <CalendarDays className="h-5 w-5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-[340px] sm:w-[420px] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center justify-between text-lg font-bold">
+            <span>근무 캘린더</span>
+            <Button variant="ghost" size="sm" onClick={() => onCalendarChange(defaultWorkCalendar)} className="h-9 gap-2 text-[14px]">
+              <RotateCcw className="h-4 w-4" />
+              초기화
+            </Button>
+          </SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-7 mt-7">
+          {/* Working weekdays */}
+          <div className="space-y-4">
+            <h3 className="text-[13px] font-bold text-muted-foreground uppercase tracking-wider">
+              근무 요일
+            </h3>
+            <div className="flex gap-1.5">
+              {WEEKDAY_LABELS.map((label, day) => {
+                const isWorking = calendar.workingWeekdays.includes(day);
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`w-10 h-10 rounded-lg text-sm font-semibold border transition-colors ${
+                      isWorking ? 'bg-primary text-primary-foreground border-primary' : 'bg-muted/40 text-muted-foreground border-border/50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">기간 계산, 드래그 스냅, 자동 일정 조정에 사용됩니다</p>
+          </div>
+
+          <Separator />
+
+          {/* Holidays */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-[13px] font-bold text-muted-foreground uppercase tracking-wider">
+                공휴일 ({calendar.holidays.length})
+              </h3>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" className="h-8 gap-1.5 text-xs" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="h-3.5 w-3.5" />
+                  ICS 가져오기
+                </Button>
+                {calendar.holidays.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 text-xs text-destructive"
+                    onClick={() => onCalendarChange({ ...calendar, holidays: [] })}
+                  >
+                    모두 삭제
+                  </Button>
+                )}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleIcsImport}
+                className="hidden"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={holidayDate}
+                onChange={(e) => setHolidayDate(e.target.value)}
+                className="w-40"
+              />
+              <Input
+                value={holidayName}
+                onChange={(e) => setHolidayName(e.target.value)}
+                placeholder="이름 (예: 추석)"
+                onKeyDown={(e) => e.key === 'Enter' && addHoliday()}
+              />
+              <Button variant="outline" size="icon" className="shrink-0" onClick={addHoliday} disabled={!holidayDate}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {calendar.holidays.length === 0 ? (
+              <p className="text-xs text-muted-foreground">등록된 공휴일이 없습니다. 설날·추석 등은 ICS 파일로 한 번에 가져올 수 있습니다.</p>
+            ) : (
+              <div className="max-h-56 overflow-y-auto border border-border/50 rounded-lg divide-y divide-border/40">
+                {calendar.holidays.map((holiday) => (
+                  <div key={holiday.date} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                    <span className="tabular-nums text-muted-foreground w-36 shrink-0">{formatHolidayDate(holiday.date)}</span>
+                    <span className="flex-1 truncate">{holiday.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeHoliday(holiday.date)}
+                      className="text-muted-foreground hover:text-destructive"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Per-assignee days off */}
+          <div className="space-y-4">
+            <h3 className="text-[13px] font-bold text-muted-foreground uppercase tracking-wider">
+              담당자별 휴무
+            </h3>
+
+            {assignees.length === 0 ? (
+              <p className="text-xs text-muted-foreground">담당자가 지정된 태스크가 없습니다</p>
+            ) : (
+              <div className="flex gap-2">
+                <Select value={dayOffAssignee} onValueChange={setDayOffAssignee}>
+                  <SelectTrigger className="flex-1 min-w-0">
+                    <SelectValue placeholder="담당자" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignees.map((assignee) => (
+                      <SelectItem key={assignee} value={assignee}>
+                        {assignee}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="date"
+                  value={dayOffDate}
+                  onChange={(e) => setDayOffDate(e.target.value)}
+                  className="w-40"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="shrink-0"
+                  onClick={addDayOff}
+                  disabled={!dayOffAssignee || !dayOffDate}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {assigneesWithDaysOff.map((assignee) => (
+              <div key={assignee} className="space-y-1.5">
+                <Label className="text-sm">{assignee}</Label>
+                <div className="flex flex-wrap gap-1.5">
+                  {calendar.daysOff[assignee].map((date) => (
+                    <span
+                      key={date}
+                      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs tabular-nums"
+                      style={{ backgroundColor: '#8b5cf620', color: '#7c3aed' }}
+                    >
+                      {formatHolidayDate(date)}
+                      <button type="button" onClick={() => removeDayOff(assignee, date)}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
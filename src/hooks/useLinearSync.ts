@@ -22,6 +22,40 @@ import {
 } from '../services/linear';
 import { Sprint, SprintTask } from '../types/sprint';
 import { toast } from 'sonner';
+import { createDependencyLinkChecker, describeDependencyCycle, DependencyCycle } from '../utils/dependencyCycles';
+import { sortBySortOrder } from '../utils/sortOrder';
+
+// Re-adds dependencies one by one and skips any that would close a loop,
+// so blockedBy relations in Linear can never produce an unschedulable plan
+function dropCyclicDependencies(tasks: SprintTask[]): SprintTask[] {
+  const accepted = tasks.map(task => ({ ...task, dependencies: [] as string[] }));
+  const indexById = new Map(tasks.map((task, index) => [task.id, index]));
+  const checker = createDependencyLinkChecker(tasks);
+  const cycles: DependencyCycle[] = [];
+
+  tasks.forEach((task, index) => {
+    (task.dependencies || []).forEach(predId => {
+      const cycle = checker.addLink(predId, task.id);
+      if (cycle) {
+        cycles.push(cycle);
+      } else {
+        accepted[index].dependencies!.push(predId);
+      }
+    });
+  });
+
+  if (cycles.length > 0) {
+    const nameOf = (id: string) => tasks[indexById.get(id)!]?.name || id;
+    toast.error(`순환 의존성 ${cycles.length}개 제외됨`, {
+      description: cycles.slice(0, 3).map(cycle => describeDependencyCycle(cycle, nameOf)).join(' / '),
+    });
+  }
+
+  return accepted.map(task => ({
+    ...task,
+    dependencies: task.dependencies!.length > 0 ? task.dependencies : undefined,
+  }));
+}
 
 export interface UseLinearSyncOptions {
   autoSync?: boolean;
@@ -214,9 +248,10 @@ export function useLinearSync(options: UseLinearSyncOptions = {}) {
 
       // Convert to SprintTask format
       const sprintId = linearCycle ? `linear-cycle-${linearCycle.id}` : undefined;
-      let convertedTasks: SprintTask[] = linearIssues.map(issue =>
+      // Linear's ranking rather than the fetch order, which changes between syncs
+      let convertedTasks: SprintTask[] = sortBySortOrder(linearIssues.map(issue =>
         convertLinearIssueToSprintTask(issue, sprintId) as SprintTask
-      );
+      ));
 
       // Convert linearBlockedBy to dependencies (task IDs)
       const linearIssueToTaskId = new Map<string, string>();
@@ -238,6 +273,7 @@ export function useLinearSync(options: UseLinearSyncOptions = {}) {
         }
         return task;
       });
+      convertedTasks = dropCyclicDependencies(convertedTasks);
 
       // Convert cycle to Sprint if exists
       const convertedSprints: Sprint[] = [];
@@ -428,6 +464,10 @@ export function useLinearSync(options: UseLinearSyncOptions = {}) {
     try {
       // First, fetch the issue's relations to find the relation ID
       const relations = await fetchIssueRelations(apiKey, issueId);
+      if (!relations) {
+        toast.error('Linear 의존성 삭제 실패');
+        return false;
+      }
       const relation = relations.find(r => r.relatedIssue.id === relatedIssueId);
 
       if (relation) {
@@ -446,6 +486,7 @@ export function useLinearSync(options: UseLinearSyncOptions = {}) {
   }, [apiKey]);
 
   // Helper: Convert linearBlockedBy to dependencies (task IDs)
+  // Relations that would close a loop are left out and reported
   const convertLinearDependenciesToTaskIds = useCallback((
     allTasks: SprintTask[]
   ): SprintTask[] => {
@@ -458,7 +499,7 @@ export function useLinearSync(options: UseLinearSyncOptions = {}) {
     });
 
     // Update tasks with converted dependencies
-    return allTasks.map(task => {
+    const convertedTasks = allTasks.map(task => {
       if (task.linearBlockedBy && task.linearBlockedBy.length > 0) {
         const dependencies = task.linearBlockedBy
           .map(linearId => linearIssueToTaskId.get(linearId))
@@ -471,6 +512,8 @@ export function useLinearSync(options: UseLinearSyncOptions = {}) {
       }
       return task;
     });
+
+    return dropCyclicDependencies(convertedTasks);
   }, []);
 
   // Manual sync trigger
@@ -18,6 +18,7 @@ export interface LinearProject {
   state: string;
   startDate: string | null;
   targetDate: string | null;
+  sortOrder?: number;
 }
 
 export interface LinearIssue {
@@ -32,6 +33,8 @@ export interface LinearIssue {
   createdAt: string;
   startedAt: string | null;
   estimate: number | null;
+  sortOrder?: number; // rank in Linear's manually ordered views
+  subIssueSortOrder?: number | null; // rank among the sub-issues of its parent
   project: {
     id: string;
     name: string;
@@ -309,6 +312,7 @@ export async function fetchLinearProjects(apiKey: string, teamId?: string): Prom
           state
           startDate
           targetDate
+          sortOrder
           teams {
             nodes {
               id
@@ -387,6 +391,8 @@ export async function fetchLinearIssues(
           startedAt
           updatedAt
           estimate
+          sortOrder
+          subIssueSortOrder
           project {
             id
             name
@@ -558,6 +564,8 @@ export async function fetchLinearCycleIssues(
             startedAt
             updatedAt
             estimate
+            sortOrder
+            subIssueSortOrder
             project {
               id
               name
@@ -652,6 +660,8 @@ export async function fetchLinearBacklogIssues(
           startedAt
           updatedAt
           estimate
+          sortOrder
+          subIssueSortOrder
           project {
             id
             name
@@ -720,9 +730,13 @@ export async function fetchLinearData(apiKey: string, teamId?: string): Promise<
 }
 
 // Convert Linear data to Gantt chart tasks
+// Sub-issues are ranked among their siblings by subIssueSortOrder, as syncHierarchyToLinear writes it
+const getIssueSortOrder = (issue: LinearIssue & { parent?: { id: string } | null }) =>
+  issue.parent ? issue.subIssueSortOrder ?? issue.sortOrder : issue.sortOrder;
+
 export function convertLinearToTasks(
   projects: LinearProject[],
-  issues: LinearIssue[],
+  issues: (LinearIssue & { parent?: { id: string } | null })[],
   selectedProjectIds: string[]
 ) {
   const tasks: Array<{
@@ -740,6 +754,9 @@ export function convertLinearToTasks(
     teamId?: string;
     teamName?: string;
     teamIcon?: string;
+    cycleId?: string;
+    cycleName?: string;
+    sortOrder?: number;
   }> = [];
 
   const projectColors = [
@@ -808,6 +825,7 @@ export function convertLinearToTasks(
       progress,
       color,
       linearProjectId: project.id,
+      sortOrder: project.sortOrder,
     });
 
     // Add issues as subtasks
@@ -855,6 +873,9 @@ export function convertLinearToTasks(
         teamId: issue.team?.id,
         teamName: issue.team?.name,
         teamIcon: issue.team?.icon,
+        cycleId: issue.cycle?.id,
+        cycleName: issue.cycle?.name,
+        sortOrder: getIssueSortOrder(issue),
       });
     });
   });
@@ -881,6 +902,7 @@ export async function updateLinearProject(
     name?: string;
     startDate?: string | null;
     targetDate?: string | null;
+    sortOrder?: number;
   }
 ): Promise<boolean> {
   const updateFields: string[] = [];
@@ -894,6 +916,9 @@ export async function updateLinearProject(
   if (updates.targetDate !== undefined) {
     updateFields.push(`targetDate: ${updates.targetDate ? `"${updates.targetDate}"` : 'null'}`);
   }
+  if (updates.sortOrder !== undefined) {
+    updateFields.push(`sortOrder: ${updates.sortOrder}`);
+  }
 
   if (updateFields.length === 0) return true;
 
@@ -951,8 +976,12 @@ export async function updateLinearIssue(
   }
 }
 
-// Helper to format date for Linear API (YYYY-MM-DD)
-export function formatDateForLinear(date: Date): string {
+// Helper to format date for Linear API (YYYY-MM-DD).
+// All-day dates are stored at UTC midnight; timed dates use their local calendar day.
+export function formatDateForLinear(date: Date, hasTime = false): string {
+  if (hasTime) {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
   return date.toISOString().split('T')[0];
 }
 
@@ -1038,6 +1067,7 @@ export interface SprintTaskFromLinear {
   linearIssueId: string;
   linearParentIssueId?: string;
   labels?: string[];
+  sortOrder?: number;
   // State info
   stateId?: string;
   stateName?: string;
@@ -1118,6 +1148,7 @@ export function convertLinearIssueToSprintTask(
     linearIssueId: issue.id,
     linearParentIssueId: issue.parent?.id,
     labels: issue.labels?.nodes?.map(l => l.name),
+    sortOrder: getIssueSortOrder(issue),
     // State info
     stateId: issue.state.id,
     stateName: issue.state.name,
@@ -1454,6 +1485,10 @@ export async function updateLinearIssueExtended(
     labelIds?: string[];
     parentId?: string | null;
     stateId?: string;
+    teamId?: string;
+    projectId?: string;
+    sortOrder?: number;
+    subIssueSortOrder?: number;
   }
 ): Promise<boolean> {
   const updateFields: string[] = [];
@@ -1485,6 +1520,18 @@ export async function updateLinearIssueExtended(
   if (updates.stateId !== undefined) {
     updateFields.push(`stateId: "${updates.stateId}"`);
   }
+  if (updates.teamId !== undefined) {
+    updateFields.push(`teamId: "${updates.teamId}"`);
+  }
+  if (updates.projectId !== undefined) {
+    updateFields.push(`projectId: "${updates.projectId}"`);
+  }
+  if (updates.sortOrder !== undefined) {
+    updateFields.push(`sortOrder: ${updates.sortOrder}`);
+  }
+  if (updates.subIssueSortOrder !== undefined) {
+    updateFields.push(`subIssueSortOrder: ${updates.subIssueSortOrder}`);
+  }
 
   if (updateFields.length === 0) return true;
 
@@ -1997,11 +2044,11 @@ export async function updateIssueState(
   }
 }
 
-// Fetch issue relations (dependencies)
+// Fetch issue relations (dependencies); null when the request fails, so callers can tell it from "none"
 export async function fetchIssueRelations(
   apiKey: string,
   issueId: string
-): Promise<LinearIssueRelation[]> {
+): Promise<LinearIssueRelation[] | null> {
   const query = `{
     issue(id: "${issueId}") {
       relations {
@@ -2061,7 +2108,7 @@ export async function fetchIssueRelations(
     return relations;
   } catch (error) {
     console.error('Failed to fetch issue relations:', error);
-    return [];
+    return null;
   }
 }
 
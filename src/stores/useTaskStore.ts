@@ -16,6 +16,7 @@ import {
   LinearIssue,
   LinearCycle,
 } from '../services/linear';
+import { sortBySortOrder } from '../utils/sortOrder';
 
 // Unified Task type that works for both Timeline and Sprint views
 export interface UnifiedTask {
@@ -29,6 +30,7 @@ export interface UnifiedTask {
 
   // Hierarchy
   parentId?: string;
+  sortOrder?: number; // manual rank among siblings, shared with Linear's sortOrder
 
   // Linear Integration
   linearProjectId?: string;
@@ -433,6 +435,7 @@ export const useTaskStore = create<TaskStore>()(
               status: project.state === 'completed' ? 'done' : 'in_progress',
               priority: 'none',
               linearProjectId: project.id,
+              sortOrder: project.sortOrder,
             });
           });
 
@@ -460,11 +463,12 @@ export const useTaskStore = create<TaskStore>()(
               linearCycleId: issue.cycle?.id,
               parentId: parentProjectTask?.id,
               labels: issue.labels?.nodes?.map(l => ({ name: l.name, color: '#6b7280' })),
+              sortOrder: issue.sortOrder,
             });
           });
 
           set({
-            tasks: newTasks,
+            tasks: sortBySortOrder(newTasks),
             isSyncing: false,
             lastSyncAt: new Date(),
           });
@@ -34,6 +34,7 @@ export interface SprintTask {
   linearIssueId?: string;
   linearParentIssueId?: string;
   labels?: string[];
+  sortOrder?: number; // manual rank within a board column, shared with Linear's sortOrder
   // Linear workflow state
   stateId?: string;
   stateName?: string;
@@ -0,0 +1,155 @@
+import { Task, TaskDependency } from '../components/GanttChart';
+import { getRequiredStart } from './dependencies';
+import { WorkCalendar, addWorkingDays, countWorkingDays, snapToWorkingDay } from './workCalendar';
+import { isSplitTask } from './taskSegments';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HOUR_MS = 1000 * 60 * 60;
+
+// Half an hour of tolerance absorbs DST shifts and time-of-day noise
+const EPSILON_MS = DAY_MS / 48;
+
+export interface ScheduleChange {
+  startDate: Date;
+  endDate: Date;
+}
+
+const shiftDays = (date: Date, days: number) => {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted;
+};
+
+const workDuration = (task: Task, calendar: WorkCalendar) =>
+  Math.max(1, countWorkingDays(task.startDate, task.endDate, calendar, task.assignee));
+
+/**
+ * Earliest start (ms) a link allows for its successor given the predecessor's dates.
+ * With a work calendar, lag and the successor's length count working days,
+ * except for timed successors, which keep their elapsed length.
+ */
+export function getLinkRequiredStart(
+  link: TaskDependency,
+  predDates: ScheduleChange,
+  task: Task,
+  calendar?: WorkCalendar
+): number {
+  if (!calendar || task.hasTime) {
+    const duration = task.endDate.getTime() - task.startDate.getTime();
+    return getRequiredStart(link, predDates.startDate.getTime(), predDates.endDate.getTime(), duration, DAY_MS);
+  }
+  const fromStart = link.type === 'SS' || link.type === 'SF';
+  const anchor = addWorkingDays(fromStart ? predDates.startDate : predDates.endDate, link.lagDays, calendar);
+  if (link.type === 'FS' || link.type === 'SS') return snapToWorkingDay(anchor, calendar, task.assignee).getTime();
+  // FF/SF constrain the finish, so back off by the successor's working length
+  return addWorkingDays(anchor, -workDuration(task, calendar), calendar, task.assignee).getTime();
+}
+
+/**
+ * Applies new dates to one task and cascades them through its successors.
+ *
+ * A successor that was sitting right against its constraint follows the
+ * predecessor both ways (pushed forward or pulled back); one with slack only
+ * moves when the new dates would violate a link. Durations are preserved and
+ * shifts are whole days, or whole hours for timed tasks. With a work
+ * calendar, lags and durations of all-day tasks count working days and
+ * shifted tasks start on a working day of their assignee.
+ * The result holds every task whose dates change, including the edited one.
+ */
+export function cascadeSchedule(
+  tasks: Task[],
+  taskId: string,
+  newStartDate: Date,
+  newEndDate: Date,
+  calendar?: WorkCalendar
+): Map<string, ScheduleChange> {
+  const changes = new Map<string, ScheduleChange>();
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+  if (!taskById.has(taskId)) return changes;
+
+  changes.set(taskId, { startDate: newStartDate, endDate: newEndDate });
+
+  const successors = new Map<string, string[]>();
+  tasks.forEach(t => {
+    (t.dependencies || []).forEach(link => {
+      if (link.taskId === t.id || !taskById.has(link.taskId)) return;
+      if (!successors.has(link.taskId)) successors.set(link.taskId, []);
+      successors.get(link.taskId)!.push(t.id);
+    });
+  });
+
+  // Reverse DFS post-order gives a topological order of everything downstream.
+  // Back edges (cycles) are ignored so the walk always terminates.
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const visit = (id: string) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    (successors.get(id) || []).forEach(visit);
+    order.push(id);
+  };
+  visit(taskId);
+  order.reverse();
+
+  const currentDates = (task: Task): ScheduleChange => changes.get(task.id) || task;
+
+  const requiredStartOf = (task: Task, datesOf: (t: Task) => ScheduleChange) => {
+    let required: number | null = null;
+    (task.dependencies || []).forEach((link: TaskDependency) => {
+      const pred = taskById.get(link.taskId);
+      if (!pred || pred.id === task.id) return;
+      const value = getLinkRequiredStart(link, datesOf(pred), task, calendar);
+      required = required === null ? value : Math.max(required, value);
+    });
+    return required;
+  };
+
+  order.forEach(id => {
+    if (id === taskId) return;
+    const task = taskById.get(id)!;
+
+    const oldRequired = requiredStartOf(task, t => t);
+    const newRequired = requiredStartOf(task, currentDates);
+    if (oldRequired === null || newRequired === null) return;
+
+    const start = task.startDate.getTime();
+    const wasDriven = start <= oldRequired + EPSILON_MS;
+    const target = wasDriven ? newRequired : Math.max(start, newRequired);
+
+    // Timed tasks move by the exact offset and keep their elapsed length
+    if (task.hasTime) {
+      const deltaMs = Math.round((target - start) / HOUR_MS) * HOUR_MS;
+      if (deltaMs === 0) return;
+      changes.set(id, {
+        startDate: new Date(start + deltaMs),
+        endDate: new Date(task.endDate.getTime() + deltaMs),
+      });
+      return;
+    }
+
+    const deltaDays = Math.round((target - start) / DAY_MS);
+    if (deltaDays === 0) return;
+
+    if (calendar) {
+      const startDate = snapToWorkingDay(shiftDays(task.startDate, deltaDays), calendar, task.assignee);
+      if (startDate.getTime() === start) return;
+      // Segment offsets are calendar days from the start, so a split task moves as a whole
+      if (isSplitTask(task)) {
+        changes.set(id, { startDate, endDate: shiftDays(task.endDate, Math.round((startDate.getTime() - start) / DAY_MS)) });
+        return;
+      }
+      changes.set(id, {
+        startDate,
+        endDate: addWorkingDays(startDate, workDuration(task, calendar), calendar, task.assignee),
+      });
+      return;
+    }
+
+    changes.set(id, {
+      startDate: shiftDays(task.startDate, deltaDays),
+      endDate: shiftDays(task.endDate, deltaDays),
+    });
+  });
+
+  return changes;
+}
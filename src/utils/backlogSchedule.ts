@@ -0,0 +1,77 @@
+import { Task } from '../components/GanttChart';
+import { SprintTask } from '../types/sprint';
+import { WorkCalendar, addWorkingDays, snapToWorkingDay, toDateKey } from './workCalendar';
+import { ResourceCapacity, getCapacity } from './resourceLoad';
+
+const LABEL_FALLBACK_COLOR = '#6b7280';
+
+// What BacklogPanel puts in the drag data; dates arrive as ISO strings
+export type BacklogDragItem = Omit<SprintTask, 'startDate' | 'endDate'>;
+
+export const BACKLOG_DRAG_SOURCE = 'backlog';
+
+// The backlog item of a drag payload, or null for anything else being dragged
+export function parseBacklogDragData(data: string): BacklogDragItem | null {
+  if (!data) return null;
+  try {
+    const parsed = JSON.parse(data);
+    return parsed?.source === BACKLOG_DRAG_SOURCE && parsed.task?.id ? parsed.task : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * All-day dates for a backlog item dropped on `day`: it starts on the first
+ * working day from there and lasts as many working days as its estimate
+ * takes at the assignee's capacity, one day without an estimate. Dates are
+ * UTC midnight, as the task form stores them.
+ */
+export function getBacklogSchedule(
+  item: Pick<SprintTask, 'storyPoints' | 'assignee'>,
+  day: Date,
+  calendar: WorkCalendar,
+  capacity: ResourceCapacity
+): { startDate: Date; endDate: Date } {
+  const start = snapToWorkingDay(day, calendar, item.assignee);
+  const pointsPerDay = item.assignee ? getCapacity(capacity, item.assignee) : capacity.defaultPointsPerDay;
+  const days = item.storyPoints && pointsPerDay > 0 ? Math.max(1, Math.ceil(item.storyPoints / pointsPerDay)) : 1;
+  const end = addWorkingDays(start, days, calendar, item.assignee);
+  return { startDate: new Date(toDateKey(start)), endDate: new Date(toDateKey(end)) };
+}
+
+/**
+ * Timeline task for a backlog item. Linear issues get the id an import would
+ * give them so the next sync replaces rather than duplicates them. Labels
+ * take their color from `knownLabels` when a task already uses them.
+ */
+export function createTaskFromBacklogItem(
+  item: BacklogDragItem,
+  schedule: { startDate: Date; endDate: Date },
+  knownLabels: { id?: string; name: string; color: string }[]
+): Task {
+  return {
+    id: item.linearIssueId ? `linear-issue-${item.linearIssueId}` : `task-${Date.now()}`,
+    name: item.name,
+    description: item.description,
+    startDate: schedule.startDate,
+    endDate: schedule.endDate,
+    progress: item.progress,
+    color: item.color,
+    priority: item.priority,
+    estimate: item.storyPoints,
+    assignee: item.assignee,
+    assigneeId: item.assigneeId,
+    assigneeAvatarUrl: item.assigneeAvatarUrl,
+    teamId: item.teamId,
+    teamName: item.team,
+    labels: item.labels?.map(name => knownLabels.find(l => l.name === name) || { name, color: LABEL_FALLBACK_COLOR }),
+    linearIssueId: item.linearIssueId,
+    linearParentIssueId: item.linearParentIssueId,
+    stateId: item.stateId,
+    stateName: item.stateName,
+    stateType: item.stateType,
+    linearBlocks: item.linearBlocks,
+    linearBlockedBy: item.linearBlockedBy,
+  };
+}
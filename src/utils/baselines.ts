@@ -0,0 +1,69 @@
+import { Task } from '../components/GanttChart';
+import { WorkCalendar, countWorkingDays } from './workCalendar';
+
+export interface BaselineEntry {
+  startDate: Date;
+  endDate: Date;
+  progress: number;
+}
+
+export interface GanttBaseline {
+  id: string;
+  name: string;
+  createdAt: Date;
+  tasks: Record<string, BaselineEntry>; // task id -> snapshot
+}
+
+export function createBaseline(name: string, tasks: Task[]): GanttBaseline {
+  const snapshot: Record<string, BaselineEntry> = {};
+  tasks.forEach(t => {
+    snapshot[t.id] = {
+      startDate: new Date(t.startDate),
+      endDate: new Date(t.endDate),
+      progress: t.progress,
+    };
+  });
+  return {
+    id: `baseline-${Date.now()}`,
+    name,
+    createdAt: new Date(),
+    tasks: snapshot,
+  };
+}
+
+// Restores Date objects after JSON round-trips (localStorage, exported files)
+export function parseBaselines(raw: unknown): GanttBaseline[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((b: any) => b && typeof b.id === 'string' && b.tasks && typeof b.tasks === 'object')
+    .map((b: any) => {
+      const tasks: Record<string, BaselineEntry> = {};
+      Object.entries(b.tasks).forEach(([taskId, entry]: [string, any]) => {
+        tasks[taskId] = {
+          startDate: new Date(entry.startDate),
+          endDate: new Date(entry.endDate),
+          progress: Number(entry.progress) || 0,
+        };
+      });
+      return {
+        id: b.id,
+        name: b.name || '베이스라인',
+        createdAt: new Date(b.createdAt),
+        tasks,
+      };
+    });
+}
+
+/**
+ * Days the task's finish has slipped against the baseline (negative = ahead).
+ * Counts working days when a calendar is given.
+ */
+export function getFinishVariance(task: Task, entry: BaselineEntry, calendar?: WorkCalendar): number {
+  const later = task.endDate > entry.endDate ? task.endDate : entry.endDate;
+  const earlier = task.endDate > entry.endDate ? entry.endDate : task.endDate;
+  const sign = task.endDate > entry.endDate ? 1 : -1;
+  const days = calendar
+    ? countWorkingDays(earlier, later, calendar, task.assignee)
+    : Math.round((later.getTime() - earlier.getTime()) / (1000 * 60 * 60 * 24));
+  return sign * days;
+}
@@ -0,0 +1,70 @@
+import { Task } from '../components/GanttChart';
+import { WorkCalendar } from './workCalendar';
+import { cascadeSchedule } from './autoSchedule';
+import { getTimelineOffsetDays, shiftByDays } from './taskTime';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HOUR_MS = 1000 * 60 * 60;
+
+/**
+ * Where a bar is drawn. All-day tasks are shown from local midnight of their
+ * day, which is where an hour-snapped drag of them starts from.
+ */
+export const getBarStart = (task: Pick<Task, 'startDate' | 'hasTime'>, timelineStart: Date) =>
+  task.hasTime ? task.startDate : shiftByDays(timelineStart, getTimelineOffsetDays(task.startDate, timelineStart));
+
+/**
+ * How far a dragged bar moved: whole days, or whole hours for timed drags.
+ * Other selected bars are shifted by the same amount.
+ */
+export function getMoveDelta(task: Task, newStartDate: Date, timelineStart: Date, byHours: boolean): number {
+  if (!byHours && !task.hasTime) return Math.round((newStartDate.getTime() - task.startDate.getTime()) / DAY_MS);
+  return Math.round((newStartDate.getTime() - getBarStart(task, timelineStart).getTime()) / HOUR_MS) / 24;
+}
+
+// A task moved by `deltaDays`; part-day moves turn all-day tasks into timed ones
+export function shiftTask(task: Task, deltaDays: number, timelineStart: Date): Task {
+  if (Number.isInteger(deltaDays) || task.hasTime) {
+    return { ...task, startDate: shiftByDays(task.startDate, deltaDays), endDate: shiftByDays(task.endDate, deltaDays) };
+  }
+  const startDate = shiftByDays(getBarStart(task, timelineStart), deltaDays);
+  const spanDays = Math.max(1, Math.round((task.endDate.getTime() - task.startDate.getTime()) / DAY_MS));
+  return { ...task, startDate, endDate: shiftByDays(startDate, spanDays), hasTime: true };
+}
+
+/**
+ * Moves every task in `ids` by the same amount. With auto-scheduling their
+ * successors follow, as when a single bar is dragged. Returns the tasks that
+ * changed, keyed by id.
+ */
+export function shiftTasks(
+  tasks: Task[],
+  ids: Iterable<string>,
+  deltaDays: number,
+  timelineStart: Date,
+  options: { autoSchedule?: boolean; calendar?: WorkCalendar; overrides?: Map<string, Task> } = {}
+): Map<string, Task> {
+  const changed = new Map<string, Task>();
+  const originals = new Map(tasks.map(t => [t.id, t]));
+  // Earliest first so a selected successor is placed after its selected predecessor moved
+  const moving = [...ids]
+    .map(id => originals.get(id))
+    .filter((t): t is Task => !!t)
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  let current = tasks;
+  moving.forEach(original => {
+    const moved = options.overrides?.get(original.id) || shiftTask(original, deltaDays, timelineStart);
+    const changes = options.autoSchedule
+      ? cascadeSchedule(current, original.id, moved.startDate, moved.endDate, options.calendar)
+      : new Map([[original.id, { startDate: moved.startDate, endDate: moved.endDate }]]);
+    current = current.map(t => {
+      const dates = changes.get(t.id);
+      if (!dates) return t;
+      const next = { ...t, ...dates, ...(t.id === original.id ? { hasTime: moved.hasTime } : {}) };
+      changed.set(t.id, next);
+      return next;
+    });
+  });
+  return changed;
+}
@@ -0,0 +1,197 @@
+import { Task, TaskDependency } from '../components/GanttChart';
+import { getRequiredStart } from './dependencies';
+import { WorkCalendar, addWorkingDays, countWorkingDays, isWorkingDay, snapToWorkingDay, toDateKey } from './workCalendar';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface TaskScheduleInfo {
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  totalFloat: number; // days the task can slip without moving the project end
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  schedule: Map<string, TaskScheduleInfo>;
+  criticalTaskIds: Set<string>;
+  criticalLinks: Set<string>; // `${fromId}->${toId}`
+  projectFinish: Date | null;
+}
+
+export const getLinkKey = (fromId: string, toId: string) => `${fromId}->${toId}`;
+
+// Day offsets relative to a fixed origin, so the passes can work with plain numbers.
+// With a work calendar the offsets count working days only, so weekends and
+// holidays inside a chain are not mistaken for float.
+const createDayAxis = (origin: number, calendar?: WorkCalendar) => {
+  if (!calendar) {
+    return {
+      toDays: (date: Date) => (date.getTime() - origin) / DAY_MS,
+      toStart: (days: number) => new Date(origin + days * DAY_MS),
+      toFinish: (days: number) => new Date(origin + days * DAY_MS),
+    };
+  }
+
+  const originDay = new Date(origin);
+  originDay.setHours(0, 0, 0, 0);
+  const offsets = new Map<string, number>();
+  // Working days before the date's day, plus the elapsed part of that day when it is worked
+  const toDays = (date: Date) => {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    const key = toDateKey(day);
+    if (!offsets.has(key)) offsets.set(key, countWorkingDays(originDay, day, calendar));
+    const elapsed = isWorkingDay(day, calendar) ? (date.getTime() - day.getTime()) / DAY_MS : 0;
+    return offsets.get(key)! + elapsed;
+  };
+  // Starts land on the next working day; finishes stay exclusive, right after the last worked day
+  const toDate = (days: number, snap: boolean) => {
+    const whole = Math.floor(days);
+    const base = addWorkingDays(originDay, whole, calendar);
+    const day = snap ? snapToWorkingDay(base, calendar) : base;
+    return new Date(day.getTime() + (days - whole) * DAY_MS);
+  };
+  return {
+    toDays,
+    toStart: (days: number) => toDate(days, true),
+    toFinish: (days: number) => toDate(days, false),
+  };
+};
+
+/**
+ * Critical path method over the task dependency network.
+ *
+ * Summary tasks (tasks with children) only mirror their subtasks and are left out.
+ * A task never starts earlier than its planned start date, so the forward pass
+ * yields the earliest dates the current plan allows; the backward pass then
+ * derives the latest dates that still keep the project end in place.
+ * Links honour their type (FS/SS/FF/SF) and lag; a negative lag is a lead.
+ * With a work calendar, durations, lags and float count working days.
+ */
+export function computeCriticalPath(tasks: Task[], calendar?: WorkCalendar): CriticalPathResult {
+  const schedule = new Map<string, TaskScheduleInfo>();
+  const criticalTaskIds = new Set<string>();
+  const criticalLinks = new Set<string>();
+
+  const parentIds = new Set(tasks.filter(t => t.parentId).map(t => t.parentId!));
+  const nodes = tasks.filter(t => !parentIds.has(t.id));
+  if (nodes.length === 0) {
+    return { schedule, criticalTaskIds, criticalLinks, projectFinish: null };
+  }
+
+  const nodeById = new Map(nodes.map(t => [t.id, t]));
+  const origin = Math.min(...nodes.map(t => t.startDate.getTime()));
+  const { toDays, toStart, toFinish } = createDayAxis(origin, calendar);
+
+  // Build predecessor/successor lists, ignoring links to unknown or summary tasks
+  const predecessors = new Map<string, TaskDependency[]>();
+  const successors = new Map<string, { taskId: string; link: TaskDependency }[]>();
+  nodes.forEach(t => {
+    predecessors.set(t.id, []);
+    successors.set(t.id, []);
+  });
+  nodes.forEach(t => {
+    (t.dependencies || []).forEach(link => {
+      if (link.taskId === t.id || !nodeById.has(link.taskId)) return;
+      predecessors.get(t.id)!.push(link);
+      successors.get(link.taskId)!.push({ taskId: t.id, link });
+    });
+  });
+
+  // Topological order (Kahn). Tasks caught in a cycle never reach in-degree 0
+  // and are simply left unscheduled.
+  const inDegree = new Map(nodes.map(t => [t.id, predecessors.get(t.id)!.length]));
+  const queue = nodes.filter(t => inDegree.get(t.id) === 0).map(t => t.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    successors.get(id)!.forEach(({ taskId: succId }) => {
+      const remaining = inDegree.get(succId)! - 1;
+      inDegree.set(succId, remaining);
+      if (remaining === 0) queue.push(succId);
+    });
+  }
+
+  const duration = (task: Task) =>
+    task.isMilestone ? 0 : Math.max(0, toDays(task.endDate) - toDays(task.startDate));
+
+  // Latest finish a link allows for its predecessor, given the successor's late dates
+  const allowedFinish = (link: TaskDependency, succStart: number, succFinish: number, predDuration: number) => {
+    switch (link.type) {
+      case 'SS': return succStart - link.lagDays + predDuration;
+      case 'FF': return succFinish - link.lagDays;
+      case 'SF': return succFinish - link.lagDays + predDuration;
+      default: return succStart - link.lagDays;
+    }
+  };
+
+  // Forward pass
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  order.forEach(id => {
+    const task = nodeById.get(id)!;
+    let es = toDays(task.startDate);
+    predecessors.get(id)!.forEach(link => {
+      if (!earlyStart.has(link.taskId)) return;
+      es = Math.max(es, getRequiredStart(link, earlyStart.get(link.taskId)!, earlyFinish.get(link.taskId)!, duration(task)));
+    });
+    earlyStart.set(id, es);
+    earlyFinish.set(id, es + duration(task));
+  });
+
+  if (order.length === 0) {
+    return { schedule, criticalTaskIds, criticalLinks, projectFinish: null };
+  }
+  const finish = Math.max(...order.map(id => earlyFinish.get(id)!));
+
+  // Backward pass
+  const lateStart = new Map<string, number>();
+  const lateFinish = new Map<string, number>();
+  [...order].reverse().forEach(id => {
+    const task = nodeById.get(id)!;
+    let lf = finish;
+    successors.get(id)!.forEach(({ taskId: succId, link }) => {
+      if (!lateStart.has(succId)) return;
+      lf = Math.min(lf, allowedFinish(link, lateStart.get(succId)!, lateFinish.get(succId)!, duration(task)));
+    });
+    lateFinish.set(id, lf);
+    lateStart.set(id, lf - duration(task));
+  });
+
+  // Half an hour of tolerance absorbs DST shifts and time-of-day noise
+  const EPSILON = 1 / 48;
+
+  order.forEach(id => {
+    const totalFloat = lateStart.get(id)! - earlyStart.get(id)!;
+    const isCritical = totalFloat <= EPSILON;
+    if (isCritical) criticalTaskIds.add(id);
+
+    schedule.set(id, {
+      earlyStart: toStart(earlyStart.get(id)!),
+      earlyFinish: toFinish(earlyFinish.get(id)!),
+      lateStart: toStart(lateStart.get(id)!),
+      lateFinish: toFinish(lateFinish.get(id)!),
+      totalFloat: Math.max(0, Math.round(totalFloat)),
+      isCritical,
+    });
+  });
+
+  // A link is on the critical chain when both ends are critical and the
+  // predecessor actually drives the successor's start
+  order.forEach(id => {
+    if (!criticalTaskIds.has(id)) return;
+    const task = nodeById.get(id)!;
+    predecessors.get(id)!.forEach(link => {
+      if (!criticalTaskIds.has(link.taskId)) return;
+      const required = getRequiredStart(link, earlyStart.get(link.taskId)!, earlyFinish.get(link.taskId)!, duration(task));
+      if (Math.abs(required - earlyStart.get(id)!) <= EPSILON) {
+        criticalLinks.add(getLinkKey(link.taskId, id));
+      }
+    });
+  });
+
+  return { schedule, criticalTaskIds, criticalLinks, projectFinish: toFinish(finish) };
+}
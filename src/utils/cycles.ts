@@ -0,0 +1,38 @@
+import { LinearCycleInfo, Task } from '../components/GanttChart';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Cycle running at `now`; a cycle ends at the instant `endsAt`
+export const getActiveCycle = (cycles: LinearCycleInfo[], now = new Date()) =>
+  cycles.find(c => now >= c.startsAt && now < c.endsAt) || null;
+
+// Cycle span in timeline days (fractional: cycles start and end at a time of day)
+export const getCycleSpanDays = (cycle: LinearCycleInfo, timelineStart: Date) => ({
+  from: (cycle.startsAt.getTime() - timelineStart.getTime()) / DAY_MS,
+  to: (cycle.endsAt.getTime() - timelineStart.getTime()) / DAY_MS,
+});
+
+/**
+ * Parts of a task bar, in timeline days, that lie outside the cycle the task
+ * is assigned to. `barFrom`/`barTo` are where the bar is drawn. Cycles start
+ * at midnight of the team's time zone, so for all-day tasks the cycle bounds
+ * are rounded to whole days. Empty when the task fits or its cycle is unknown.
+ */
+export function getCycleOverflow(
+  task: Pick<Task, 'cycleId' | 'hasTime'>,
+  barFrom: number,
+  barTo: number,
+  cyclesById: Map<string, LinearCycleInfo>,
+  timelineStart: Date
+): { from: number; to: number }[] {
+  const cycle = task.cycleId ? cyclesById.get(task.cycleId) : undefined;
+  if (!cycle) return [];
+  const span = getCycleSpanDays(cycle, timelineStart);
+  const from = task.hasTime ? span.from : Math.round(span.from);
+  const to = task.hasTime ? span.to : Math.round(span.to);
+
+  const overflow: { from: number; to: number }[] = [];
+  if (barFrom < from) overflow.push({ from: barFrom, to: Math.min(barTo, from) });
+  if (barTo > to) overflow.push({ from: Math.max(barFrom, to), to: barTo });
+  return overflow;
+}
@@ -0,0 +1,75 @@
+import { Task, TaskDependency, DependencyType } from '../components/GanttChart';
+
+export const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+export const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+  FS: '완료 → 시작 (FS)',
+  SS: '시작 → 시작 (SS)',
+  FF: '완료 → 완료 (FF)',
+  SF: '시작 → 완료 (SF)',
+};
+
+// Older data stored dependencies as a plain list of predecessor IDs (finish-to-start, no lag)
+export function normalizeDependencies(raw: unknown): TaskDependency[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+
+  const links: TaskDependency[] = [];
+  raw.forEach((item: any) => {
+    if (typeof item === 'string') {
+      links.push({ taskId: item, type: 'FS', lagDays: 0 });
+    } else if (item && typeof item.taskId === 'string') {
+      links.push({
+        taskId: item.taskId,
+        type: DEPENDENCY_TYPES.includes(item.type) ? item.type : 'FS',
+        lagDays: Number.isFinite(Number(item.lagDays)) ? Math.round(Number(item.lagDays)) : 0,
+      });
+    }
+  });
+
+  return links.length > 0 ? links : undefined;
+}
+
+export function getPredecessorIds(task: Pick<Task, 'dependencies'>): string[] {
+  return (task.dependencies || []).map(d => d.taskId);
+}
+
+// Short label such as "SS+2d" or "FS-1d"; plain FS without lag returns ''
+export function formatDependencyLabel(dep: TaskDependency): string {
+  const lag = dep.lagDays === 0 ? '' : `${dep.lagDays > 0 ? '+' : ''}${dep.lagDays}d`;
+  if (dep.type === 'FS' && !lag) return '';
+  return `${dep.type}${lag}`;
+}
+
+/**
+ * Earliest start a link allows for its successor. Works in any time unit
+ * as long as the dates, durations and lag share it (lag is given in days).
+ */
+export function getRequiredStart(
+  dep: TaskDependency,
+  predStart: number,
+  predFinish: number,
+  succDuration: number,
+  unitsPerDay = 1
+): number {
+  const lag = dep.lagDays * unitsPerDay;
+  switch (dep.type) {
+    case 'SS': return predStart + lag;
+    case 'FF': return predFinish + lag - succDuration;
+    case 'SF': return predStart + lag - succDuration;
+    default: return predFinish + lag;
+  }
+}
+
+// Which edge of each bar a link attaches to
+export function getDependencyAnchors(type: DependencyType): { from: 'start' | 'end'; to: 'start' | 'end' } {
+  return {
+    from: type === 'SS' || type === 'SF' ? 'start' : 'end',
+    to: type === 'FS' || type === 'SS' ? 'start' : 'end',
+  };
+}
+
+// Inverse of getDependencyAnchors: the link type joining the given bar edges
+export function getDependencyTypeForAnchors(from: 'start' | 'end', to: 'start' | 'end'): DependencyType {
+  if (from === 'start') return to === 'start' ? 'SS' : 'SF';
+  return to === 'start' ? 'FS' : 'FF';
+}
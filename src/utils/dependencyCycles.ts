@@ -0,0 +1,228 @@
+export interface DependencyGraphNode {
+  id: string;
+  parentId?: string;
+  predecessorIds: string[];
+}
+
+export interface DependencyCycle {
+  taskIds: string[]; // loop in order, closed with the first id
+  links: { fromId: string; toId: string }[]; // declared links that make up the loop
+}
+
+interface ExpandedEdge {
+  to: string;
+  link: { fromId: string; toId: string };
+}
+
+// Accepts Gantt tasks (structured links) as well as sprint tasks (plain predecessor IDs)
+export function toDependencyGraph(
+  tasks: { id: string; parentId?: string; dependencies?: (string | { taskId: string })[] }[]
+): DependencyGraphNode[] {
+  return tasks.map(t => ({
+    id: t.id,
+    parentId: t.parentId,
+    predecessorIds: (t.dependencies || []).map(d => (typeof d === 'string' ? d : d.taskId)),
+  }));
+}
+
+const cycleKey = (cycle: DependencyCycle) =>
+  cycle.links.map(l => `${l.fromId}->${l.toId}`).sort().join('|');
+
+// Leaf tasks under each task (the task itself when it has no children)
+function createLeafLookup(nodes: Pick<DependencyGraphNode, 'id' | 'parentId'>[]) {
+  const ids = new Set(nodes.map(n => n.id));
+  const children = new Map<string, string[]>();
+  nodes.forEach(n => {
+    if (!n.parentId || !ids.has(n.parentId)) return;
+    if (!children.has(n.parentId)) children.set(n.parentId, []);
+    children.get(n.parentId)!.push(n.id);
+  });
+
+  const leafCache = new Map<string, string[]>();
+  const leavesOf = (id: string, seen: Set<string> = new Set()): string[] => {
+    if (leafCache.has(id)) return leafCache.get(id)!;
+    const kids = (children.get(id) || []).filter(kid => !seen.has(kid));
+    seen.add(id);
+    const leaves = kids.length === 0 ? [id] : kids.flatMap(kid => leavesOf(kid, seen));
+    leafCache.set(id, leaves);
+    return leaves;
+  };
+  return { ids, leavesOf };
+}
+
+// Declared links expanded to edges between leaf tasks, by predecessor leaf
+function expandLinks(nodes: DependencyGraphNode[]) {
+  const { ids, leavesOf } = createLeafLookup(nodes);
+  const adjacency = new Map<string, ExpandedEdge[]>();
+  nodes.forEach(n => {
+    n.predecessorIds.forEach(predId => {
+      if (!ids.has(predId)) return;
+      const link = { fromId: predId, toId: n.id };
+      leavesOf(predId).forEach(from => {
+        leavesOf(n.id).forEach(to => {
+          if (!adjacency.has(from)) adjacency.set(from, []);
+          adjacency.get(from)!.push({ to, link });
+        });
+      });
+    });
+  });
+  return adjacency;
+}
+
+// Breadth-first path from one of `starts` to one of `targets`: the leaf it set out from and the edges taken
+function findPath(adjacency: Map<string, ExpandedEdge[]>, starts: string[], targets: Set<string>) {
+  const cameFrom = new Map<string, { id: string; edge: ExpandedEdge } | null>();
+  const queue: string[] = [];
+  starts.forEach(leaf => {
+    cameFrom.set(leaf, null);
+    queue.push(leaf);
+  });
+  for (let head = 0; head < queue.length; head++) {
+    const id = queue[head];
+    if (targets.has(id)) {
+      const edges: ExpandedEdge[] = [];
+      let at = id;
+      for (let step = cameFrom.get(at); step; step = cameFrom.get(at)) {
+        edges.unshift(step.edge);
+        at = step.id;
+      }
+      return { start: at, edges };
+    }
+    (adjacency.get(id) || []).forEach(edge => {
+      if (cameFrom.has(edge.to)) return;
+      cameFrom.set(edge.to, { id, edge });
+      queue.push(edge.to);
+    });
+  }
+  return null;
+}
+
+/**
+ * Finds dependency loops.
+ *
+ * A link on a summary task constrains every task below it, so links are
+ * expanded down to leaf tasks before searching. This also catches a task
+ * that depends on its own parent or child, which can never be scheduled.
+ */
+export function findDependencyCycles(nodes: DependencyGraphNode[]): DependencyCycle[] {
+  const adjacency = expandLinks(nodes);
+
+  const cycles = new Map<string, DependencyCycle>();
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  // Depth-first with an explicit stack: long dependency chains would overflow the call stack
+  adjacency.forEach((_, rootId) => {
+    if (state.has(rootId)) return;
+    const pathNodes: string[] = [rootId];
+    const pathEdges: ExpandedEdge[] = [];
+    const nextEdge: number[] = [0];
+    state.set(rootId, 'visiting');
+
+    while (pathNodes.length > 0) {
+      const id = pathNodes[pathNodes.length - 1];
+      const edges = adjacency.get(id) || [];
+      const edgeIndex = nextEdge[nextEdge.length - 1];
+      if (edgeIndex >= edges.length) {
+        state.set(id, 'done');
+        pathNodes.pop();
+        nextEdge.pop();
+        pathEdges.pop();
+        continue;
+      }
+      nextEdge[nextEdge.length - 1] = edgeIndex + 1;
+
+      const edge = edges[edgeIndex];
+      const targetState = state.get(edge.to);
+      if (targetState === 'visiting') {
+        const start = pathNodes.indexOf(edge.to);
+        const cycle = toCycle([...pathEdges.slice(start), edge]);
+        const key = cycleKey(cycle);
+        if (!cycles.has(key)) cycles.set(key, cycle);
+      } else if (targetState === undefined) {
+        state.set(edge.to, 'visiting');
+        pathNodes.push(edge.to);
+        pathEdges.push(edge);
+        nextEdge.push(0);
+      }
+    }
+  });
+
+  return [...cycles.values()];
+}
+
+/**
+ * Builds a loop-free dependency graph one link at a time. `addLink` adds
+ * the link and returns null, or leaves it out and returns the loop it
+ * would close. Each check only searches what is reachable from the
+ * successor, instead of the whole graph.
+ */
+export function createDependencyLinkChecker(nodes: Pick<DependencyGraphNode, 'id' | 'parentId'>[]) {
+  const { ids, leavesOf } = createLeafLookup(nodes);
+  const adjacency = new Map<string, ExpandedEdge[]>();
+
+  const addLink = (fromId: string, toId: string): DependencyCycle | null => {
+    if (!ids.has(fromId) || !ids.has(toId)) return null;
+    const link = { fromId, toId };
+
+    // Reaching a predecessor leaf from the successor's leaves means a loop; the new link closes it
+    const found = findPath(adjacency, leavesOf(toId), new Set(leavesOf(fromId)));
+    if (found) return toCycle([...found.edges, { to: found.start, link }]);
+
+    leavesOf(fromId).forEach(from => {
+      leavesOf(toId).forEach(to => {
+        if (!adjacency.has(from)) adjacency.set(from, []);
+        adjacency.get(from)!.push({ to, link });
+      });
+    });
+    return null;
+  };
+
+  return { addLink };
+}
+
+function toCycle(edges: ExpandedEdge[]): DependencyCycle {
+  // Several expanded edges can come from the same declared link
+  const links: DependencyCycle['links'] = [];
+  edges.forEach(({ link }) => {
+    const last = links[links.length - 1];
+    if (!last || last.fromId !== link.fromId || last.toId !== link.toId) links.push(link);
+  });
+
+  const taskIds: string[] = [];
+  links.forEach(link => {
+    if (taskIds[taskIds.length - 1] !== link.fromId) taskIds.push(link.fromId);
+    taskIds.push(link.toId);
+  });
+  if (taskIds[taskIds.length - 1] !== taskIds[0]) taskIds.push(taskIds[0]);
+
+  return { taskIds, links };
+}
+
+/**
+ * Returns a loop that exists after an edit but not before it, or null when
+ * the edit is safe. Every leaf edge the edit adds (a new link, or a link
+ * that now covers more tasks after a move) is checked by reachability from
+ * its successor back to its predecessor, so a new loop is caught even
+ * inside a block of tasks that already loops.
+ */
+export function findNewDependencyCycle(
+  before: DependencyGraphNode[],
+  after: DependencyGraphNode[]
+): DependencyCycle | null {
+  const existing = new Set<string>();
+  expandLinks(before).forEach((edges, from) => edges.forEach(edge => existing.add(`${from}->${edge.to}`)));
+
+  const adjacency = expandLinks(after);
+  for (const [from, edges] of adjacency) {
+    for (const edge of edges) {
+      if (existing.has(`${from}->${edge.to}`)) continue;
+      const found = findPath(adjacency, [edge.to], new Set([from]));
+      if (found) return toCycle([edge, ...found.edges]);
+    }
+  }
+  return null;
+}
+
+export function describeDependencyCycle(cycle: DependencyCycle, nameOf: (taskId: string) => string): string {
+  return cycle.taskIds.map(nameOf).join(' → ');
+}
@@ -0,0 +1,217 @@
+import { Task } from '../components/GanttChart';
+import { toDateKey } from './workCalendar';
+import { combineDateAndTime, shiftByDays, toTimeInputValue } from './taskTime';
+import { getTaskSegments, getWorkedDays } from './taskSegments';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HOUR_MS = 1000 * 60 * 60;
+
+export type GridColumnId =
+  | 'name'
+  | 'wbs'
+  | 'start'
+  | 'end'
+  | 'duration'
+  | 'assignee'
+  | 'estimate'
+  | 'priority'
+  | 'status'
+  | 'cycle'
+  | 'labels';
+
+export interface GridColumn {
+  id: GridColumnId;
+  visible: boolean;
+  width: number;
+}
+
+export const GRID_COLUMN_LABELS: Record<GridColumnId, string> = {
+  name: '태스크',
+  wbs: 'WBS',
+  start: '시작',
+  end: '종료',
+  duration: '기간',
+  assignee: '담당자',
+  estimate: '추정',
+  priority: '우선순위',
+  status: '상태',
+  cycle: '스프린트',
+  labels: '라벨',
+};
+
+const DEFAULT_WIDTHS: Record<GridColumnId, number> = {
+  name: 360,
+  wbs: 56,
+  start: 104,
+  end: 104,
+  duration: 64,
+  assignee: 120,
+  estimate: 60,
+  priority: 84,
+  status: 80,
+  cycle: 112,
+  labels: 140,
+};
+
+export const MIN_COLUMN_WIDTH = 44;
+export const MIN_NAME_COLUMN_WIDTH = 200;
+export const MAX_COLUMN_WIDTH = 600;
+
+// WBS numbers follow the hierarchy, so they are shown but never edited
+export const isEditableColumn = (id: GridColumnId): boolean => id !== 'wbs';
+
+// Only the name column is shown until the user adds more
+export const defaultGridColumns: GridColumn[] = (Object.keys(DEFAULT_WIDTHS) as GridColumnId[]).map(id => ({
+  id,
+  visible: id === 'name',
+  width: DEFAULT_WIDTHS[id],
+}));
+
+export const clampColumnWidth = (id: GridColumnId, width: number) =>
+  Math.round(Math.max(id === 'name' ? MIN_NAME_COLUMN_WIDTH : MIN_COLUMN_WIDTH, Math.min(MAX_COLUMN_WIDTH, width)));
+
+/**
+ * Saved column layout, in the saved order. Unknown entries are dropped,
+ * columns added since are appended hidden, and the name column is always shown.
+ */
+export function parseGridColumns(saved: string | null): GridColumn[] {
+  if (!saved) return defaultGridColumns;
+  try {
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return defaultGridColumns;
+    const columns: GridColumn[] = [];
+    parsed.forEach((entry: any) => {
+      const id = entry?.id as GridColumnId;
+      if (!(id in DEFAULT_WIDTHS) || columns.some(c => c.id === id)) return;
+      columns.push({
+        id,
+        visible: id === 'name' || !!entry.visible,
+        width: clampColumnWidth(id, Number(entry.width) || DEFAULT_WIDTHS[id]),
+      });
+    });
+    defaultGridColumns.forEach(column => {
+      if (!columns.some(c => c.id === column.id)) columns.push(column);
+    });
+    return columns;
+  } catch {
+    return defaultGridColumns;
+  }
+}
+
+// Moves a column to where another one is, shifting the rest
+export function moveGridColumn(columns: GridColumn[], fromId: GridColumnId, toId: GridColumnId): GridColumn[] {
+  const from = columns.findIndex(c => c.id === fromId);
+  const to = columns.findIndex(c => c.id === toId);
+  if (from < 0 || to < 0 || from === to) return columns;
+  const next = [...columns];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+export type GridMove = 'next' | 'prev' | 'down' | 'up';
+
+/**
+ * Cell reached from `current` when editing: Tab/Shift+Tab walk the editable
+ * columns and wrap to the next/previous row, Enter/Shift+Enter stay in the
+ * column. Returns null past the first or last row.
+ */
+export function getAdjacentCell(
+  rowIds: string[],
+  columnIds: GridColumnId[],
+  current: { taskId: string; column: GridColumnId },
+  move: GridMove
+): { taskId: string; column: GridColumnId } | null {
+  const row = rowIds.indexOf(current.taskId);
+  const editable = columnIds.filter(isEditableColumn);
+  const column = editable.indexOf(current.column);
+  if (row < 0 || column < 0) return null;
+
+  if (move === 'down' || move === 'up') {
+    const nextRow = row + (move === 'down' ? 1 : -1);
+    return nextRow >= 0 && nextRow < rowIds.length ? { taskId: rowIds[nextRow], column: current.column } : null;
+  }
+
+  const step = move === 'next' ? 1 : -1;
+  const nextColumn = column + step;
+  if (nextColumn >= 0 && nextColumn < editable.length) return { taskId: current.taskId, column: editable[nextColumn] };
+  const nextRow = row + step;
+  if (nextRow < 0 || nextRow >= rowIds.length) return null;
+  return { taskId: rowIds[nextRow], column: editable[step > 0 ? 0 : editable.length - 1] };
+}
+
+/**
+ * Date cell value, as in the task form: the stored UTC day for all-day
+ * tasks, local date and time (datetime-local format) for timed ones.
+ */
+export const toGridDateValue = (date: Date, hasTime?: boolean) =>
+  hasTime ? `${toDateKey(date)}T${toTimeInputValue(date)}` : date.toISOString().split('T')[0];
+
+export function parseGridDate(value: string, hasTime?: boolean): Date | null {
+  const [dateValue, timeValue] = value.trim().split('T');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateValue || '')) return null;
+  const date = hasTime ? combineDateAndTime(dateValue, timeValue) : new Date(dateValue);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Duration cell value: whole days, or hours for timed tasks shorter than a day.
+// Split tasks count their worked segments only, not the pauses between them.
+export const toGridDurationValue = (task: Pick<Task, 'startDate' | 'endDate' | 'hasTime' | 'segments'>) => {
+  const hours = Math.round((getWorkedDays(task) * DAY_MS) / HOUR_MS);
+  if (task.hasTime) return hours < 24 ? `${hours}h` : `${Math.round((hours / 24) * 100) / 100}`;
+  return `${Math.max(1, Math.ceil(hours / 24))}`;
+};
+
+/**
+ * Days from "3", "3일", "2.5" or "6h" / "6시간". All-day tasks keep whole
+ * days; timed tasks are rounded to the hour.
+ */
+export function parseGridDuration(value: string, hasTime?: boolean): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(일|d|h|시간)?$/i);
+  if (!match) return null;
+  const days = /^(h|시간)$/i.test(match[2] || '') ? Number(match[1]) / 24 : Number(match[1]);
+  if (!hasTime) return Math.max(1, Math.ceil(days));
+  const hours = Math.round(days * 24);
+  return hours >= 1 ? hours / 24 : null;
+}
+
+// End date once the worked segments add up to `days`: the last segment grows
+// or shrinks, and a shorter duration cuts off later segments entirely
+const getWorkedEnd = (task: Pick<Task, 'startDate' | 'endDate' | 'hasTime' | 'segments'>, days: number) => {
+  const ranges = getTaskSegments(task);
+  const shift = (date: Date, by: number) => shiftByDays(date, task.hasTime ? by : Math.round(by));
+  let remaining = days;
+  for (let i = 0; i < ranges.length - 1; i++) {
+    const length = (ranges[i].endDate.getTime() - ranges[i].startDate.getTime()) / DAY_MS;
+    if (remaining <= length) return shift(ranges[i].startDate, remaining);
+    remaining -= length;
+  }
+  return shift(ranges[ranges.length - 1].startDate, remaining);
+};
+
+/**
+ * Dates after editing a start, end or duration cell. A new start moves the
+ * task and keeps its length; a new end or duration keeps the start, and for
+ * a split task the duration is worked time, taken up by its last segment.
+ * Null when the value is invalid or the end would come before the start.
+ */
+export function getGridScheduleEdit(
+  task: Pick<Task, 'startDate' | 'endDate' | 'hasTime' | 'segments'>,
+  column: 'start' | 'end' | 'duration',
+  value: string
+): { startDate: Date; endDate: Date } | null {
+  if (column === 'duration') {
+    const days = parseGridDuration(value, task.hasTime);
+    return days === null ? null : { startDate: task.startDate, endDate: getWorkedEnd(task, days) };
+  }
+
+  const date = parseGridDate(value, task.hasTime);
+  if (!date) return null;
+  if (column === 'start') {
+    const length = task.endDate.getTime() - task.startDate.getTime();
+    const endDate = task.hasTime ? new Date(date.getTime() + length) : shiftByDays(date, Math.round(length / DAY_MS));
+    return { startDate: date, endDate };
+  }
+  const isAfterStart = task.hasTime ? date > task.startDate : date >= task.startDate;
+  return isAfterStart ? { startDate: task.startDate, endDate: date } : null;
+}
@@ -0,0 +1,339 @@
+import { Task, TaskDependency } from '../components/GanttChart';
+import { computeCriticalPath } from './criticalPath';
+import { getTaskSpanDays, shiftByDays } from './taskTime';
+import { sortBySortOrder } from './sortOrder';
+import { WorkCalendar } from './workCalendar';
+
+// Mermaid's `gantt` diagram, the text form GitHub and most wikis render
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const IMPORT_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4'];
+const TASK_TAGS = new Set(['done', 'active', 'crit', 'milestone']);
+// Settings that change the drawing but not the tasks
+const DISPLAY_KEYWORDS = ['axisFormat', 'tickInterval', 'todayMarker', 'weekday', 'topAxis', 'displayMode', 'accTitle', 'accDescr'];
+const DURATION_UNIT_MS: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: DAY_MS, w: 7 * DAY_MS };
+
+export interface MermaidGanttImport {
+  title?: string;
+  tasks: Task[];
+  errors: string[]; // nothing can be imported
+  warnings: string[]; // imported, but something was dropped or approximated
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// `:` separates the name from the task data and `#`/`;` end a statement, so they can't appear in names
+const toMermaidText = (text: string) => text.replace(/[:#;]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const formatMermaidDate = (date: Date, withTime: boolean, hasTime?: boolean) => {
+  if (!hasTime) return `${date.toISOString().split('T')[0]}${withTime ? ' 00:00' : ''}`;
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatMermaidDuration = (task: Task) => {
+  if (task.isMilestone) return '0d';
+  if (!task.hasTime) return `${getTaskSpanDays(task)}d`;
+  const minutes = Math.max(1, Math.round((task.endDate.getTime() - task.startDate.getTime()) / 60000));
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+};
+
+/**
+ * The tasks as a Mermaid `gantt` block, without the ``` fence. Every task
+ * with subtasks becomes a section (named by its path) holding its direct
+ * subtasks; top-level tasks without subtasks come first, outside any
+ * section. A task starting right where its finish-to-start predecessors end
+ * is written `after` them, finished tasks are `done`, started ones `active`,
+ * critical ones `crit` (float counted in working days when a calendar is
+ * given), and milestones `milestone`.
+ */
+export function buildMermaidGantt(tasks: Task[], title?: string, calendar?: WorkCalendar): string {
+  const sorted = sortBySortOrder(tasks);
+  const ids = new Set(tasks.map(t => t.id));
+  const parentIds = new Set(tasks.map(t => t.parentId).filter((id): id is string => !!id && ids.has(id)));
+  const withTime = tasks.some(t => t.hasTime);
+  const { criticalTaskIds } = computeCriticalPath(tasks, calendar);
+
+  const rows = sorted.filter(t => !parentIds.has(t.id));
+  const mermaidIds = new Map(rows.map((task, index) => [task.id, `t${index + 1}`]));
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+
+  const formatTaskLine = (task: Task) => {
+    const tags: string[] = [];
+    if (task.progress >= 100) tags.push('done');
+    else if (task.progress > 0) tags.push('active');
+    if (criticalTaskIds.has(task.id)) tags.push('crit');
+    if (task.isMilestone) tags.push('milestone');
+
+    const predecessors = (task.dependencies || []).filter(dep => dep.type === 'FS' && dep.lagDays === 0 && mermaidIds.has(dep.taskId));
+    const latestEnd = Math.max(...predecessors.map(dep => taskById.get(dep.taskId)!.endDate.getTime()));
+    const start = predecessors.length > 0 && latestEnd === task.startDate.getTime()
+      ? `after ${predecessors.map(dep => mermaidIds.get(dep.taskId)).join(' ')}`
+      : formatMermaidDate(task.startDate, withTime, task.hasTime);
+
+    const name = toMermaidText(task.name) || mermaidIds.get(task.id);
+    return `    ${name} :${[...tags, mermaidIds.get(task.id), start, formatMermaidDuration(task)].join(', ')}`;
+  };
+
+  const sectionName = (task: Task): string => {
+    const parent = task.parentId ? taskById.get(task.parentId) : undefined;
+    const name = toMermaidText(task.name) || '섹션';
+    return parent ? `${sectionName(parent)} / ${name}` : name;
+  };
+
+  const lines = ['gantt'];
+  if (title) lines.push(`    title ${toMermaidText(title)}`);
+  lines.push(`    dateFormat ${withTime ? 'YYYY-MM-DD HH:mm' : 'YYYY-MM-DD'}`);
+  rows.filter(t => !t.parentId || !ids.has(t.parentId)).forEach(task => lines.push(formatTaskLine(task)));
+
+  // Sections in outline order
+  const addSections = (parentId: string | undefined) => {
+    sorted.filter(t => t.parentId === parentId && parentIds.has(t.id)).forEach(parent => {
+      const children = rows.filter(t => t.parentId === parent.id);
+      if (children.length > 0) {
+        lines.push(`    section ${sectionName(parent)}`);
+        children.forEach(child => lines.push(formatTaskLine(child)));
+      }
+      addSections(parent.id);
+    });
+  };
+  addSections(undefined);
+  sorted
+    .filter(t => parentIds.has(t.id) && t.parentId && !ids.has(t.parentId))
+    .forEach(orphan => {
+      lines.push(`    section ${sectionName(orphan)}`);
+      rows.filter(t => t.parentId === orphan.id).forEach(child => lines.push(formatTaskLine(child)));
+      addSections(orphan.id);
+    });
+
+  return lines.join('\n');
+}
+
+// A parser for `dateFormat`; supports the YYYY, MM, DD, HH and mm tokens
+const createDateParser = (format: string) => {
+  const tokens: string[] = [];
+  const source = format
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/YYYY|MM|DD|HH|mm/g, token => {
+      tokens.push(token);
+      return token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+    });
+  if (!tokens.includes('YYYY') || !tokens.includes('MM') || !tokens.includes('DD')) return null;
+  const pattern = new RegExp(`^${source}$`);
+  const hasTime = tokens.includes('HH');
+
+  return (value: string): Date | null => {
+    const match = pattern.exec(value.trim());
+    if (!match) return null;
+    const part = (token: string) => Number(match[tokens.indexOf(token) + 1] ?? 0);
+    // All-day dates are stored at UTC midnight, timed ones in local time
+    const date = hasTime
+      ? new Date(part('YYYY'), part('MM') - 1, part('DD'), part('HH'), tokens.includes('mm') ? part('mm') : 0)
+      : new Date(Date.UTC(part('YYYY'), part('MM') - 1, part('DD')));
+    return isNaN(date.getTime()) ? null : date;
+  };
+};
+
+interface ParsedLine {
+  name: string;
+  tags: Set<string>;
+  mermaidId?: string;
+  sectionId?: string;
+  start?: Date;
+  after?: string[];
+  end?: Date;
+  until?: string;
+  durationMs?: number;
+  line: number;
+}
+
+/**
+ * Reads a Mermaid `gantt` block, fenced or not, into timeline tasks.
+ * Sections become parent tasks, `after` references become finish-to-start
+ * dependencies, `done` sets progress to 100% and `active` to 10% (as moving
+ * a task into the 진행중 lane does), and `milestone` marks milestones. A
+ * task without a start follows the one before it, as in Mermaid. Ids carry
+ * a per-import prefix, so merging a second diagram never collides.
+ */
+export function parseMermaidGantt(text: string): MermaidGanttImport {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const allLines = text.split(/\r?\n/);
+  const ganttLine = allLines.findIndex(line => line.trim() === 'gantt');
+  if (ganttLine === -1) {
+    return { tasks: [], errors: ['Mermaid gantt 블록을 찾을 수 없습니다'], warnings };
+  }
+
+  let title: string | undefined;
+  let parseDate = createDateParser('YYYY-MM-DD')!;
+  let withTime = false;
+  let inclusiveEndDates = false;
+  const idPrefix = `mermaid-${Date.now()}`;
+  const sections: { id: string; name: string }[] = [];
+  const parsed: ParsedLine[] = [];
+
+  for (let i = ganttLine + 1; i < allLines.length; i++) {
+    const line = allLines[i].replace(/%%.*$/, '').trim();
+    if (line.startsWith('```')) break;
+    if (!line) continue;
+    const keyword = line.split(/\s+/)[0];
+
+    if (keyword === 'title') {
+      title = line.slice(5).trim();
+    } else if (keyword === 'dateFormat') {
+      const format = line.slice(10).trim();
+      const parser = createDateParser(format);
+      if (!parser) {
+        errors.push(`지원하지 않는 dateFormat입니다: ${format}`);
+        break;
+      }
+      parseDate = parser;
+      withTime = format.includes('HH');
+    } else if (keyword === 'inclusiveEndDates') {
+      inclusiveEndDates = true;
+    } else if (keyword === 'excludes') {
+      warnings.push(`excludes(${line.slice(8).trim()})는 무시되어 기간이 달력 기준으로 계산됩니다`);
+    } else if (DISPLAY_KEYWORDS.includes(keyword.replace(/:$/, ''))) {
+      continue;
+    } else if (keyword === 'section') {
+      sections.push({ id: `${idPrefix}-section-${sections.length + 1}`, name: line.slice(7).trim() || `섹션 ${sections.length + 1}` });
+    } else if (line.includes(':')) {
+      const separator = line.indexOf(':');
+      const name = line.slice(0, separator).trim();
+      const data = line.slice(separator + 1).split(',').map(part => part.trim()).filter(Boolean);
+      const tags = new Set<string>();
+      while (data.length > 0 && TASK_TAGS.has(data[0])) tags.add(data.shift()!);
+
+      // [id, start, end] | [start, end] | [end]
+      const [mermaidId, startValue, endValue] =
+        data.length >= 3 ? data : data.length === 2 ? [undefined, data[0], data[1]] : [undefined, undefined, data[0]];
+      const entry: ParsedLine = { name, tags, mermaidId, sectionId: sections[sections.length - 1]?.id, line: i + 1 };
+
+      if (startValue?.startsWith('after ')) {
+        entry.after = startValue.slice(6).trim().split(/\s+/);
+      } else if (startValue) {
+        const start = parseDate(startValue);
+        if (!start) {
+          warnings.push(`${i + 1}행 "${name}": 시작일을 읽을 수 없어 건너뜁니다`);
+          continue;
+        }
+        entry.start = start;
+      }
+
+      const duration = endValue ? /^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)$/.exec(endValue) : null;
+      if (endValue?.startsWith('until ')) {
+        entry.until = endValue.slice(6).trim().split(/\s+/)[0];
+      } else if (duration) {
+        entry.durationMs = Number(duration[1]) * DURATION_UNIT_MS[duration[2]];
+      } else if (endValue) {
+        const end = parseDate(endValue);
+        if (!end) {
+          warnings.push(`${i + 1}행 "${name}": 종료일이나 기간을 읽을 수 없어 건너뜁니다`);
+          continue;
+        }
+        entry.end = inclusiveEndDates ? shiftByDays(end, 1) : end;
+      } else {
+        warnings.push(`${i + 1}행 "${name}": 기간이 없어 건너뜁니다`);
+        continue;
+      }
+      parsed.push(entry);
+    } else {
+      warnings.push(`${i + 1}행을 해석할 수 없어 건너뜁니다: ${line}`);
+    }
+  }
+  if (errors.length > 0) return { title, tasks: [], errors, warnings };
+
+  // `after` and `until` may point at tasks further down, so resolve until nothing changes
+  const ids = parsed.map((entry, index) => `${idPrefix}-${entry.mermaidId || `task-${index + 1}`}`);
+  const indexByMermaidId = new Map(parsed.filter(e => e.mermaidId).map(e => [e.mermaidId!, parsed.indexOf(e)]));
+  const starts: (Date | undefined)[] = parsed.map(() => undefined);
+  const ends: (Date | undefined)[] = parsed.map(() => undefined);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    parsed.forEach((entry, index) => {
+      if (ends[index]) return;
+      let start = entry.start;
+      if (entry.after) {
+        const predecessorEnds = entry.after.map(id => ends[indexByMermaidId.get(id) ?? -1]);
+        if (predecessorEnds.some(end => !end)) return;
+        start = new Date(Math.max(...predecessorEnds.map(end => end!.getTime())));
+      } else if (!start) {
+        const previousEnd = ends[index - 1];
+        if (!previousEnd) return;
+        start = previousEnd;
+      }
+
+      let end = entry.end;
+      if (entry.until) {
+        end = starts[indexByMermaidId.get(entry.until) ?? -1];
+        if (!end) return;
+      } else if (entry.durationMs !== undefined) {
+        // All-day plans round partial days up to whole days
+        end = withTime
+          ? new Date(start.getTime() + entry.durationMs)
+          : shiftByDays(start, Math.ceil(entry.durationMs / DAY_MS));
+      }
+      starts[index] = start;
+      ends[index] = end;
+      changed = true;
+    });
+  }
+
+  const tasks: Task[] = [];
+  parsed.forEach((entry, index) => {
+    const start = starts[index];
+    const end = ends[index];
+    if (!start || !end) {
+      warnings.push(`${entry.line}행 "${entry.name}": 시작일을 정할 수 없어 건너뜁니다 (after 대상 누락)`);
+      return;
+    }
+    const isMilestone = entry.tags.has('milestone');
+    const dependencies: TaskDependency[] = (entry.after || [])
+      .filter(id => indexByMermaidId.has(id))
+      .map(id => ({ taskId: ids[indexByMermaidId.get(id)!], type: 'FS', lagDays: 0 }));
+    tasks.push({
+      id: ids[index],
+      name: entry.name || entry.mermaidId || `작업 ${index + 1}`,
+      startDate: start,
+      // A milestone keeps the one-day footprint of an all-day task
+      endDate: isMilestone && end.getTime() <= start.getTime() ? shiftByDays(start, withTime ? 1 / 24 : 1) : end,
+      hasTime: withTime || undefined,
+      progress: entry.tags.has('done') ? 100 : entry.tags.has('active') ? 10 : 0,
+      color: IMPORT_COLORS[(sections.findIndex(s => s.id === entry.sectionId) + 1) % IMPORT_COLORS.length],
+      parentId: entry.sectionId,
+      isMilestone: isMilestone || undefined,
+      dependencies: dependencies.length > 0 ? dependencies : undefined,
+    });
+  });
+
+  // Sections span their tasks, like any parent
+  const sectionTasks: Task[] = [];
+  sections.forEach((section, index) => {
+    const children = tasks.filter(t => t.parentId === section.id);
+    if (children.length === 0) return;
+    sectionTasks.push({
+      id: section.id,
+      name: section.name,
+      startDate: new Date(Math.min(...children.map(t => t.startDate.getTime()))),
+      endDate: new Date(Math.max(...children.map(t => t.endDate.getTime()))),
+      hasTime: withTime || undefined,
+      progress: Math.round(children.reduce((sum, t) => sum + t.progress, 0) / children.length),
+      color: IMPORT_COLORS[(index + 1) % IMPORT_COLORS.length],
+    });
+  });
+
+  // Top-level tasks first, then each section followed by its tasks, ranked in that order
+  const siblingCounts = new Map<string | undefined, number>();
+  const result = [
+    ...tasks.filter(t => !t.parentId),
+    ...sectionTasks.flatMap(section => [section, ...tasks.filter(t => t.parentId === section.id)]),
+  ].map(task => {
+    const sortOrder = siblingCounts.get(task.parentId) ?? 0;
+    siblingCounts.set(task.parentId, sortOrder + 1);
+    return { ...task, sortOrder };
+  });
+  if (result.length === 0) errors.push('가져올 수 있는 작업이 없습니다');
+  return { title, tasks: result, errors, warnings };
+}
@@ -0,0 +1,57 @@
+import { Task } from '../components/GanttChart';
+import { getTaskSpanDays, getTimelineOffsetDays } from './taskTime';
+
+export interface MinimapMarker {
+  taskId: string;
+  day: number; // timeline day the marker sits on
+  name: string;
+}
+
+/**
+ * Number of bars running in each of `bucketCount` equal slices of the
+ * timeline. Built from a difference array so large plans stay cheap.
+ */
+export function computeBarDensity(
+  tasks: Pick<Task, 'startDate' | 'endDate' | 'hasTime'>[],
+  timelineStart: Date,
+  totalDays: number,
+  bucketCount: number
+): number[] {
+  const deltas = new Array<number>(bucketCount + 1).fill(0);
+  const bucketDays = totalDays / bucketCount;
+  tasks.forEach(task => {
+    const from = getTimelineOffsetDays(task.startDate, timelineStart, task.hasTime);
+    const to = from + getTaskSpanDays(task);
+    if (to <= 0 || from >= totalDays) return;
+    const first = Math.max(0, Math.floor(from / bucketDays));
+    const last = Math.min(bucketCount, Math.ceil(to / bucketDays));
+    deltas[first] += 1;
+    deltas[last] -= 1;
+  });
+
+  const density: number[] = [];
+  let running = 0;
+  for (let i = 0; i < bucketCount; i++) {
+    running += deltas[i];
+    density.push(running);
+  }
+  return density;
+}
+
+// Milestones, and unfinished tasks whose end has passed (marked at their end)
+export function getMinimapMarkers(
+  tasks: Task[],
+  timelineStart: Date,
+  today = new Date()
+): { milestones: MinimapMarker[]; overdue: MinimapMarker[] } {
+  const milestones: MinimapMarker[] = [];
+  const overdue: MinimapMarker[] = [];
+  tasks.forEach(task => {
+    if (task.isMilestone) {
+      milestones.push({ taskId: task.id, name: task.name, day: getTimelineOffsetDays(task.startDate, timelineStart, task.hasTime) });
+    } else if (task.progress < 100 && task.endDate < today) {
+      overdue.push({ taskId: task.id, name: task.name, day: getTimelineOffsetDays(task.endDate, timelineStart, task.hasTime) });
+    }
+  });
+  return { milestones, overdue };
+}
@@ -0,0 +1,267 @@
+import { Task, TaskDependency, DependencyType } from '../components/GanttChart';
+import { getTaskSpanDays, shiftByDays } from './taskTime';
+import { sortBySortOrder } from './sortOrder';
+
+// Microsoft Project's XML interchange format (MSPDI), as written by "Save As > XML"
+
+const MSPDI_NAMESPACE = 'http://schemas.microsoft.com/project';
+const DEFAULT_MINUTES_PER_DAY = 480;
+const WORK_DAY_START = '08:00:00';
+const WORK_DAY_FINISH = '17:00:00';
+const IMPORT_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4'];
+
+// PredecessorLink <Type> codes
+const LINK_TYPE_TO_DEPENDENCY: Record<string, DependencyType> = { '0': 'FF', '1': 'FS', '2': 'SF', '3': 'SS' };
+const DEPENDENCY_TO_LINK_TYPE: Record<DependencyType, number> = { FF: 0, FS: 1, SF: 2, SS: 3 };
+// <LagFormat> codes counted in elapsed rather than working time (e.g. "3ed")
+const ELAPSED_LAG_FORMATS = new Set(['4', '6', '8', '10', '12', '20']);
+const LAG_FORMAT_DAYS = 7;
+
+export interface MsProjectImport {
+  projectName?: string;
+  tasks: Task[];
+  errors: string[]; // the file can't be imported
+  warnings: string[]; // imported, but something was dropped or approximated
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Direct children only: <Start>, <Finish> and friends recur inside <Baseline> and <TimephasedData>
+const childElements = (parent: Element, name: string) =>
+  Array.from(parent.children).filter(child => child.localName === name);
+
+const childText = (parent: Element, name: string) => childElements(parent, name)[0]?.textContent?.trim() ?? '';
+
+// "2024-03-04T08:00:00" -> the all-day date the app stores (UTC midnight)
+const parseMsDate = (value: string): Date | null => {
+  const match = /^(\d{4}-\d{2}-\d{2})/.exec(value);
+  if (!match) return null;
+  const date = new Date(match[1]);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Tasks timed to the hour keep their clock; all-day tasks span the working day
+const formatMsDate = (date: Date, hasTime: boolean | undefined, time: string) =>
+  hasTime
+    ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:00`
+    : `${date.toISOString().split('T')[0]}T${time}`;
+
+// Work hours as an ISO 8601 duration, "PT40H0M0S"
+const formatMsDuration = (hours: number) => `PT${Math.round(hours)}H0M0S`;
+
+/**
+ * Reads an MSPDI file into timeline tasks. Outline levels become parents,
+ * PredecessorLinks become dependencies with their type and lag (in whole
+ * days), the first assigned resource becomes the assignee and percent
+ * complete the progress. Dates are taken as all-day, with Finish as the
+ * last day of work. MS Project's project summary task (UID 0) is skipped.
+ * Every file numbers its UIDs from 1, so ids carry a per-import prefix and
+ * merging a second plan never collides with the first.
+ */
+export function parseMsProjectXml(xml: string): MsProjectImport {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'Project') {
+    return { tasks: [], errors: ['MS Project XML 형식이 아닙니다'], warnings };
+  }
+  if (root.namespaceURI !== MSPDI_NAMESPACE) {
+    warnings.push('MS Project 네임스페이스가 없어 일반 XML로 읽었습니다');
+  }
+
+  const minutesPerDay = Number(childText(root, 'MinutesPerDay')) || DEFAULT_MINUTES_PER_DAY;
+  const taskElements = childElements(root, 'Tasks').flatMap(tasks => childElements(tasks, 'Task'));
+
+  const resourceNames = new Map<string, string>();
+  childElements(root, 'Resources').flatMap(r => childElements(r, 'Resource')).forEach(resource => {
+    const name = childText(resource, 'Name');
+    if (name) resourceNames.set(childText(resource, 'UID'), name);
+  });
+  const assigneeByTaskUid = new Map<string, string>();
+  let extraAssignments = 0;
+  childElements(root, 'Assignments').flatMap(a => childElements(a, 'Assignment')).forEach(assignment => {
+    const taskUid = childText(assignment, 'TaskUID');
+    const name = resourceNames.get(childText(assignment, 'ResourceUID'));
+    if (!name) return;
+    if (assigneeByTaskUid.has(taskUid)) extraAssignments++;
+    else assigneeByTaskUid.set(taskUid, name);
+  });
+  if (extraAssignments > 0) warnings.push(`담당자가 여럿인 작업은 첫 번째 담당자만 가져옵니다 (${extraAssignments}건 제외)`);
+
+  const tasks: Task[] = [];
+  const idByUid = new Map<string, string>();
+  const links: { task: Task; element: Element }[] = [];
+  const parentStack: { level: number; id: string }[] = [];
+  const idPrefix = `msp-${Date.now()}`;
+
+  taskElements.forEach((element, index) => {
+    const uid = childText(element, 'UID');
+    const level = Number(childText(element, 'OutlineLevel') || '1');
+    if (uid === '0' || level === 0) return;
+    if (childText(element, 'IsNull') === '1') return; // blank rows in the MS Project sheet
+
+    const name = childText(element, 'Name') || `작업 ${uid || index + 1}`;
+    const start = parseMsDate(childText(element, 'Start'));
+    const finish = parseMsDate(childText(element, 'Finish'));
+    if (!start || !finish) {
+      warnings.push(`작업 "${name}": 시작일 또는 완료일이 없어 건너뜁니다`);
+      return;
+    }
+
+    while (parentStack.length > 0 && parentStack[parentStack.length - 1].level >= level) parentStack.pop();
+    const isMilestone = childText(element, 'Milestone') === '1';
+    const id = `${idPrefix}-${uid || index + 1}`;
+    const task: Task = {
+      id,
+      name,
+      startDate: start,
+      // Finish is the last working day; the timeline ends a task the day after
+      endDate: shiftByDays(finish, 1),
+      progress: Math.max(0, Math.min(100, Number(childText(element, 'PercentComplete')) || 0)),
+      color: IMPORT_COLORS[parentStack.length % IMPORT_COLORS.length],
+      parentId: parentStack[parentStack.length - 1]?.id,
+      assignee: assigneeByTaskUid.get(uid),
+      isMilestone: isMilestone || undefined,
+      description: childText(element, 'Notes') || undefined,
+      sortOrder: tasks.length,
+    };
+    tasks.push(task);
+    idByUid.set(uid, id);
+    parentStack.push({ level, id });
+    links.push({ task, element });
+  });
+
+  let droppedLinks = 0;
+  links.forEach(({ task, element }) => {
+    const dependencies: TaskDependency[] = [];
+    childElements(element, 'PredecessorLink').forEach(link => {
+      const predecessorId = idByUid.get(childText(link, 'PredecessorUID'));
+      if (!predecessorId || childText(link, 'CrossProject') === '1') {
+        droppedLinks++;
+        return;
+      }
+      // LinkLag is in tenths of a minute
+      const lagMinutes = (Number(childText(link, 'LinkLag')) || 0) / 10;
+      const minutesPerLagDay = ELAPSED_LAG_FORMATS.has(childText(link, 'LagFormat')) ? 24 * 60 : minutesPerDay;
+      dependencies.push({
+        taskId: predecessorId,
+        type: LINK_TYPE_TO_DEPENDENCY[childText(link, 'Type') || '1'] ?? 'FS',
+        lagDays: Math.round(lagMinutes / minutesPerLagDay),
+      });
+    });
+    if (dependencies.length > 0) task.dependencies = dependencies;
+  });
+  if (droppedLinks > 0) warnings.push(`다른 프로젝트나 없는 작업을 가리키는 선행 관계 ${droppedLinks}개는 건너뜁니다`);
+
+  if (tasks.length === 0 && errors.length === 0) errors.push('가져올 수 있는 작업이 없습니다');
+
+  return { projectName: childText(root, 'Name') || childText(root, 'Title') || undefined, tasks, errors, warnings };
+}
+
+/**
+ * Writes tasks as an MSPDI file MS Project can open. Tasks are listed in
+ * outline order with their level, summary and milestone flags, dependencies
+ * become PredecessorLinks with day lags, and each assignee becomes a
+ * resource assigned to their tasks.
+ */
+export function buildMsProjectXml(tasks: Task[], projectName: string): string {
+  // Outline order: each task followed by its children, siblings by rank
+  const ordered: { task: Task; level: number }[] = [];
+  const ids = new Set(tasks.map(t => t.id));
+  const sorted = sortBySortOrder(tasks);
+  const addWithChildren = (task: Task, level: number) => {
+    ordered.push({ task, level });
+    sorted.filter(t => t.parentId === task.id).forEach(child => addWithChildren(child, level + 1));
+  };
+  sorted.filter(t => !t.parentId || !ids.has(t.parentId)).forEach(task => addWithChildren(task, 1));
+
+  const uidById = new Map(ordered.map(({ task }, index) => [task.id, index + 1]));
+  const parentIds = new Set(tasks.map(t => t.parentId).filter(Boolean));
+  const resources = Array.from(new Set(tasks.map(t => t.assignee).filter((name): name is string => !!name)));
+
+  const taskXml = ordered.map(({ task, level }, index) => {
+    const isSummary = parentIds.has(task.id);
+    const finish = task.isMilestone ? task.startDate : task.hasTime ? task.endDate : shiftByDays(task.endDate, -1);
+    const hours = task.isMilestone
+      ? 0
+      : task.hasTime
+        ? (task.endDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60)
+        : getTaskSpanDays(task) * (DEFAULT_MINUTES_PER_DAY / 60);
+    const predecessors = (task.dependencies || [])
+      .filter(dep => uidById.has(dep.taskId))
+      .map(dep => `
+      <PredecessorLink>
+        <PredecessorUID>${uidById.get(dep.taskId)}</PredecessorUID>
+        <Type>${DEPENDENCY_TO_LINK_TYPE[dep.type]}</Type>
+        <CrossProject>0</CrossProject>
+        <LinkLag>${dep.lagDays * DEFAULT_MINUTES_PER_DAY * 10}</LinkLag>
+        <LagFormat>${LAG_FORMAT_DAYS}</LagFormat>
+      </PredecessorLink>`)
+      .join('');
+    return `
+    <Task>
+      <UID>${index + 1}</UID>
+      <ID>${index + 1}</ID>
+      <Name>${escapeXml(task.name)}</Name>
+      <OutlineLevel>${level}</OutlineLevel>
+      <Start>${formatMsDate(task.startDate, task.hasTime, WORK_DAY_START)}</Start>
+      <Finish>${formatMsDate(finish, task.hasTime, task.isMilestone ? WORK_DAY_START : WORK_DAY_FINISH)}</Finish>
+      <Duration>${formatMsDuration(hours)}</Duration>
+      <DurationFormat>${LAG_FORMAT_DAYS}</DurationFormat>
+      <Milestone>${task.isMilestone ? 1 : 0}</Milestone>
+      <Summary>${isSummary ? 1 : 0}</Summary>
+      <Manual>${isSummary ? 0 : 1}</Manual>
+      <PercentComplete>${Math.round(task.progress)}</PercentComplete>${task.description ? `
+      <Notes>${escapeXml(task.description)}</Notes>` : ''}${predecessors}
+    </Task>`;
+  }).join('');
+
+  const resourceXml = resources.map((name, index) => `
+    <Resource>
+      <UID>${index + 1}</UID>
+      <ID>${index + 1}</ID>
+      <Name>${escapeXml(name)}</Name>
+      <Type>1</Type>
+    </Resource>`).join('');
+
+  let assignmentUid = 0;
+  const assignmentXml = ordered
+    .filter(({ task }) => task.assignee && !parentIds.has(task.id))
+    .map(({ task }) => `
+    <Assignment>
+      <UID>${++assignmentUid}</UID>
+      <TaskUID>${uidById.get(task.id)}</TaskUID>
+      <ResourceUID>${resources.indexOf(task.assignee!) + 1}</ResourceUID>
+      <Units>1</Units>
+    </Assignment>`).join('');
+
+  const starts = tasks.map(t => t.startDate.getTime());
+  const ends = tasks.map(t => t.endDate.getTime());
+  const projectStart = starts.length > 0 ? new Date(Math.min(...starts)) : new Date();
+  const projectFinish = ends.length > 0 ? shiftByDays(new Date(Math.max(...ends)), -1) : projectStart;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Project xmlns="${MSPDI_NAMESPACE}">
+  <SaveVersion>14</SaveVersion>
+  <Name>${escapeXml(projectName)}</Name>
+  <Title>${escapeXml(projectName)}</Title>
+  <ScheduleFromStart>1</ScheduleFromStart>
+  <StartDate>${formatMsDate(projectStart, false, WORK_DAY_START)}</StartDate>
+  <FinishDate>${formatMsDate(projectFinish, false, WORK_DAY_FINISH)}</FinishDate>
+  <MinutesPerDay>${DEFAULT_MINUTES_PER_DAY}</MinutesPerDay>
+  <MinutesPerWeek>${DEFAULT_MINUTES_PER_DAY * 5}</MinutesPerWeek>
+  <DaysPerMonth>20</DaysPerMonth>
+  <Tasks>${taskXml}
+  </Tasks>
+  <Resources>${resourceXml}
+  </Resources>
+  <Assignments>${assignmentXml}
+  </Assignments>
+</Project>
+`;
+}
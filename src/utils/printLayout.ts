@@ -0,0 +1,211 @@
+import { shiftByDays } from './taskTime';
+import { toDateKey } from './workCalendar';
+import {
+  TIMELINE_LABEL_WIDTH,
+  TimelineImageRow,
+  getImageRangeDays,
+  getTimelineHeaderHeight,
+  getTimelineRowHeight,
+  renderTimelineSvg,
+} from './timelineImage';
+
+export type PaperSize = 'A4' | 'A3' | 'Letter';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+// Portrait sheet sizes in millimetres
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  Letter: { width: 215.9, height: 279.4 },
+};
+
+const PX_PER_MM = 96 / 25.4; // CSS pixels, which is what the browser prints at 100%
+const PAGE_MARGIN_MM = 10;
+const PAGE_HEADER_HEIGHT = 36;
+const PAGE_FOOTER_HEIGHT = 32;
+const SAFETY_PX = 4; // printers round page sizes; a spare row of pixels avoids a blank overflow page
+
+export interface PrintLayoutOptions {
+  paper: PaperSize;
+  orientation: PaperOrientation;
+  rangeStart: Date; // local midnight of the first day
+  rangeEnd: Date; // exclusive
+  pixelsPerDay: number;
+  showDependencies?: boolean;
+}
+
+// One printed sheet: a block of rows over a stretch of days
+export interface PrintPage {
+  number: number; // 1-based, in print order
+  rowStart: number;
+  rowEnd: number; // exclusive
+  rangeStart: Date;
+  rangeEnd: Date; // exclusive
+  column: number; // horizontal tile, 0-based
+  band: number; // vertical tile, 0-based
+}
+
+export interface PrintLayout {
+  pages: PrintPage[];
+  columns: number;
+  bands: number;
+}
+
+// Drawing area of one sheet in CSS pixels, inside the margins, page header and footer
+export function getPrintableArea(paper: PaperSize, orientation: PaperOrientation) {
+  const size = PAPER_SIZES[paper];
+  const [widthMm, heightMm] = orientation === 'portrait' ? [size.width, size.height] : [size.height, size.width];
+  return {
+    width: Math.floor((widthMm - PAGE_MARGIN_MM * 2) * PX_PER_MM) - SAFETY_PX,
+    height: Math.floor((heightMm - PAGE_MARGIN_MM * 2) * PX_PER_MM) - PAGE_HEADER_HEIGHT - PAGE_FOOTER_HEIGHT - SAFETY_PX,
+  };
+}
+
+/**
+ * Tiles the chart across sheets. Every sheet repeats the task column and the
+ * date header, so each holds as many whole days and whole rows as fit next
+ * to and below them. Pages run down the rows first, then across the dates,
+ * the usual reading order for a wall chart.
+ */
+export function layoutPrintPages(rows: Pick<TimelineImageRow, 'isGroupHeader'>[], options: PrintLayoutOptions): PrintLayout {
+  const area = getPrintableArea(options.paper, options.orientation);
+  const totalDays = getImageRangeDays(options.rangeStart, options.rangeEnd);
+  const daysPerPage = Math.max(1, Math.floor((area.width - TIMELINE_LABEL_WIDTH) / options.pixelsPerDay));
+  const rowsHeight = Math.max(1, area.height - getTimelineHeaderHeight(options.pixelsPerDay));
+
+  // Row bands: at least one row per sheet even if it doesn't fit
+  const bands: { start: number; end: number }[] = [];
+  let start = 0;
+  while (start < rows.length || bands.length === 0) {
+    let end = start;
+    let height = 0;
+    while (end < rows.length && (end === start || height + getTimelineRowHeight(rows[end]) <= rowsHeight)) {
+      height += getTimelineRowHeight(rows[end]);
+      end++;
+    }
+    bands.push({ start, end });
+    if (end >= rows.length) break;
+    start = end;
+  }
+
+  const columns = Math.ceil(totalDays / daysPerPage);
+  const pages: PrintPage[] = [];
+  for (let column = 0; column < columns; column++) {
+    const rangeStart = shiftByDays(options.rangeStart, column * daysPerPage);
+    const rangeEnd = column === columns - 1 ? options.rangeEnd : shiftByDays(rangeStart, daysPerPage);
+    bands.forEach((band, bandIndex) => {
+      pages.push({
+        number: pages.length + 1,
+        rowStart: band.start,
+        rowEnd: band.end,
+        rangeStart,
+        rangeEnd,
+        column,
+        band: bandIndex,
+      });
+    });
+  }
+  return { pages, columns, bands: bands.length };
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const LEGEND_HTML = [
+  '<span><svg width="22" height="10"><rect width="22" height="10" rx="3" fill="#6366f1" fill-opacity="0.35"/><rect width="12" height="10" rx="3" fill="#6366f1"/></svg>작업 · 진행률</span>',
+  '<span><svg width="12" height="12"><path d="M 6 1 L 11 6 L 6 11 L 1 6 Z" fill="#f59e0b"/></svg>마일스톤</span>',
+  '<span><svg width="22" height="10"><path d="M 1 5 L 15 5" stroke="#3b82f6" stroke-width="1.5"/><polygon points="14 1, 21 5, 14 9" fill="#3b82f6"/></svg>의존성</span>',
+  '<span><svg width="6" height="12"><line x1="3" y1="0" x2="3" y2="12" stroke="#3b82f6" stroke-width="2"/></svg>오늘</span>',
+].join('');
+
+/**
+ * A standalone HTML document with one sheet per page of the layout, sized
+ * with @page so the browser's print dialog (or "Save as PDF") cuts exactly
+ * there. Each sheet shows the project name and print date, its slice of the
+ * chart, the legend and its page number.
+ */
+export function buildPrintDocument(
+  rows: TimelineImageRow[],
+  options: PrintLayoutOptions,
+  projectName: string,
+  printedAt = new Date()
+): string {
+  const { pages, columns, bands } = layoutPrintPages(rows, options);
+  const printedLabel = printedAt.toLocaleDateString('ko', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const sheets = pages.map(page => {
+    const image = renderTimelineSvg(rows, {
+      rangeStart: page.rangeStart,
+      rangeEnd: page.rangeEnd,
+      pixelsPerDay: options.pixelsPerDay,
+      today: printedAt,
+      showDependencies: options.showDependencies,
+      rowRange: { start: page.rowStart, end: page.rowEnd },
+    });
+    // As an image each sheet keeps its own SVG ids (arrowheads, clip paths)
+    const source = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+    const days = `${toDateKey(page.rangeStart)} – ${toDateKey(shiftByDays(page.rangeEnd, -1))}`;
+    const tile = columns > 1 || bands > 1 ? ` · 가로 ${page.column + 1}/${columns}, 세로 ${page.band + 1}/${bands}` : '';
+    return `
+      <section class="sheet">
+        <header>
+          <strong>${escapeHtml(projectName)}</strong>
+          <span>${days} · ${printedLabel} 인쇄</span>
+        </header>
+        <img src="${source}" width="${image.width}" height="${image.height}" alt="" />
+        <footer>
+          <div class="legend">${LEGEND_HTML}</div>
+          <span>${page.number} / ${pages.length}${tile}</span>
+        </footer>
+      </section>`;
+  });
+
+  const size = PAPER_SIZES[options.paper];
+  const [widthMm, heightMm] = options.orientation === 'portrait' ? [size.width, size.height] : [size.height, size.width];
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(projectName)} - Gantt</title>
+    <style>
+      @page { size: ${widthMm}mm ${heightMm}mm; margin: ${PAGE_MARGIN_MM}mm; }
+      * { box-sizing: border-box; }
+      body {
+        margin: 0;
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Apple SD Gothic Neo', 'Malgun Gothic', sans-serif;
+        color: #111827;
+        -webkit-print-color-adjust: exact;
+        print-color-adjust: exact;
+      }
+      .sheet {
+        width: ${widthMm - PAGE_MARGIN_MM * 2}mm;
+        height: ${heightMm - PAGE_MARGIN_MM * 2}mm;
+        display: flex;
+        flex-direction: column;
+        overflow: hidden;
+        break-after: page;
+      }
+      .sheet:last-child { break-after: auto; }
+      header, footer {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        font-size: 11px;
+        color: #6b7280;
+      }
+      header { height: ${PAGE_HEADER_HEIGHT}px; }
+      header strong { font-size: 14px; color: #111827; }
+      footer { height: ${PAGE_FOOTER_HEIGHT}px; margin-top: auto; }
+      img { display: block; }
+      .legend { display: flex; gap: 14px; }
+      .legend span { display: inline-flex; align-items: center; gap: 5px; }
+      @media screen {
+        body { background: #e5e7eb; padding: 16px 0; }
+        .sheet { margin: 0 auto 16px; padding: ${PAGE_MARGIN_MM}mm; width: ${widthMm}mm; height: ${heightMm}mm; background: #fff; }
+      }
+    </style>
+  </head>
+  <body>${sheets.join('')}
+  </body>
+</html>`;
+}
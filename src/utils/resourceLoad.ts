@@ -0,0 +1,296 @@
+import { Task } from '../components/GanttChart';
+import { computeCriticalPath } from './criticalPath';
+import { ScheduleChange, getLinkRequiredStart } from './autoSchedule';
+import { isSplitTask, resolveSegments } from './taskSegments';
+import { WorkCalendar, addWorkingDays, countWorkingDays, isWorkingDay, snapToWorkingDay, toDateKey } from './workCalendar';
+
+// How far leveling may push a task before giving up and leaving the overload in place
+const MAX_LEVELING_DAYS = 365;
+const MAX_TASK_DAYS = 3660;
+
+// Float tolerance when comparing summed point fractions against capacity
+const LOAD_EPSILON = 1e-6;
+
+export interface ResourceCapacity {
+  defaultPointsPerDay: number;
+  byAssignee: Record<string, number>; // assignee name -> story points per working day
+}
+
+export const defaultResourceCapacity: ResourceCapacity = {
+  defaultPointsPerDay: 1,
+  byAssignee: {},
+};
+
+export const getCapacity = (capacity: ResourceCapacity, assignee: string) =>
+  capacity.byAssignee[assignee] ?? capacity.defaultPointsPerDay;
+
+export interface ResourceDayLoad {
+  points: number;
+  taskIds: string[];
+}
+
+// assignee -> YYYY-MM-DD -> load on that day
+export type ResourceLoadMap = Map<string, Map<string, ResourceDayLoad>>;
+
+const PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3, none: 4 };
+
+const shiftDays = (date: Date, days: number) => {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted;
+};
+
+// Days a task occupies: its working days with a calendar, every day otherwise.
+// Pauses between the segments of a split task carry no load.
+const getTaskDays = (task: Task, startDate: Date, endDate: Date, calendar?: WorkCalendar): Date[] => {
+  const days: Date[] = [];
+  resolveSegments(task.segments, startDate, endDate).forEach(segment => {
+    let current = new Date(segment.startDate);
+    for (let i = 0; i < MAX_TASK_DAYS && current < segment.endDate; i++) {
+      if (!calendar || isWorkingDay(current, calendar, task.assignee)) days.push(current);
+      current = shiftDays(current, 1);
+    }
+  });
+  return days;
+};
+
+// Only leaf tasks with an assignee and an estimate put load on anyone
+const getParentIds = (tasks: Task[]) => new Set(tasks.filter(t => t.parentId).map(t => t.parentId!));
+const carriesLoad = (task: Task, parentIds: Set<string>) =>
+  !!task.assignee && (task.estimate ?? 0) > 0 && !parentIds.has(task.id);
+
+/**
+ * Story points per assignee per day. Each task's estimate is spread evenly
+ * over the days it occupies (working days when a calendar is given).
+ */
+export function computeResourceLoad(tasks: Task[], calendar?: WorkCalendar): ResourceLoadMap {
+  const load: ResourceLoadMap = new Map();
+  const parentIds = getParentIds(tasks);
+
+  tasks.forEach(task => {
+    if (!carriesLoad(task, parentIds)) return;
+    const days = getTaskDays(task, task.startDate, task.endDate, calendar);
+    if (days.length === 0) return;
+
+    const perDay = task.estimate! / days.length;
+    if (!load.has(task.assignee!)) load.set(task.assignee!, new Map());
+    const byDay = load.get(task.assignee!)!;
+    days.forEach(day => {
+      const key = toDateKey(day);
+      const entry = byDay.get(key) || { points: 0, taskIds: [] };
+      byDay.set(key, { points: entry.points + perDay, taskIds: [...entry.taskIds, task.id] });
+    });
+  });
+
+  return load;
+}
+
+// Date keys where an assignee's load exceeds their capacity
+export function getOverloadedDays(load: ResourceLoadMap, capacity: ResourceCapacity): Map<string, Set<string>> {
+  const overloaded = new Map<string, Set<string>>();
+  load.forEach((byDay, assignee) => {
+    const limit = getCapacity(capacity, assignee);
+    byDay.forEach((entry, key) => {
+      if (entry.points <= limit + LOAD_EPSILON) return;
+      if (!overloaded.has(assignee)) overloaded.set(assignee, new Set());
+      overloaded.get(assignee)!.add(key);
+    });
+  });
+  return overloaded;
+}
+
+// Binary min-heap on `compare`, for picking the next ready task
+class TaskHeap {
+  private items: Task[] = [];
+
+  constructor(private compare: (a: Task, b: Task) => number) {}
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(task: Task) {
+    const items = this.items;
+    items.push(task);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): Task | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === index) break;
+        [items[index], items[smallest]] = [items[smallest], items[index]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Delays tasks until no assignee is over capacity.
+ *
+ * Tasks are placed one at a time, a task only once its predecessors are
+ * placed; among those, fixed tasks go first, then higher priorities, then
+ * earlier starts. Critical and completed tasks are fixed and keep their
+ * dates, even against a delayed predecessor; every other task slides forward day by day until its load fits. Successors of a
+ * delayed task are pushed as far as their links require. Tasks never move
+ * earlier. The result holds every task whose dates change.
+ */
+export function levelResources(
+  tasks: Task[],
+  capacity: ResourceCapacity,
+  calendar?: WorkCalendar
+): Map<string, ScheduleChange> {
+  const changes = new Map<string, ScheduleChange>();
+  const parentIds = getParentIds(tasks);
+  const leaves = tasks.filter(t => !parentIds.has(t.id));
+  const taskById = new Map(leaves.map(t => [t.id, t]));
+  const { criticalTaskIds } = computeCriticalPath(tasks, calendar);
+
+  const usage = new Map<string, Map<string, number>>(); // assignee -> date key -> points
+  const datesOf = (task: Task): ScheduleChange => changes.get(task.id) || task;
+
+  const loadDays = (task: Task, startDate: Date, endDate: Date) => {
+    const days = getTaskDays(task, startDate, endDate, calendar);
+    return { days, perDay: days.length > 0 ? task.estimate! / days.length : 0 };
+  };
+
+  const fits = (task: Task, startDate: Date, endDate: Date) => {
+    const { days, perDay } = loadDays(task, startDate, endDate);
+    const byDay = usage.get(task.assignee!);
+    const limit = getCapacity(capacity, task.assignee!);
+    return days.every(day => (byDay?.get(toDateKey(day)) ?? 0) + perDay <= limit + LOAD_EPSILON);
+  };
+
+  const allocate = (task: Task, startDate: Date, endDate: Date) => {
+    const { days, perDay } = loadDays(task, startDate, endDate);
+    if (!usage.has(task.assignee!)) usage.set(task.assignee!, new Map());
+    const byDay = usage.get(task.assignee!)!;
+    days.forEach(day => {
+      const key = toDateKey(day);
+      byDay.set(key, (byDay.get(key) ?? 0) + perDay);
+    });
+  };
+
+  // Same length at a new start: working days with a calendar, elapsed time otherwise or for timed tasks.
+  // Split tasks keep their calendar-day span, which their segment offsets are measured in.
+  const endFor = (task: Task, startDate: Date) => {
+    if (calendar && !task.hasTime && isSplitTask(task)) {
+      return shiftDays(task.endDate, Math.round((startDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60 * 24)));
+    }
+    if (calendar && !task.hasTime) {
+      const workDays = Math.max(1, countWorkingDays(task.startDate, task.endDate, calendar, task.assignee));
+      return addWorkingDays(startDate, workDays, calendar, task.assignee);
+    }
+    return new Date(startDate.getTime() + (task.endDate.getTime() - task.startDate.getTime()));
+  };
+
+  // Start pushed by predecessors that leveling has already delayed
+  const pushedStart = (task: Task): Date => {
+    let start = task.startDate;
+    (task.dependencies || []).forEach(link => {
+      const pred = taskById.get(link.taskId);
+      if (!pred || pred.id === task.id || !changes.has(pred.id)) return;
+      const required = getLinkRequiredStart(link, datesOf(pred), task, calendar);
+      if (required > start.getTime()) {
+        if (task.hasTime) {
+          const deltaHours = Math.ceil((required - task.startDate.getTime()) / (1000 * 60 * 60));
+          start = new Date(task.startDate.getTime() + deltaHours * 1000 * 60 * 60);
+          return;
+        }
+        const deltaDays = Math.ceil((required - task.startDate.getTime()) / (1000 * 60 * 60 * 24));
+        start = shiftDays(task.startDate, deltaDays);
+      }
+    });
+    return calendar && start !== task.startDate ? snapToWorkingDay(start, calendar, task.assignee) : start;
+  };
+
+  const isFixed = (task: Task) => criticalTaskIds.has(task.id) || task.progress >= 100;
+  const isMovable = (task: Task) => carriesLoad(task, parentIds) && !isFixed(task);
+
+  const compare = (a: Task, b: Task) => {
+    // Fixed tasks claim their capacity before anything is moved around them
+    const movableA = isMovable(a) ? 1 : 0;
+    const movableB = isMovable(b) ? 1 : 0;
+    if (movableA !== movableB) return movableA - movableB;
+    const rankA = PRIORITY_RANK[a.priority ?? 'none'] ?? 4;
+    const rankB = PRIORITY_RANK[b.priority ?? 'none'] ?? 4;
+    if (rankA !== rankB) return rankA - rankB;
+    return a.startDate.getTime() - b.startDate.getTime();
+  };
+
+  // Unplaced predecessors per task; a task is ready once it has none
+  const waitingOn = new Map(leaves.map(t => [t.id, 0]));
+  const successors = new Map<string, Task[]>();
+  leaves.forEach(task => {
+    (task.dependencies || []).forEach(link => {
+      if (link.taskId === task.id || !taskById.has(link.taskId)) return;
+      waitingOn.set(task.id, waitingOn.get(task.id)! + 1);
+      if (!successors.has(link.taskId)) successors.set(link.taskId, []);
+      successors.get(link.taskId)!.push(task);
+    });
+  });
+  const remaining = new Set(leaves.map(t => t.id));
+  const ready = new TaskHeap(compare);
+  leaves.forEach(task => {
+    if (waitingOn.get(task.id) === 0) ready.push(task);
+  });
+
+  while (remaining.size > 0) {
+    let task = ready.pop();
+    if (!task) {
+      // A dependency loop leaves nothing ready; fall back to placing by priority alone
+      task = [...remaining].map(id => taskById.get(id)!).reduce((best, t) => (compare(t, best) < 0 ? t : best));
+    }
+    remaining.delete(task.id);
+    (successors.get(task.id) || []).forEach(successor => {
+      const count = waitingOn.get(successor.id)! - 1;
+      waitingOn.set(successor.id, count);
+      if (count === 0 && remaining.has(successor.id)) ready.push(successor);
+    });
+
+    // Fixed tasks keep their dates even when a delayed predecessor now overlaps them
+    const baseStart = isFixed(task) ? task.startDate : pushedStart(task);
+    const baseEnd = baseStart === task.startDate ? task.endDate : endFor(task, baseStart);
+    let startDate = baseStart;
+    let endDate = baseEnd;
+
+    if (isMovable(task)) {
+      for (let offset = 1; offset <= MAX_LEVELING_DAYS && !fits(task, startDate, endDate); offset++) {
+        const candidate = shiftDays(baseStart, offset);
+        if (calendar && !isWorkingDay(candidate, calendar, task.assignee)) continue;
+        startDate = candidate;
+        endDate = endFor(task, startDate);
+      }
+      // Nothing fits within the window: keep the dependency-driven dates
+      if (!fits(task, startDate, endDate)) {
+        startDate = baseStart;
+        endDate = baseEnd;
+      }
+    }
+
+    if (carriesLoad(task, parentIds)) allocate(task, startDate, endDate);
+    if (startDate.getTime() !== task.startDate.getTime()) {
+      changes.set(task.id, { startDate, endDate });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,92 @@
+import { Task } from '../components/GanttChart';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface TaskRollup {
+  startDate: Date;
+  endDate: Date;
+  progress: number;
+  isOverride: boolean; // parent keeps its own dates/progress
+}
+
+interface RollupNode {
+  startDate: Date;
+  endDate: Date;
+  progress: number;
+  points?: number; // sum of story points; undefined when any leaf has none
+  durationDays: number;
+}
+
+/**
+ * Summary values for every task that has children.
+ *
+ * A parent spans from its earliest child start to its latest child end.
+ * Progress is weighted by story points when every child carries an
+ * estimate, and by duration otherwise. Parents flagged with `rollupOverride`
+ * keep their own values but still feed them upward.
+ */
+export function computeRollups(tasks: Task[]): Map<string, TaskRollup> {
+  const rollups = new Map<string, TaskRollup>();
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+  const children = new Map<string, Task[]>();
+  tasks.forEach(t => {
+    if (!t.parentId || !taskById.has(t.parentId)) return;
+    if (!children.has(t.parentId)) children.set(t.parentId, []);
+    children.get(t.parentId)!.push(t);
+  });
+
+  const ownNode = (task: Task): RollupNode => ({
+    startDate: task.startDate,
+    endDate: task.endDate,
+    progress: task.progress,
+    points: task.estimate && task.estimate > 0 ? task.estimate : undefined,
+    durationDays: Math.max(1, (task.endDate.getTime() - task.startDate.getTime()) / DAY_MS),
+  });
+
+  const visiting = new Set<string>();
+  const resolve = (task: Task): RollupNode => {
+    const kids = children.get(task.id);
+    if (!kids || kids.length === 0 || visiting.has(task.id)) return ownNode(task);
+
+    visiting.add(task.id);
+    const childNodes = kids.map(resolve);
+    visiting.delete(task.id);
+
+    const startDate = new Date(Math.min(...childNodes.map(n => n.startDate.getTime())));
+    const endDate = new Date(Math.max(...childNodes.map(n => n.endDate.getTime())));
+    const usePoints = childNodes.every(n => n.points !== undefined);
+    const weightOf = (n: RollupNode) => (usePoints ? n.points! : n.durationDays);
+    const totalWeight = childNodes.reduce((sum, n) => sum + weightOf(n), 0);
+    const progress = totalWeight > 0
+      ? Math.round(childNodes.reduce((sum, n) => sum + n.progress * weightOf(n), 0) / totalWeight)
+      : 0;
+
+    if (task.rollupOverride) {
+      rollups.set(task.id, { startDate: task.startDate, endDate: task.endDate, progress: task.progress, isOverride: true });
+      return ownNode(task);
+    }
+
+    rollups.set(task.id, { startDate, endDate, progress, isOverride: false });
+    return {
+      startDate,
+      endDate,
+      progress,
+      points: usePoints ? totalWeight : undefined,
+      durationDays: Math.max(1, (endDate.getTime() - startDate.getTime()) / DAY_MS),
+    };
+  };
+
+  tasks.filter(t => !t.parentId || !taskById.has(t.parentId)).forEach(resolve);
+  return rollups;
+}
+
+// Tasks with summary dates/progress filled in; overridden parents are left as they are
+export function applyRollups(tasks: Task[]): Task[] {
+  const rollups = computeRollups(tasks);
+  if (rollups.size === 0) return tasks;
+  return tasks.map(t => {
+    const rollup = rollups.get(t.id);
+    if (!rollup || rollup.isOverride) return t;
+    return { ...t, startDate: rollup.startDate, endDate: rollup.endDate, progress: rollup.progress };
+  });
+}
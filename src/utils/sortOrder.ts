@@ -0,0 +1,76 @@
+import { Task } from '../components/GanttChart';
+
+type RankedTask = Pick<Task, 'id' | 'parentId' | 'sortOrder'>;
+
+/**
+ * Tasks ordered by `sortOrder`. The sort is stable, and a task without a
+ * rank stays right after the task before it so unranked local tasks keep
+ * their place.
+ */
+export function sortBySortOrder<T extends { sortOrder?: number }>(tasks: T[]): T[] {
+  let previous = -Infinity;
+  return tasks
+    .map((task, index) => {
+      previous = task.sortOrder ?? previous;
+      return { task, index, key: previous };
+    })
+    .sort((a, b) => (a.key === b.key ? a.index - b.index : a.key - b.key))
+    .map(entry => entry.task);
+}
+
+// A rank between two neighbours; either is missing at the ends of a list
+export function getSortOrderBetween(before?: number, after?: number): number {
+  if (before !== undefined && after !== undefined) return (before + after) / 2;
+  if (before !== undefined) return before + 1;
+  if (after !== undefined) return after - 1;
+  return 0;
+}
+
+// Rank for a task added after the existing children of `parentId`
+export function getNextSortOrder(tasks: RankedTask[], parentId?: string): number {
+  const ranks = tasks
+    .filter(t => t.parentId === parentId && t.sortOrder !== undefined)
+    .map(t => t.sortOrder!);
+  return ranks.length > 0 ? Math.max(...ranks) + 1 : 0;
+}
+
+/**
+ * New ranks for the tasks in `ids` after they moved in the list, so that
+ * sorting siblings by rank gives the list order again. Tasks still between
+ * their neighbours keep their rank; a sibling group with missing or clashing
+ * ranks is renumbered as a whole. Returns only the ranks that changed.
+ */
+export function rankMovedTasks(tasks: RankedTask[], ids: Set<string>): Map<string, number> {
+  const ranks = new Map<string, number>();
+  const rankOf = (task: RankedTask | undefined) => (task && ranks.has(task.id) ? ranks.get(task.id) : task?.sortOrder);
+  const pending = new Set(ids);
+
+  tasks.forEach(task => {
+    if (!pending.has(task.id)) return;
+    pending.delete(task.id);
+    const siblings = tasks.filter(t => t.parentId === task.parentId);
+    const position = siblings.indexOf(task);
+    const before = siblings[position - 1];
+    // Moved tasks further down are placed once their turn comes
+    const after = siblings.slice(position + 1).find(t => !pending.has(t.id));
+    const low = rankOf(before);
+    const high = rankOf(after);
+
+    if ((before && low === undefined) || (after && high === undefined) || (low !== undefined && high !== undefined && low >= high)) {
+      siblings.forEach((sibling, index) => {
+        ranks.set(sibling.id, index + 1);
+        pending.delete(sibling.id);
+      });
+      return;
+    }
+    const own = rankOf(task);
+    if (own !== undefined && (low === undefined || own > low) && (high === undefined || own < high)) return;
+    ranks.set(task.id, getSortOrderBetween(low, high));
+  });
+
+  const current = new Map(tasks.map(t => [t.id, t.sortOrder]));
+  return new Map([...ranks].filter(([id, rank]) => current.get(id) !== rank));
+}
+
+export const applySortOrders = <T extends RankedTask>(tasks: T[], ranks: Map<string, number>): T[] =>
+  ranks.size === 0 ? tasks : tasks.map(t => (ranks.has(t.id) ? { ...t, sortOrder: ranks.get(t.id) } : t));
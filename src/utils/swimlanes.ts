@@ -0,0 +1,87 @@
+import { Task } from '../components/GanttChart';
+import { GanttGroupBy } from '../components/GanttFilters';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const UNASSIGNED_LANE = '미지정';
+export const NO_TEAM_LANE = '팀 미지정';
+
+export type StatusLane = '시작전' | '진행중' | '완료';
+
+const getStatusLane = (progress: number): StatusLane =>
+  progress === 100 ? '완료' : progress > 0 ? '진행중' : '시작전';
+
+// Lane a task belongs to for the current grouping
+export function getLaneKey(task: Task, groupBy: GanttGroupBy): string {
+  switch (groupBy) {
+    case 'assignee': return task.assignee || UNASSIGNED_LANE;
+    case 'priority': return task.priority || 'none';
+    case 'team': return task.teamName || NO_TEAM_LANE;
+    case 'status': return getStatusLane(task.progress);
+    default: return '기타';
+  }
+}
+
+/**
+ * Fields that move a task into another lane. Assignee and team details are
+ * copied from a task already in the lane since lanes only know names.
+ * Status lanes set the progress: a task entering "진행중" starts at 10%
+ * (90% when reopened from "완료"). Returns null when nothing changes.
+ */
+export function getLaneChange(task: Task, groupBy: GanttGroupBy, laneKey: string, tasks: Task[]): Partial<Task> | null {
+  if (getLaneKey(task, groupBy) === laneKey) return null;
+  const member = tasks.find(t => t.id !== task.id && getLaneKey(t, groupBy) === laneKey);
+
+  switch (groupBy) {
+    case 'assignee':
+      if (laneKey === UNASSIGNED_LANE) return { assignee: undefined, assigneeId: undefined, assigneeAvatarUrl: undefined };
+      return { assignee: laneKey, assigneeId: member?.assigneeId, assigneeAvatarUrl: member?.assigneeAvatarUrl };
+    case 'priority':
+      return { priority: laneKey as Task['priority'] };
+    case 'team':
+      if (laneKey === NO_TEAM_LANE) return { teamId: undefined, teamName: undefined, teamIcon: undefined };
+      return { teamId: member?.teamId, teamName: laneKey, teamIcon: member?.teamIcon };
+    case 'status':
+      if (laneKey === '완료') return { progress: 100 };
+      if (laneKey === '시작전') return { progress: 0 };
+      return { progress: task.progress === 100 ? 90 : 10 };
+    default:
+      return null;
+  }
+}
+
+// Linear workflow status for a status lane
+export const getLaneLinearStatus = (laneKey: string): 'todo' | 'in_progress' | 'done' =>
+  laneKey === '완료' ? 'done' : laneKey === '진행중' ? 'in_progress' : 'todo';
+
+export interface LaneSummary {
+  startDate: Date;
+  endDate: Date;
+  startHasTime: boolean; // whether the earliest start / latest end belong to timed tasks
+  endHasTime: boolean;
+  progress: number;
+}
+
+/**
+ * Span and progress of a lane. Progress is weighted by duration over the
+ * lane's leaf tasks so a parent and its children are not counted twice.
+ */
+export function summarizeLane(laneTasks: Task[], parentIds: Set<string>): LaneSummary | null {
+  if (laneTasks.length === 0) return null;
+  const first = laneTasks.reduce((a, b) => (b.startDate < a.startDate ? b : a));
+  const last = laneTasks.reduce((a, b) => (b.endDate > a.endDate ? b : a));
+
+  const leaves = laneTasks.filter(t => !parentIds.has(t.id));
+  const weighted = leaves.length > 0 ? leaves : laneTasks;
+  const weightOf = (t: Task) => Math.max(1, (t.endDate.getTime() - t.startDate.getTime()) / DAY_MS);
+  const totalWeight = weighted.reduce((sum, t) => sum + weightOf(t), 0);
+  const progress = Math.round(weighted.reduce((sum, t) => sum + t.progress * weightOf(t), 0) / totalWeight);
+
+  return {
+    startDate: first.startDate,
+    endDate: last.endDate,
+    startHasTime: !!first.hasTime,
+    endHasTime: !!last.hasTime,
+    progress,
+  };
+}
@@ -0,0 +1,165 @@
+import { Task, TaskSegment } from '../components/GanttChart';
+import { WorkCalendar, countWorkingDays } from './workCalendar';
+import { shiftByDays } from './taskTime';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface SegmentRange {
+  startDate: Date;
+  endDate: Date; // exclusive
+}
+
+export type SegmentEdit = 'move' | 'start' | 'end';
+
+/**
+ * Absolute ranges of the worked segments between `startDate` and `endDate`.
+ * Segments are stored relative to the task start so moving the whole task
+ * moves them along; the last one always runs to the task end. Unsplit tasks
+ * have a single range covering the whole bar.
+ */
+export function resolveSegments(segments: TaskSegment[] | undefined, startDate: Date, endDate: Date): SegmentRange[] {
+  if (!segments || segments.length < 2) return [{ startDate, endDate }];
+
+  const ranges: SegmentRange[] = [];
+  segments.forEach((segment, index) => {
+    const segmentStart = shiftByDays(startDate, segment.startOffset);
+    // A task shortened past its later segments simply loses them
+    if (segmentStart >= endDate) return;
+    const segmentEnd = index === segments.length - 1 ? endDate : shiftByDays(startDate, segment.endOffset);
+    ranges.push({ startDate: segmentStart, endDate: segmentEnd < endDate ? segmentEnd : endDate });
+  });
+  if (ranges.length === 0) return [{ startDate, endDate }];
+  ranges[ranges.length - 1].endDate = endDate;
+  return ranges.filter(r => r.endDate > r.startDate);
+}
+
+export const getTaskSegments = (task: Pick<Task, 'segments' | 'startDate' | 'endDate'>) =>
+  resolveSegments(task.segments, task.startDate, task.endDate);
+
+export const isSplitTask = (task: Pick<Task, 'segments' | 'startDate' | 'endDate'>) =>
+  getTaskSegments(task).length > 1;
+
+// Offset in days, whole days for all-day tasks so DST never adds a stray hour
+const toOffset = (date: Date, start: Date, hasTime?: boolean) => {
+  const days = (date.getTime() - start.getTime()) / DAY_MS;
+  return hasTime ? Math.round(days * 24) / 24 : Math.round(days);
+};
+
+/**
+ * Task fields for a new set of segment ranges: sorted, overlapping or
+ * touching ranges merged, and the task dates spanning all of them. A single
+ * remaining range clears the split.
+ */
+export function applySegments(
+  task: Pick<Task, 'hasTime'>,
+  ranges: SegmentRange[]
+): Pick<Task, 'startDate' | 'endDate' | 'segments'> {
+  const merged: SegmentRange[] = [];
+  [...ranges]
+    .filter(r => r.endDate > r.startDate)
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+    .forEach(range => {
+      const last = merged[merged.length - 1];
+      if (last && range.startDate <= last.endDate) {
+        if (range.endDate > last.endDate) last.endDate = range.endDate;
+      } else {
+        merged.push({ ...range });
+      }
+    });
+
+  const startDate = merged[0].startDate;
+  const endDate = merged[merged.length - 1].endDate;
+  return {
+    startDate,
+    endDate,
+    segments: merged.length > 1
+      ? merged.map(r => ({
+          startOffset: toOffset(r.startDate, startDate, task.hasTime),
+          endOffset: toOffset(r.endDate, startDate, task.hasTime),
+        }))
+      : undefined,
+  };
+}
+
+/**
+ * Splits the segment running through `offsetDays` (from the task start) and
+ * pushes the remaining work `gapDays` later, so the worked time stays the
+ * same. Returns null when the offset is not inside a segment.
+ */
+export function splitTaskAt(
+  task: Pick<Task, 'segments' | 'startDate' | 'endDate' | 'hasTime'>,
+  offsetDays: number,
+  gapDays = 1
+): Pick<Task, 'startDate' | 'endDate' | 'segments'> | null {
+  const at = shiftByDays(task.startDate, offsetDays);
+  const ranges = getTaskSegments(task);
+  const index = ranges.findIndex(r => at > r.startDate && at < r.endDate);
+  if (index < 0) return null;
+
+  const shift = (range: SegmentRange): SegmentRange => ({
+    startDate: shiftByDays(range.startDate, gapDays),
+    endDate: shiftByDays(range.endDate, gapDays),
+  });
+  const next = ranges.flatMap((range, i) => {
+    if (i < index) return [range];
+    if (i > index) return [shift(range)];
+    return [{ startDate: range.startDate, endDate: at }, shift({ startDate: at, endDate: range.endDate })];
+  });
+  return applySegments(task, next);
+}
+
+/**
+ * Moves one segment or one of its edges by `deltaDays`. The neighbors bound
+ * the change and a segment stays at least `minDays` long; dragging a segment
+ * up against a neighbor joins them once applied.
+ */
+export function editSegment(
+  ranges: SegmentRange[],
+  index: number,
+  edit: SegmentEdit,
+  deltaDays: number,
+  minDays = 1
+): SegmentRange[] {
+  const range = ranges[index];
+  const lower = ranges[index - 1]?.endDate;
+  const upper = ranges[index + 1]?.startDate;
+  const minMs = minDays * DAY_MS;
+  let { startDate, endDate } = range;
+
+  if (edit === 'move') {
+    startDate = shiftByDays(range.startDate, deltaDays);
+    endDate = shiftByDays(range.endDate, deltaDays);
+    const length = range.endDate.getTime() - range.startDate.getTime();
+    if (lower && startDate < lower) {
+      startDate = lower;
+      endDate = new Date(lower.getTime() + length);
+    }
+    if (upper && endDate > upper) {
+      endDate = upper;
+      startDate = new Date(upper.getTime() - length);
+    }
+  } else if (edit === 'start') {
+    startDate = shiftByDays(range.startDate, deltaDays);
+    if (lower && startDate < lower) startDate = lower;
+    if (endDate.getTime() - startDate.getTime() < minMs) startDate = new Date(endDate.getTime() - minMs);
+  } else {
+    endDate = shiftByDays(range.endDate, deltaDays);
+    if (upper && endDate > upper) endDate = upper;
+    if (endDate.getTime() - startDate.getTime() < minMs) endDate = new Date(startDate.getTime() + minMs);
+  }
+
+  return ranges.map((r, i) => (i === index ? { startDate, endDate } : r));
+}
+
+/**
+ * Days actually worked: the segments only, without the pauses between them.
+ * Counts working days when a calendar is given.
+ */
+export function getWorkedDays(
+  task: Pick<Task, 'segments' | 'startDate' | 'endDate' | 'assignee'>,
+  calendar?: WorkCalendar
+): number {
+  return getTaskSegments(task).reduce((sum, range) => sum + (calendar
+    ? countWorkingDays(range.startDate, range.endDate, calendar, task.assignee)
+    : (range.endDate.getTime() - range.startDate.getTime()) / DAY_MS), 0);
+}
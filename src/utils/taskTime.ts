@@ -0,0 +1,77 @@
+import { Task } from '../components/GanttChart';
+import { formatDateForLinear } from '../services/linear';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HOUR_MS = 1000 * 60 * 60;
+
+// Zoom level (4 px per hour) from which bar drags move in whole hours
+export const HOUR_SNAP_PIXELS_PER_DAY = 96;
+
+/**
+ * Days from the timeline start to a task date. All-day dates are rounded up
+ * to whole days as they always were; timed dates keep their fraction so a
+ * half-day task is drawn as half a day.
+ */
+export const getTimelineOffsetDays = (date: Date, timelineStart: Date, hasTime?: boolean) => {
+  const days = (date.getTime() - timelineStart.getTime()) / DAY_MS;
+  return hasTime ? days : Math.ceil(days);
+};
+
+// Bar length in days: at least a day for all-day tasks, at least an hour for timed ones
+export const getTaskSpanDays = (task: Pick<Task, 'startDate' | 'endDate' | 'hasTime'>) => {
+  const days = (task.endDate.getTime() - task.startDate.getTime()) / DAY_MS;
+  return task.hasTime ? Math.max(1 / 24, days) : Math.max(1, Math.ceil(days));
+};
+
+// Moves a date by whole days on the calendar (DST-safe) or by a fraction as elapsed time
+export const shiftByDays = (date: Date, days: number) => {
+  const shifted = new Date(date);
+  if (Number.isInteger(days)) shifted.setDate(shifted.getDate() + days);
+  else shifted.setTime(shifted.getTime() + Math.round(days * 24) * HOUR_MS);
+  return shifted;
+};
+
+export const hasTimeOfDay = (date: Date) => date.getHours() !== 0 || date.getMinutes() !== 0;
+
+// HH:MM for <input type="time">
+export const toTimeInputValue = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+// Local date and time from the values of a date input and a time input
+export const combineDateAndTime = (dateValue: string, timeValue: string) => {
+  const [y, m, d] = dateValue.split('-').map(Number);
+  const [hours, minutes] = (timeValue || '00:00').split(':').map(Number);
+  return new Date(y, m - 1, d, hours || 0, minutes || 0);
+};
+
+export const formatTaskDuration = (task: Pick<Task, 'startDate' | 'endDate' | 'hasTime'>) => {
+  const hours = Math.round((task.endDate.getTime() - task.startDate.getTime()) / HOUR_MS);
+  if (task.hasTime && hours < 24) return `${hours}시간`;
+  return `${Math.max(1, Math.ceil(hours / 24))}일`;
+};
+
+/**
+ * Linear only stores dates, so a re-import would reset timed tasks to
+ * midnight. Keeps the local start/end of matching tasks as long as the
+ * date Linear holds is still the one we would have sent.
+ */
+export function preserveLocalTimes(incoming: Task[], existing: Task[]): Task[] {
+  const timedByLinearId = new Map<string, Task>();
+  existing.forEach(t => {
+    const linearId = t.linearIssueId || t.linearProjectId;
+    if (t.hasTime && linearId) timedByLinearId.set(linearId, t);
+  });
+  if (timedByLinearId.size === 0) return incoming;
+
+  const sameDay = (linearDate: Date, localDate: Date) =>
+    formatDateForLinear(linearDate) === formatDateForLinear(localDate, true);
+
+  return incoming.map(task => {
+    const local = timedByLinearId.get(task.linearIssueId || task.linearProjectId || '');
+    if (!local) return task;
+    const startDate = sameDay(task.startDate, local.startDate) ? local.startDate : task.startDate;
+    const endDate = sameDay(task.endDate, local.endDate) ? local.endDate : task.endDate;
+    if (startDate === task.startDate && endDate === task.endDate) return task;
+    return { ...task, startDate, endDate, hasTime: true };
+  });
+}
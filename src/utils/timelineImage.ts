@@ -0,0 +1,233 @@
+import { Task } from '../components/GanttChart';
+import { buildHeaderCells, getHeaderTiers } from './timelineScale';
+import { getDependencyAnchors } from './dependencies';
+import { getTaskSegments } from './taskSegments';
+import { getTimelineOffsetDays } from './taskTime';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const TITLE_HEIGHT = 40;
+const HEADER_TIER_HEIGHT = 24;
+const ROW_HEIGHT = 32;
+const GROUP_ROW_HEIGHT = 28;
+const FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', 'Apple SD Gothic Neo', 'Malgun Gothic', sans-serif";
+const MILESTONE_COLOR = '#f59e0b';
+const TODAY_COLOR = '#3b82f6';
+const DEPENDENCY_COLOR = '#3b82f6';
+const GRID_COLOR = '#e5e7eb';
+
+// Largest canvas side browsers reliably rasterize
+export const MAX_IMAGE_SIDE = 16384;
+
+// Width of the task name column left of the bars
+export const TIMELINE_LABEL_WIDTH = 260;
+
+// A row of the chart as it is shown: a task with its depth, or a swimlane header
+export type TimelineImageRow = Task & { level: number; isGroupHeader?: boolean; groupName?: string; groupCount?: number };
+
+export interface TimelineImageOptions {
+  rangeStart: Date; // local midnight of the first day
+  rangeEnd: Date; // exclusive
+  pixelsPerDay: number;
+  title?: string;
+  today?: Date;
+  showDependencies?: boolean;
+  // Draw only rows[start, end), e.g. one printed page; arrows to rows outside are cut at the edge
+  rowRange?: { start: number; end: number };
+}
+
+export interface TimelineImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rough text width: CJK and other wide characters take a full em, the rest about half
+const estimateTextWidth = (text: string, fontSize: number) =>
+  [...text].reduce((width, char) => width + (char.charCodeAt(0) > 0x1100 ? fontSize : fontSize * 0.56), 0);
+
+// Shortens text with an ellipsis until it fits; SVG text never wraps or clips by itself
+const fitText = (text: string, maxWidth: number, fontSize: number) => {
+  if (estimateTextWidth(text, fontSize) <= maxWidth) return text;
+  const chars = [...text];
+  while (chars.length > 0 && estimateTextWidth(`${chars.join('')}…`, fontSize) > maxWidth) chars.pop();
+  return `${chars.join('')}…`;
+};
+
+// Days in the range, whole days so DST doesn't leave a sliver
+export const getImageRangeDays = (rangeStart: Date, rangeEnd: Date) =>
+  Math.max(1, Math.round((rangeEnd.getTime() - rangeStart.getTime()) / DAY_MS));
+
+export const getTimelineRowHeight = (row: Pick<TimelineImageRow, 'isGroupHeader'>) =>
+  row.isGroupHeader ? GROUP_ROW_HEIGHT : ROW_HEIGHT;
+
+// Height of the date header, one or two tiers depending on the scale
+export const getTimelineHeaderHeight = (pixelsPerDay: number) =>
+  HEADER_TIER_HEIGHT * (getHeaderTiers(pixelsPerDay).upper ? 2 : 1);
+
+// Size of the picture before rendering it, to warn about huge exports
+export function measureTimelineImage(rows: Pick<TimelineImageRow, 'isGroupHeader'>[], options: TimelineImageOptions) {
+  const headerHeight = getTimelineHeaderHeight(options.pixelsPerDay);
+  const { start, end } = options.rowRange ?? { start: 0, end: rows.length };
+  const rowsHeight = rows.slice(start, end).reduce((sum, row) => sum + getTimelineRowHeight(row), 0);
+  return {
+    width: Math.ceil(TIMELINE_LABEL_WIDTH + getImageRangeDays(options.rangeStart, options.rangeEnd) * options.pixelsPerDay),
+    height: (options.title ? TITLE_HEIGHT : 0) + headerHeight + rowsHeight,
+  };
+}
+
+/**
+ * The timeline as a standalone SVG: the rows as given (already filtered,
+ * grouped and collapsed), drawn over `rangeStart`–`rangeEnd` at a fixed
+ * scale, with the time header, bars with progress and split segments,
+ * milestones, dependency arrows and the today line. Nothing depends on the
+ * on-screen scroll position or zoom.
+ */
+export function renderTimelineSvg(rows: TimelineImageRow[], options: TimelineImageOptions): TimelineImage {
+  const { rangeStart, rangeEnd, pixelsPerDay, title, today = new Date(), showDependencies = true } = options;
+  const { start: firstRow, end: lastRow } = options.rowRange ?? { start: 0, end: rows.length };
+  const isVisible = (index: number) => index >= firstRow && index < lastRow;
+  const totalDays = getImageRangeDays(rangeStart, rangeEnd);
+  const timelineWidth = totalDays * pixelsPerDay;
+  const width = Math.ceil(TIMELINE_LABEL_WIDTH + timelineWidth);
+  const tiers = getHeaderTiers(pixelsPerDay);
+  const titleHeight = title ? TITLE_HEIGHT : 0;
+  const headerTop = titleHeight;
+  const rowsTop = headerTop + getTimelineHeaderHeight(pixelsPerDay);
+
+  // Rows before the range sit above the picture so arrows keep their direction
+  const rowTops: number[] = [];
+  let y = rowsTop - rows.slice(0, firstRow).reduce((sum, row) => sum + getTimelineRowHeight(row), 0);
+  rows.forEach((row, index) => {
+    rowTops.push(y);
+    if (index < lastRow) y += getTimelineRowHeight(row);
+  });
+  const height = y;
+
+  const xOf = (date: Date, hasTime?: boolean) =>
+    TIMELINE_LABEL_WIDTH + getTimelineOffsetDays(date, rangeStart, hasTime) * pixelsPerDay;
+  const clampX = (x: number) => Math.max(TIMELINE_LABEL_WIDTH, Math.min(width, x));
+  const parts: string[] = [];
+
+  parts.push(`<rect width="${width}" height="${height}" fill="#ffffff"/>`);
+  if (title) {
+    parts.push(`<text x="16" y="${TITLE_HEIGHT / 2 + 6}" font-size="16" font-weight="600" fill="#111827">${escapeXml(title)}</text>`);
+  }
+
+  // Time header and the grid lines of its finer tier
+  const lowerCells = buildHeaderCells(tiers.lower, rangeStart, rangeEnd, false, tiers.hourStep);
+  const headerTiers = tiers.upper
+    ? [buildHeaderCells(tiers.upper, rangeStart, rangeEnd, true), lowerCells]
+    : [lowerCells];
+  headerTiers.forEach((cells, tierIndex) => {
+    const top = headerTop + tierIndex * HEADER_TIER_HEIGHT;
+    parts.push(`<rect x="0" y="${top}" width="${width}" height="${HEADER_TIER_HEIGHT}" fill="#f9fafb"/>`);
+    cells.forEach(cell => {
+      const x = TIMELINE_LABEL_WIDTH + cell.startDay * pixelsPerDay;
+      const cellWidth = cell.days * pixelsPerDay;
+      parts.push(`<line x1="${x}" y1="${top}" x2="${x}" y2="${top + HEADER_TIER_HEIGHT}" stroke="${GRID_COLOR}"/>`);
+      const label = fitText(cell.label, cellWidth - 8, 11);
+      if (label !== '…') {
+        parts.push(`<text x="${x + 4}" y="${top + 16}" font-size="11" fill="#6b7280">${escapeXml(label)}</text>`);
+      }
+    });
+    parts.push(`<line x1="0" y1="${top + HEADER_TIER_HEIGHT}" x2="${width}" y2="${top + HEADER_TIER_HEIGHT}" stroke="${GRID_COLOR}"/>`);
+  });
+  lowerCells.forEach(cell => {
+    const x = TIMELINE_LABEL_WIDTH + cell.startDay * pixelsPerDay;
+    parts.push(`<line x1="${x}" y1="${rowsTop}" x2="${x}" y2="${height}" stroke="${GRID_COLOR}" stroke-opacity="0.6"/>`);
+  });
+
+  // Rows: label column, then the bar
+  rows.forEach((row, index) => {
+    if (!isVisible(index)) return;
+    const top = rowTops[index];
+    const rowHeight = getTimelineRowHeight(row);
+    const middle = top + rowHeight / 2;
+
+    if (row.isGroupHeader) {
+      parts.push(`<rect x="0" y="${top}" width="${width}" height="${rowHeight}" fill="#f3f4f6"/>`);
+      const label = `${row.groupName ?? row.name}${row.groupCount !== undefined ? ` (${row.groupCount})` : ''}`;
+      parts.push(`<text x="12" y="${middle + 4}" font-size="12" font-weight="600" fill="#374151">${escapeXml(fitText(label, TIMELINE_LABEL_WIDTH - 24, 12))}</text>`);
+      const from = clampX(xOf(row.startDate, row.hasTime));
+      const to = clampX(xOf(row.endDate, row.hasTime));
+      if (to > from) parts.push(`<rect x="${from}" y="${middle - 2}" width="${to - from}" height="4" rx="2" fill="#9ca3af"/>`);
+    } else {
+      const indent = 12 + row.level * 16;
+      parts.push(`<text x="${indent}" y="${middle + 4}" font-size="12" fill="#111827">${escapeXml(fitText(row.name, TIMELINE_LABEL_WIDTH - indent - 12, 12))}</text>`);
+
+      if (row.isMilestone) {
+        const x = xOf(row.startDate, row.hasTime);
+        if (x >= TIMELINE_LABEL_WIDTH && x <= width) {
+          const size = rowHeight * 0.22;
+          parts.push(`<path d="M ${x} ${middle - size} L ${x + size} ${middle} L ${x} ${middle + size} L ${x - size} ${middle} Z" fill="${MILESTONE_COLOR}"/>`);
+        }
+      } else {
+        const barHeight = rowHeight * 0.5;
+        const barTop = middle - barHeight / 2;
+        const barStart = xOf(row.startDate, row.hasTime);
+        const barEnd = Math.max(barStart + 2, xOf(row.endDate, row.hasTime));
+        // Progress covers the bar from its start, across the pauses of a split task
+        const progressEnd = barStart + ((barEnd - barStart) * row.progress) / 100;
+        getTaskSegments(row).forEach(segment => {
+          const from = clampX(xOf(segment.startDate, row.hasTime));
+          const to = clampX(Math.max(from + 2, xOf(segment.endDate, row.hasTime)));
+          if (to <= TIMELINE_LABEL_WIDTH || from >= width) return;
+          const color = escapeXml(row.color);
+          parts.push(`<rect x="${from}" y="${barTop}" width="${to - from}" height="${barHeight}" rx="3" fill="${color}" fill-opacity="0.35"/>`);
+          const filledTo = Math.min(to, clampX(progressEnd));
+          if (filledTo > from) {
+            parts.push(`<rect x="${from}" y="${barTop}" width="${filledTo - from}" height="${barHeight}" rx="3" fill="${color}"/>`);
+          }
+        });
+      }
+    }
+    parts.push(`<line x1="0" y1="${top + rowHeight}" x2="${width}" y2="${top + rowHeight}" stroke="${GRID_COLOR}" stroke-opacity="0.6"/>`);
+  });
+  parts.push(`<line x1="${TIMELINE_LABEL_WIDTH}" y1="${headerTop}" x2="${TIMELINE_LABEL_WIDTH}" y2="${height}" stroke="#d1d5db"/>`);
+
+  // Dependency arrows between rows that made it into the picture, clipped to the rows area
+  if (showDependencies) {
+    const indexById = new Map(rows.map((row, index) => [row.id, index]));
+    parts.push('<g clip-path="url(#rowsArea)">');
+    rows.forEach((row, toIndex) => {
+      (row.dependencies || []).forEach(dep => {
+        const fromIndex = indexById.get(dep.taskId);
+        if (fromIndex === undefined) return;
+        if (Math.max(fromIndex, toIndex) < firstRow || Math.min(fromIndex, toIndex) >= lastRow) return;
+        const fromRow = rows[fromIndex];
+        const anchors = getDependencyAnchors(dep.type);
+        const fromX = clampX(xOf(anchors.from === 'start' ? fromRow.startDate : fromRow.endDate, fromRow.hasTime));
+        const toX = clampX(xOf(anchors.to === 'start' ? row.startDate : row.endDate, row.hasTime));
+        const fromY = rowTops[fromIndex] + ROW_HEIGHT / 2;
+        const toY = rowTops[toIndex] + ROW_HEIGHT / 2;
+        const exitX = fromX + (anchors.from === 'end' ? 8 : -8);
+        const enterX = toX + (anchors.to === 'start' ? -8 : 8);
+        parts.push(
+          `<path d="M ${fromX} ${fromY} L ${exitX} ${fromY} L ${exitX} ${(fromY + toY) / 2} L ${enterX} ${(fromY + toY) / 2} L ${enterX} ${toY} L ${toX} ${toY}" ` +
+          `fill="none" stroke="${DEPENDENCY_COLOR}" stroke-width="1.5" marker-end="url(#arrowhead)"/>`
+        );
+      });
+    });
+    parts.push('</g>');
+  }
+
+  // Today
+  const todayX = TIMELINE_LABEL_WIDTH + ((today.getTime() - rangeStart.getTime()) / DAY_MS) * pixelsPerDay;
+  if (todayX >= TIMELINE_LABEL_WIDTH && todayX <= width) {
+    parts.push(`<line x1="${todayX}" y1="${headerTop}" x2="${todayX}" y2="${height}" stroke="${TODAY_COLOR}" stroke-width="2"/>`);
+  }
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(FONT_FAMILY)}">`,
+    '<defs><marker id="arrowhead" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">',
+    `<polygon points="0 0, 8 3, 0 6" fill="${DEPENDENCY_COLOR}"/></marker>`,
+    `<clipPath id="rowsArea"><rect x="${TIMELINE_LABEL_WIDTH}" y="${rowsTop}" width="${timelineWidth}" height="${height - rowsTop}"/></clipPath></defs>`,
+    ...parts,
+    '</svg>',
+  ].join('\n');
+  return { svg, width, height };
+}
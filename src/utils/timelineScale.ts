@@ -0,0 +1,118 @@
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HOUR_MS = 1000 * 60 * 60;
+
+export const MIN_PIXELS_PER_DAY = 0.5;
+export const MAX_PIXELS_PER_DAY = 1440; // one pixel per minute
+
+export const clampPixelsPerDay = (pixelsPerDay: number) =>
+  Math.min(MAX_PIXELS_PER_DAY, Math.max(MIN_PIXELS_PER_DAY, pixelsPerDay));
+
+export type TimeUnit = 'year' | 'quarter' | 'month' | 'week' | 'day' | 'hour';
+
+export interface HeaderCell {
+  date: Date; // start of the unit (may lie before the timeline start)
+  startDay: number; // offset from the timeline start, clipped to the timeline (fractional for hours)
+  days: number; // visible length in days
+  label: string;
+}
+
+// Narrowest hour cell that still fits a label like "13시"
+const MIN_HOUR_CELL_PX = 28;
+const HOUR_STEPS = [1, 2, 3, 6];
+
+/**
+ * Header rows for a zoom level. The lower tier is the finest unit whose labels
+ * still fit; it also decides where grid lines are drawn. Hour cells span
+ * `hourStep` hours.
+ */
+export function getHeaderTiers(pixelsPerDay: number): { upper: TimeUnit | null; lower: TimeUnit; hourStep: number } {
+  const hourStep = HOUR_STEPS.find(step => (pixelsPerDay / 24) * step >= MIN_HOUR_CELL_PX);
+  if (hourStep) return { upper: 'day', lower: 'hour', hourStep };
+  return { ...getDayTiers(pixelsPerDay), hourStep: 1 };
+}
+
+const getDayTiers = (pixelsPerDay: number): { upper: TimeUnit | null; lower: TimeUnit } => {
+  if (pixelsPerDay >= 20) return { upper: 'month', lower: 'day' };
+  if (pixelsPerDay >= 6) return { upper: 'month', lower: 'week' };
+  if (pixelsPerDay >= 1.6) return { upper: 'year', lower: 'month' };
+  if (pixelsPerDay >= 0.7) return { upper: 'year', lower: 'quarter' };
+  return { upper: null, lower: 'year' };
+};
+
+const startOfUnit = (date: Date, unit: TimeUnit, hourStep: number): Date => {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  switch (unit) {
+    case 'hour': return new Date(d.getFullYear(), d.getMonth(), d.getDate(), Math.floor(date.getHours() / hourStep) * hourStep);
+    case 'year': return new Date(d.getFullYear(), 0, 1);
+    case 'quarter': return new Date(d.getFullYear(), Math.floor(d.getMonth() / 3) * 3, 1);
+    case 'month': return new Date(d.getFullYear(), d.getMonth(), 1);
+    case 'week': return new Date(d.getFullYear(), d.getMonth(), d.getDate() - d.getDay()); // weeks start on Sunday
+    default: return d;
+  }
+};
+
+const nextUnit = (date: Date, unit: TimeUnit, hourStep: number): Date => {
+  switch (unit) {
+    case 'hour': return new Date(date.getTime() + hourStep * HOUR_MS);
+    case 'year': return new Date(date.getFullYear() + 1, 0, 1);
+    case 'quarter': return new Date(date.getFullYear(), date.getMonth() + 3, 1);
+    case 'month': return new Date(date.getFullYear(), date.getMonth() + 1, 1);
+    case 'week': return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7);
+    default: return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  }
+};
+
+const formatUnit = (date: Date, unit: TimeUnit, isUpper: boolean): string => {
+  switch (unit) {
+    case 'year': return `${date.getFullYear()}년`;
+    case 'quarter': return `Q${Math.floor(date.getMonth() / 3) + 1}`;
+    case 'month':
+      return date.toLocaleDateString('ko', isUpper ? { year: 'numeric', month: 'short' } : { month: 'short' });
+    case 'week': return `${date.getMonth() + 1}/${date.getDate()}`;
+    case 'hour': return `${date.getHours()}시`;
+    default:
+      return isUpper
+        ? date.toLocaleDateString('ko', { month: 'short', day: 'numeric', weekday: 'short' })
+        : `${date.getDate()}`;
+  }
+};
+
+// One cell per unit between start and end, clipped to the timeline
+export function buildHeaderCells(unit: TimeUnit, start: Date, end: Date, isUpper = false, hourStep = 1): HeaderCell[] {
+  const cells: HeaderCell[] = [];
+  // Whole days absorb DST shifts; hour cells are placed to the hour
+  const toDays = (ms: number) => (unit === 'hour' ? Math.round((ms / DAY_MS) * 24) / 24 : Math.round(ms / DAY_MS));
+  for (let cursor = startOfUnit(start, unit, hourStep); cursor < end; cursor = nextUnit(cursor, unit, hourStep)) {
+    const next = nextUnit(cursor, unit, hourStep);
+    const from = Math.max(0, toDays(cursor.getTime() - start.getTime()));
+    const to = toDays(Math.min(next.getTime(), end.getTime()) - start.getTime());
+    if (to <= from) continue;
+    cells.push({ date: cursor, startDay: from, days: to - from, label: formatUnit(cursor, unit, isUpper) });
+  }
+  return cells;
+}
+
+/**
+ * Timeline span covering every task and today, padded and aligned to whole
+ * months so the header starts on a clean boundary.
+ */
+export function getTimelineRange(
+  tasks: { startDate: Date; endDate: Date }[],
+  paddingDays = 30
+): { start: Date; end: Date } {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  let min = today.getTime();
+  let max = today.getTime();
+  tasks.forEach(t => {
+    min = Math.min(min, t.startDate.getTime());
+    max = Math.max(max, t.endDate.getTime());
+  });
+
+  const from = new Date(min - paddingDays * DAY_MS);
+  const to = new Date(max + paddingDays * DAY_MS);
+  return {
+    start: new Date(from.getFullYear(), from.getMonth(), 1),
+    end: new Date(to.getFullYear(), to.getMonth() + 1, 1),
+  };
+}
@@ -0,0 +1,54 @@
+export type RowHeight = 'compact' | 'default' | 'comfortable';
+
+// Pixel heights of timeline rows; row markup and dependency lines must agree on these
+export const ROW_HEIGHT_PX: Record<RowHeight, number> = {
+  compact: 48,
+  default: 64,
+  comfortable: 80,
+};
+
+export const GROUP_HEADER_HEIGHT_PX = 40;
+
+export interface VisibleRange {
+  start: number; // first mounted row
+  end: number; // one past the last mounted row
+}
+
+// Top offset of every row, followed by the total height (length = rows + 1)
+export function computeRowOffsets(rows: { isGroupHeader?: boolean }[], rowHeight: RowHeight): number[] {
+  const offsets = new Array<number>(rows.length + 1);
+  const taskHeight = ROW_HEIGHT_PX[rowHeight] || ROW_HEIGHT_PX.default;
+  offsets[0] = 0;
+  rows.forEach((row, index) => {
+    offsets[index + 1] = offsets[index] + (row.isGroupHeader ? GROUP_HEADER_HEIGHT_PX : taskHeight);
+  });
+  return offsets;
+}
+
+// Index of the row containing the given y offset (binary search over the offsets)
+const rowAt = (offsets: number[], y: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= y) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * Rows intersecting the viewport, widened by `overscan` rows on each side so
+ * fast scrolling does not flash empty space. `scrollTop` is relative to the
+ * top of the first row.
+ */
+export function getVisibleRange(offsets: number[], scrollTop: number, viewportHeight: number, overscan = 8): VisibleRange {
+  const rowCount = offsets.length - 1;
+  if (rowCount <= 0) return { start: 0, end: 0 };
+  const first = rowAt(offsets, Math.max(0, scrollTop));
+  const last = rowAt(offsets, Math.max(0, scrollTop + viewportHeight));
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(rowCount, last + overscan + 1),
+  };
+}
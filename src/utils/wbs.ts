@@ -0,0 +1,126 @@
+import { Task } from '../components/GanttChart';
+
+/**
+ * Outline numbers ("1", "1.2", "1.2.3") following the task order: roots are
+ * numbered in order, children in order under their parent. Tasks whose
+ * parent is missing count as roots.
+ */
+export function computeWbsNumbers(tasks: Pick<Task, 'id' | 'parentId'>[]): Map<string, string> {
+  const ids = new Set(tasks.map(t => t.id));
+  const children = new Map<string | undefined, string[]>();
+  tasks.forEach(task => {
+    const parent = task.parentId && ids.has(task.parentId) ? task.parentId : undefined;
+    if (!children.has(parent)) children.set(parent, []);
+    children.get(parent)!.push(task.id);
+  });
+
+  const numbers = new Map<string, string>();
+  const visit = (parent: string | undefined, prefix: string) => {
+    (children.get(parent) || []).forEach((id, index) => {
+      if (numbers.has(id)) return; // guards against parent loops
+      const number = prefix ? `${prefix}.${index + 1}` : `${index + 1}`;
+      numbers.set(id, number);
+      visit(id, number);
+    });
+  };
+  visit(undefined, '');
+  return numbers;
+}
+
+type HierarchyTask = Pick<Task, 'id' | 'parentId'>;
+
+// Selected tasks whose ancestors are not selected too; the rest move along with those
+const getTopSelected = <T extends HierarchyTask>(tasks: T[], ids: Set<string>): T[] => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const hasSelectedAncestor = (task: T) => {
+    const seen = new Set<string>();
+    for (let parentId = task.parentId; parentId && !seen.has(parentId); parentId = byId.get(parentId)?.parentId) {
+      if (ids.has(parentId)) return true;
+      seen.add(parentId);
+    }
+    return false;
+  };
+  return tasks.filter(t => ids.has(t.id) && !hasSelectedAncestor(t));
+};
+
+const moveTo = <T>(list: T[], from: number, to: number) => {
+  const [item] = list.splice(from, 1);
+  list.splice(from < to ? to - 1 : to, 0, item);
+};
+
+/**
+ * Makes each selected task the last child of the sibling above it. Tasks
+ * without a sibling above stay where they are.
+ */
+export function indentTasks<T extends HierarchyTask>(tasks: T[], ids: Set<string>): T[] {
+  const next = [...tasks];
+  getTopSelected(tasks, ids).forEach(selected => {
+    const index = next.findIndex(t => t.id === selected.id);
+    const newParent = next.slice(0, index).reverse().find(t => t.parentId === selected.parentId);
+    if (!newParent) return;
+    next[index] = { ...next[index], parentId: newParent.id };
+    // After the new siblings, which may come later in the list
+    const lastChild = next.reduce((last, t, i) => (t.parentId === newParent.id && t.id !== selected.id ? i : last), -1);
+    if (lastChild > index) moveTo(next, index, lastChild + 1);
+  });
+  return next;
+}
+
+/**
+ * Moves each selected task up a level, right after its former parent.
+ * Top-level tasks stay where they are.
+ */
+export function outdentTasks<T extends HierarchyTask>(tasks: T[], ids: Set<string>): T[] {
+  const next = [...tasks];
+  // Last first so tasks outdented from the same parent keep their order
+  getTopSelected(tasks, ids).reverse().forEach(selected => {
+    const parentIndex = next.findIndex(t => t.id === selected.parentId);
+    if (parentIndex < 0) return;
+    const index = next.findIndex(t => t.id === selected.id);
+    next[index] = { ...next[index], parentId: next[parentIndex].parentId };
+    moveTo(next, index, parentIndex + 1);
+  });
+  return next;
+}
+
+/**
+ * Swaps each selected task with the sibling above (-1) or below (1) it, so
+ * a selected block moves together and stops at the edge.
+ */
+export function moveTasksAmongSiblings<T extends HierarchyTask>(tasks: T[], ids: Set<string>, direction: -1 | 1): T[] {
+  const next = [...tasks];
+  const selected = getTopSelected(tasks, ids);
+  (direction < 0 ? selected : selected.reverse()).forEach(task => {
+    const index = next.findIndex(t => t.id === task.id);
+    const siblings = direction < 0 ? next.slice(0, index).reverse() : next.slice(index + 1);
+    const neighbor = siblings.find(t => t.parentId === task.parentId);
+    if (!neighbor || ids.has(neighbor.id)) return;
+    const neighborIndex = next.indexOf(neighbor);
+    next[neighborIndex] = next[index];
+    next[index] = neighbor;
+  });
+  return next;
+}
+
+/**
+ * Where a Linear issue belongs after moving under `parentId`: a sub-issue of
+ * the parent when that is an issue (top-level otherwise), and in the project
+ * task above it if there is one. Null for tasks that are not issues.
+ */
+export function getLinearParentUpdate(
+  tasks: Pick<Task, 'id' | 'parentId' | 'linearIssueId' | 'linearProjectId'>[],
+  task: Pick<Task, 'linearIssueId'>,
+  parentId: string | undefined
+): { parentId: string | null; projectId?: string } | null {
+  if (!task.linearIssueId) return null;
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const parent = parentId ? byId.get(parentId) : undefined;
+
+  const seen = new Set<string>();
+  let ancestor = parent;
+  while (ancestor && !ancestor.linearProjectId && !seen.has(ancestor.id)) {
+    seen.add(ancestor.id);
+    ancestor = ancestor.parentId ? byId.get(ancestor.parentId) : undefined;
+  }
+  return { parentId: parent?.linearIssueId || null, projectId: ancestor?.linearProjectId };
+}
@@ -0,0 +1,154 @@
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface WorkCalendar {
+  workingWeekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: Holiday[];
+  daysOff: Record<string, string[]>; // assignee name -> YYYY-MM-DD list
+}
+
+export const defaultWorkCalendar: WorkCalendar = {
+  workingWeekdays: [1, 2, 3, 4, 5],
+  holidays: [],
+  daysOff: {},
+};
+
+// Guards the day-by-day walks below against calendars with no working days at all
+const MAX_SCAN_DAYS = 3660;
+
+export const toDateKey = (date: Date) => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+export type NonWorkingReason =
+  | { kind: 'weekend' }
+  | { kind: 'holiday'; name: string }
+  | { kind: 'dayOff'; assignee: string };
+
+export function getNonWorkingReason(date: Date, calendar: WorkCalendar, assignee?: string): NonWorkingReason | null {
+  const key = toDateKey(date);
+  const holiday = calendar.holidays.find(h => h.date === key);
+  if (holiday) return { kind: 'holiday', name: holiday.name };
+  if (calendar.workingWeekdays.length > 0 && !calendar.workingWeekdays.includes(date.getDay())) {
+    return { kind: 'weekend' };
+  }
+  if (assignee && calendar.daysOff[assignee]?.includes(key)) return { kind: 'dayOff', assignee };
+  return null;
+}
+
+export function isWorkingDay(date: Date, calendar: WorkCalendar, assignee?: string): boolean {
+  return getNonWorkingReason(date, calendar, assignee) === null;
+}
+
+// First working day at or after (direction 1) / at or before (direction -1) the date
+export function snapToWorkingDay(date: Date, calendar: WorkCalendar, assignee?: string, direction: 1 | -1 = 1): Date {
+  let current = new Date(date);
+  for (let i = 0; i < MAX_SCAN_DAYS && !isWorkingDay(current, calendar, assignee); i++) {
+    current = addDays(current, direction);
+  }
+  return current;
+}
+
+// Working days in [start, end) — task end dates are exclusive in the timeline math
+export function countWorkingDays(start: Date, end: Date, calendar: WorkCalendar, assignee?: string): number {
+  let count = 0;
+  let current = new Date(start);
+  for (let i = 0; i < MAX_SCAN_DAYS && current < end; i++) {
+    if (isWorkingDay(current, calendar, assignee)) count++;
+    current = addDays(current, 1);
+  }
+  return count;
+}
+
+/**
+ * Moves a date by a number of working days.
+ *
+ * Forward from a start date it returns the exclusive end after that many
+ * working days; backward from an end date it returns the start that covers
+ * that many working days. Zero returns the date unchanged.
+ */
+export function addWorkingDays(date: Date, days: number, calendar: WorkCalendar, assignee?: string): Date {
+  let current = new Date(date);
+  let remaining = Math.abs(days);
+  for (let i = 0; i < MAX_SCAN_DAYS && remaining > 0; i++) {
+    if (days > 0) {
+      if (isWorkingDay(current, calendar, assignee)) remaining--;
+      current = addDays(current, 1);
+    } else {
+      current = addDays(current, -1);
+      if (isWorkingDay(current, calendar, assignee)) remaining--;
+    }
+  }
+  return current;
+}
+
+// Turns a date-only "YYYYMMDD" into a local date; date-times ("YYYYMMDDTHHMMSS") don't match
+const parseIcsDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+/**
+ * Reads all-day events from an iCalendar file as holidays.
+ * Multi-day events (DTEND is exclusive) are expanded to one entry per day.
+ * Timed events (meetings, appointments) are skipped: they don't close the day.
+ */
+export function parseIcsHolidays(text: string): Holiday[] {
+  // Unfold continuation lines (RFC 5545: a line starting with a space or tab continues the previous one)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const holidays: Holiday[] = [];
+  let event: { start?: Date; end?: Date; name?: string; timed?: boolean } | null = null;
+
+  lines.forEach(line => {
+    if (line.startsWith('BEGIN:VEVENT')) {
+      event = {};
+      return;
+    }
+    if (!event) return;
+
+    if (line.startsWith('END:VEVENT')) {
+      if (event.start && !event.timed) {
+        const end = event.end && event.end > event.start ? event.end : addDays(event.start, 1);
+        for (let day = event.start; day < end; day = addDays(day, 1)) {
+          holidays.push({ date: toDateKey(day), name: event.name || '휴일' });
+        }
+      }
+      event = null;
+      return;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (property === 'DTSTART') {
+      event.start = parseIcsDate(value) || undefined;
+      event.timed = !event.start;
+    }
+    else if (property === 'DTEND') event.end = parseIcsDate(value) || undefined;
+    else if (property === 'SUMMARY') event.name = value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ');
+  });
+
+  return holidays;
+}
+
+// Merges holiday lists by date; entries from `incoming` win
+export function mergeHolidays(existing: Holiday[], incoming: Holiday[]): Holiday[] {
+  const byDate = new Map(existing.map(h => [h.date, h]));
+  incoming.forEach(h => byDate.set(h.date, h));
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}